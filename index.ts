@@ -1,3 +1,16 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { createInterface } from "node:readline";
+
+import { RecordingModelClient, ReplayModelClient } from "./src/cassette-client";
+import { ChatSession, describeToolCall } from "./src/chat-session";
+import type { ModelClient } from "./src/contracts";
+import {
+  FaultInjectingModelClient,
+  parseFaultProfile,
+  type FaultProfile,
+} from "./src/fault-injection";
+import { GoogleModelClient } from "./src/gemini-client";
 import { defaultGenerationSettings, type ReasoningEffort } from "./src/generation-settings";
 import {
   getModelOptions,
@@ -5,35 +18,63 @@ import {
   MODEL_CATALOG_FALLBACK,
   normalizeRunnableModel,
 } from "./src/model-catalog";
-import { PROMPT_PRESETS } from "./src/prompt-presets";
 import type { PromptPreset } from "./src/prompt-presets";
+import { loadPromptPresets } from "./src/preset-loader";
+import { loadPriceTable, type PriceTable } from "./src/pricing";
+import {
+  defaultStrategyRegistry,
+  loadStrategyModules,
+  parseStrategyOptionFlags,
+  type Strategy,
+  type StrategyOptionsById,
+} from "./src/strategy-registry";
 import {
-  STRATEGIES,
   getDefaultModel,
+  resolveApiKeyFromEnv,
   runStrategy,
-  type Strategy,
 } from "./src/strategy-runner";
-import { runBenchmark } from "./src/benchmark";
+import {
+  describeSignificantPairs,
+  runBenchmark,
+  strategyLabel,
+  type BenchmarkAggregate,
+} from "./src/benchmark";
 import { resolveEnvSettings } from "./src/env";
-import { createFileLogger } from "./src/run-logger";
+import { createFileLogger, createLogPath } from "./src/run-logger";
+import { readCheckpoint } from "./src/benchmark-checkpoint";
+import {
+  compareBenchmarkResults,
+  readBenchmarkResultFile,
+  type BenchmarkRegressionReport,
+  type RegressionThresholds,
+} from "./src/benchmark-compare";
+import { formatFailureCategories } from "./src/reports/report-tables";
+import {
+  parseReportFormat,
+  renderBenchmarkReport,
+  type ReportFormat,
+} from "./src/reports/benchmark-report";
 
 interface CommonCliSettings {
   model: string;
-  repairModel?: string;
-  routerMaxTurns?: number;
-  hybridMaxTurns?: number;
+  strategyOptions: StrategyOptionsById;
   thinking: boolean;
   includeThoughts: boolean;
   reasoningEffort: ReasoningEffort;
   maxRetries: number;
   logs: boolean;
   verbose: boolean;
+  recordDir?: string;
+  replayDir?: string;
+  faults?: FaultProfile;
+  faultSeed: number;
 }
 
 interface SingleRunOptions extends CommonCliSettings {
   mode: "single";
   strategy: Strategy;
   prompt: string;
+  toolTopK?: number;
 }
 
 interface BenchmarkOptions extends CommonCliSettings {
@@ -42,19 +83,44 @@ interface BenchmarkOptions extends CommonCliSettings {
   strategies: Strategy[];
   presets: PromptPreset[];
   iterations: number;
+  concurrency: number;
+  modelConcurrency?: number | Record<string, number>;
+  checkpointPath?: string;
+  resumePath?: string;
+  report?: ReportFormat;
+  reportOut?: string;
+  compareTo?: string;
+  regressionThresholds: RegressionThresholds;
+  priceTable?: PriceTable;
+  toolTopK?: number[];
 }
 
-type CliOptions = SingleRunOptions | BenchmarkOptions;
+interface ChatOptions extends CommonCliSettings {
+  mode: "chat";
+  strategy: Strategy;
+  toolTopK?: number;
+}
+
+type CliOptions = SingleRunOptions | BenchmarkOptions | ChatOptions;
 
 async function main(): Promise<void> {
   const args = Bun.argv.slice(2);
+  const strategyModules = parseStringFlag(args, "--strategy-modules=");
+  if (strategyModules) {
+    await loadStrategyModules(splitList(strategyModules));
+  }
+  const presets = loadPromptPresets({
+    files: splitList(parseStringFlag(args, "--presets-file=") ?? ""),
+    dirs: splitList(parseStringFlag(args, "--presets-dir=") ?? ""),
+  });
+
   if (args.includes("--help") || args.includes("-h")) {
     console.log(usageMessage());
     return;
   }
 
   if (args.includes("--list-presets")) {
-    for (const preset of PROMPT_PRESETS) {
+    for (const preset of presets) {
       console.log(`${preset.id}: ${preset.title}`);
     }
     return;
@@ -68,8 +134,24 @@ async function main(): Promise<void> {
     return;
   }
 
+  const compareTo = parseStringFlag(args, "--compare-to=");
+  const candidatePath = parseStringFlag(args, "--candidate=");
+  if (compareTo && candidatePath) {
+    const report = compareBenchmarkResults(
+      readBenchmarkResultFile(compareTo),
+      readBenchmarkResultFile(candidatePath),
+      parseRegressionThresholds(args),
+    );
+    logRegressionReport(report);
+    console.log(JSON.stringify(report, null, 2));
+    if (!report.passed) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
   const env = await resolveEnvSettings();
-  const options = parseArgs(args, env.model ?? getDefaultModel());
+  const options = parseArgs(args, env.model ?? getDefaultModel(), presets);
   if (options.logs) {
     console.error(`[env] source=${env.source}`);
   }
@@ -84,15 +166,31 @@ async function main(): Promise<void> {
         fileLogger?.log(line);
       }
     : undefined;
+  const client = await createCliModelClient(options);
+  if (options.logs && options.recordDir) {
+    console.error(`[record] dir=${options.recordDir}`);
+  }
+  if (options.logs && options.replayDir) {
+    console.error(`[replay] dir=${options.replayDir}`);
+  }
+  if (options.logs && options.faults) {
+    console.error(
+      `[faults] profile=${JSON.stringify(options.faults)} seed=${options.faultSeed}`,
+    );
+  }
+
+  if (options.mode === "chat") {
+    await runChatRepl(options, client, logger);
+    logInjectedFaults(client, logger);
+    return;
+  }
 
   if (options.mode === "single") {
     const result = await runStrategy({
       strategy: options.strategy,
       prompt: options.prompt,
       model: options.model,
-      repairModel: options.repairModel,
-      routerMaxTurns: options.routerMaxTurns,
-      hybridMaxTurns: options.hybridMaxTurns,
+      strategyOptions: options.strategyOptions,
       generationSettings: {
         thinking: options.thinking,
         includeThoughts: options.includeThoughts,
@@ -102,23 +200,41 @@ async function main(): Promise<void> {
       logs: options.logs,
       verbose: options.verbose,
       logger,
+      client,
+      toolTopK: options.toolTopK,
     });
 
     if (options.verbose) {
       console.error(
-        `[summary] strategy=${result.usedStrategy} model=${result.usedModel} attempts=${result.attempts} durationMs=${result.durationMs} toolCalls=${result.toolCalls.length}`,
+        `[summary] strategy=${result.usedStrategy} model=${result.usedModel} attempts=${result.attempts} durationMs=${result.durationMs} toolCalls=${result.toolCalls.length} totalTokens=${result.usage.totalTokens}`,
       );
     }
 
+    logInjectedFaults(client, logger);
     console.log(JSON.stringify(result, null, 2));
     return;
   }
 
+  const resumeRecords = options.resumePath ? readCheckpoint(options.resumePath) : undefined;
+  // Resuming keeps appending to the same checkpoint so it stays a complete record.
+  const checkpointPath =
+    options.checkpointPath ?? options.resumePath ?? createLogPath("benchmark", "jsonl");
+  console.error(`[checkpoint] ${checkpointPath}`);
+
+  // First Ctrl+C stops the benchmark and still prints the finished runs; a second one exits.
+  const controller = new AbortController();
+  process.once("SIGINT", () => {
+    console.error("[cancel] stopping benchmark; press Ctrl+C again to exit immediately");
+    controller.abort();
+  });
+
   const benchmarkResult = await runBenchmark({
     models: options.models,
     strategies: options.strategies,
     presets: options.presets,
     iterations: options.iterations,
+    concurrency: options.concurrency,
+    modelConcurrency: options.modelConcurrency,
     maxRetries: options.maxRetries,
     logs: options.logs,
     verbose: options.verbose,
@@ -127,60 +243,289 @@ async function main(): Promise<void> {
       includeThoughts: options.includeThoughts,
       reasoningEffort: options.reasoningEffort,
     },
-    routerMaxTurns: options.routerMaxTurns,
-    hybridMaxTurns: options.hybridMaxTurns,
+    strategyOptions: options.strategyOptions,
     logger,
+    client,
+    checkpointPath,
+    resumeRecords,
+    priceTable: options.priceTable,
+    signal: controller.signal,
+    toolTopK: options.toolTopK,
   });
 
+  logInjectedFaults(client, logger);
+
   if (options.verbose) {
     console.error(
-      "strategy\tmodel\tsuccessRate\tavgMs\tp95Ms\tavgToolCalls\tavgRepaired\trepairRate\ttoolUseRate\tavgAttempts",
+      "strategy\tmodel\tsuccessRate\tsuccess95\tcorrectness\tavgMs\tp95Ms\tavgToolCalls\tavgRepaired\trepairRate\ttoolUseRate\tavgAttempts\tavgTokens\ttokensPerSuccess\tcostPerCorrect\tllmMs(intent/fill/repair/finalize/fallback)",
     );
     for (const row of benchmarkResult.aggregates) {
       console.error(
-        `${row.strategy}\t${row.model}\t${(row.successRate * 100).toFixed(1)}%\t${row.avgDurationMs}\t${row.p95DurationMs}\t${row.avgToolCalls}\t${row.avgRepairedCalls}\t${(row.repairRate * 100).toFixed(1)}%\t${(row.toolUseRate * 100).toFixed(1)}%\t${row.avgAttempts}`,
+        `${strategyLabel(row.strategy, row.toolTopK)}\t${row.model}\t${(row.successRate * 100).toFixed(1)}%\t${formatPct(row.successRateCi.low)}-${formatPct(row.successRateCi.high)}\t${formatCorrectness(row)}\t${row.avgDurationMs}\t${row.p95DurationMs}\t${row.avgToolCalls}\t${row.avgRepairedCalls}\t${(row.repairRate * 100).toFixed(1)}%\t${(row.toolUseRate * 100).toFixed(1)}%\t${row.avgAttempts}\t${row.avgTotalTokens}\t${row.tokensPerSuccess ?? "n/a"}\t${formatUsd(row.costPerCorrectUsd)}\t${formatLlmLatency(row)}`,
       );
     }
-    console.error("model\tstrategy\tdeltaSuccessPct\tdeltaMs\tdeltaToolCalls");
+    for (const row of benchmarkResult.aggregates) {
+      const failures = formatFailureCategories(row.failureCategories);
+      if (failures) {
+        console.error(`[failures] ${row.strategy} ${row.model} ${failures}`);
+      }
+      if (row.retrievalRecall !== undefined) {
+        console.error(
+          `[retrieval] ${strategyLabel(row.strategy, row.toolTopK)} ${row.model} recall=${formatPct(row.retrievalRecall)} widenings=${row.avgRetrievalWidenings ?? 0}`,
+        );
+      }
+      if (row.avgRepairRounds !== undefined) {
+        console.error(`[repair-rounds] ${row.strategy} ${row.model} avg=${row.avgRepairRounds}`);
+      }
+      if (row.toolErrorRecoveryRate !== undefined) {
+        console.error(
+          `[tool-errors] ${row.strategy} ${row.model} avg=${row.avgToolErrors} recovered=${formatPct(row.toolErrorRecoveryRate)}`,
+        );
+      }
+    }
+    console.error("model\tstrategy\tdeltaSuccessPct\tp\tdeltaMs\tdeltaToolCalls");
     for (const row of benchmarkResult.comparisons) {
       console.error(
-        `${row.model}\t${row.strategy}\t-${row.deltaSuccessRate}\t+${row.deltaDurationMs}\t${row.deltaToolCalls >= 0 ? "+" : ""}${row.deltaToolCalls}`,
+        `${row.model}\t${strategyLabel(row.strategy, row.toolTopK)}\t-${row.deltaSuccessRate}\t${row.successPValue}\t+${row.deltaDurationMs}\t${row.deltaToolCalls >= 0 ? "+" : ""}${row.deltaToolCalls}`,
       );
     }
+    for (const line of describeSignificantPairs(benchmarkResult.pairwise)) {
+      console.error(`[significance] ${line}`);
+    }
   }
 
-  console.log(JSON.stringify(benchmarkResult, null, 2));
+  const report = options.report
+    ? renderBenchmarkReport(benchmarkResult, options.report)
+    : undefined;
+  if (report && options.reportOut) {
+    mkdirSync(dirname(options.reportOut), { recursive: true });
+    writeFileSync(options.reportOut, report, "utf8");
+    console.error(`[report] format=${options.report} path=${options.reportOut}`);
+  }
+  if (report && !options.reportOut) {
+    process.stdout.write(report);
+  } else {
+    console.log(JSON.stringify(benchmarkResult, null, 2));
+  }
+
+  if (options.compareTo) {
+    const regression = compareBenchmarkResults(
+      readBenchmarkResultFile(options.compareTo),
+      benchmarkResult,
+      options.regressionThresholds,
+    );
+    logRegressionReport(regression);
+    if (!regression.passed) {
+      process.exitCode = 1;
+    }
+  }
+}
+
+/** Reads one prompt per line; `/reset` clears the history, `/exit` or EOF ends the session. */
+async function runChatRepl(
+  options: ChatOptions,
+  client: ModelClient | undefined,
+  logger: ((line: string) => void) | undefined,
+): Promise<void> {
+  const session = new ChatSession({
+    strategy: options.strategy,
+    model: options.model,
+    strategyOptions: options.strategyOptions,
+    generationSettings: {
+      thinking: options.thinking,
+      includeThoughts: options.includeThoughts,
+      reasoningEffort: options.reasoningEffort,
+    },
+    maxRetries: options.maxRetries,
+    logs: options.logs,
+    verbose: options.verbose,
+    logger,
+    client,
+    toolTopK: options.toolTopK,
+  });
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  // Ctrl+C cancels the turn in flight; at the prompt it ends the session.
+  let turn: AbortController | undefined;
+  rl.on("SIGINT", () => {
+    if (turn) {
+      turn.abort();
+    } else {
+      rl.close();
+    }
+  });
+
+  console.log(
+    `Chatting with ${options.strategy} on ${options.model}. /reset clears history, /exit quits.`,
+  );
+  rl.setPrompt("you> ");
+  rl.prompt();
+  for await (const raw of rl) {
+    const line = raw.trim();
+    if (line === "/exit") {
+      break;
+    }
+    if (line === "/reset") {
+      session.reset();
+      console.log("[chat] history cleared");
+    } else if (line.length > 0) {
+      turn = new AbortController();
+      try {
+        const result = await session.send(line, { signal: turn.signal });
+        for (const call of result.toolCalls) {
+          console.log(`  [tool] ${describeToolCall(call)}`);
+        }
+        console.log(`assistant> ${result.finalText}`);
+      } catch (error) {
+        const message = turn.signal.aborted
+          ? "turn cancelled"
+          : error instanceof Error
+            ? error.message
+            : String(error);
+        console.error(`[error] ${message}`);
+      } finally {
+        turn = undefined;
+      }
+    }
+    rl.prompt();
+  }
+  rl.close();
+
+  if (options.verbose) {
+    console.error(
+      `[summary] strategy=${options.strategy} model=${options.model} turns=${session.turns().length} totalTokens=${session.usage().totalTokens}`,
+    );
+  }
 }
 
-function parseArgs(args: string[], defaultModel: string): CliOptions {
+function logRegressionReport(report: BenchmarkRegressionReport): void {
+  for (const row of report.regressions) {
+    const target = [row.model, strategyLabel(row.strategy, row.toolTopK), row.presetId ?? "*"].join("/");
+    const details = row.regressions.map((kind) => {
+      if (kind === "latency") {
+        return `latency ${row.baselineAvgDurationMs}ms -> ${row.candidateAvgDurationMs}ms`;
+      }
+      const rate = kind === "success" ? row.success : row.correctness;
+      return rate
+        ? `${kind} ${formatPct(rate.baselineRate)} -> ${formatPct(rate.candidateRate)} (p=${rate.pValue})`
+        : kind;
+    });
+    console.error(`[compare] regression ${target}: ${details.join(", ")}`);
+  }
+  console.error(
+    `[compare] passed=${report.passed} cells=${report.cells.length} regressions=${report.regressions.length} missing=${report.missingInCandidate.length} new=${report.newInCandidate.length}`,
+  );
+}
+
+function formatPct(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+async function createCliModelClient(
+  options: CommonCliSettings,
+): Promise<ModelClient | undefined> {
+  const base = await createBaseModelClient(options);
+  if (!options.faults) {
+    return base;
+  }
+
+  // Faults wrap the recorder so cassettes keep clean model output.
+  const inner = base ?? new GoogleModelClient(await resolveApiKeyFromEnv());
+  return new FaultInjectingModelClient(inner, {
+    profile: options.faults,
+    seed: options.faultSeed,
+  });
+}
+
+async function createBaseModelClient(
+  options: CommonCliSettings,
+): Promise<ModelClient | undefined> {
+  if (options.replayDir) {
+    return ReplayModelClient.fromDir(options.replayDir);
+  }
+  if (options.recordDir) {
+    const inner = new GoogleModelClient(await resolveApiKeyFromEnv());
+    return new RecordingModelClient(inner, options.recordDir);
+  }
+  return undefined;
+}
+
+function logInjectedFaults(
+  client: ModelClient | undefined,
+  logger: ((line: string) => void) | undefined,
+): void {
+  if (!logger || !(client instanceof FaultInjectingModelClient)) {
+    return;
+  }
+  logger(`[faults] injected=${JSON.stringify(client.injectedCounts())}`);
+}
+
+function formatCorrectness(row: BenchmarkAggregate): string {
+  if (row.scoredRuns === 0) {
+    return "n/a";
+  }
+  return `${(row.correctnessRate * 100).toFixed(1)}%`;
+}
+
+function formatLlmLatency(row: BenchmarkAggregate): string {
+  const { intent, fill, repair, finalize, fallback } = row.avgLlmLatencyMs;
+  return `${intent}/${fill}/${repair}/${finalize}/${fallback}`;
+}
+
+function formatUsd(value: number | undefined): string {
+  return value === undefined ? "n/a" : `$${value.toFixed(6)}`;
+}
+
+function parseArgs(
+  args: string[],
+  defaultModel: string,
+  presets: PromptPreset[],
+): CliOptions {
   const shared = parseCommonSettings(args, defaultModel);
   const benchmarkMode = args.includes("--benchmark");
 
   if (benchmarkMode) {
     const models = parseModelListFlag(args, shared.model);
     const strategies = parseStrategyListFlag(args);
-    const presets = parsePresetListFlag(args);
+    const selectedPresets = parsePresetListFlag(args, presets);
     const iterations = parseIntFlag(args, "--iterations=", 1);
+    const concurrency = parseIntFlag(args, "--concurrency=", 1);
+    const modelConcurrency = parseModelConcurrencyFlag(args);
+    const pricesPath = parseStringFlag(args, "--prices=");
 
     return {
       mode: "benchmark",
       ...shared,
       models,
       strategies,
-      presets,
+      presets: selectedPresets,
       iterations,
+      concurrency,
+      modelConcurrency,
+      checkpointPath: parseStringFlag(args, "--checkpoint="),
+      resumePath: parseStringFlag(args, "--resume="),
+      ...parseReportFlags(args),
+      compareTo: parseStringFlag(args, "--compare-to="),
+      regressionThresholds: parseRegressionThresholds(args),
+      priceTable: pricesPath ? loadPriceTable(pricesPath) : undefined,
+      toolTopK: parseIntListFlag(args, "--tool-top-k="),
     };
   }
 
-  const strategy = args[0] as Strategy | undefined;
-  if (!strategy || !STRATEGIES.includes(strategy)) {
+  const chatMode = args[0] === "chat";
+  const strategy = chatMode ? args[1] : args[0];
+  if (!strategy || !defaultStrategyRegistry.has(strategy)) {
     const provided = strategy ? `'${strategy}'` : "none";
     throw new Error(
-      `Invalid or missing strategy (${provided}). Expected one of: ${STRATEGIES.join(", ")}.\n\n${usageMessage()}`,
+      `Invalid or missing strategy (${provided}). Expected one of: ${defaultStrategyRegistry.ids().join(", ")}.\n\n${usageMessage()}`,
     );
   }
 
-  const prompt = resolvePromptFromArgs(args.slice(1));
+  const toolTopK = parseOptionalIntFlag(args, "--tool-top-k=");
+  if (chatMode) {
+    return { mode: "chat", ...shared, strategy, toolTopK };
+  }
+
+  const prompt = resolvePromptFromArgs(args.slice(1), presets);
   if (prompt.length === 0) {
     throw new Error("Prompt is required. Provide a quoted prompt or use --preset=<preset-id>.\n\n" + usageMessage());
   }
@@ -190,6 +535,7 @@ function parseArgs(args: string[], defaultModel: string): CliOptions {
     ...shared,
     strategy,
     prompt,
+    toolTopK,
   };
 }
 
@@ -203,31 +549,39 @@ function parseCommonSettings(args: string[], defaultModel: string): CommonCliSet
   }
 
   const model = normalizeRunnableModel(selectedModel ?? defaultModel) ?? MODEL_CATALOG_FALLBACK;
-  const repairModel = parseStringFlag(args, "--repair-model=");
-  const routerMaxTurns = parseOptionalIntFlag(args, "--router-max-turns=");
-  const hybridMaxTurns = parseOptionalIntFlag(args, "--hybrid-max-turns=");
+  const strategyOptions = parseStrategyOptionFlags(args);
   const maxRetries = parseIntFlag(args, "--max-retries=", 0);
   const logs = args.includes("--logs");
   const verbose = args.includes("--verbose");
   const includeThoughts = parseBoolFlag(args, "--include-thoughts=", defaults.includeThoughts);
   const thinking = parseBoolFlag(args, "--thinking=", defaults.thinking);
   const reasoningEffort = parseReasoningEffort(args) ?? defaults.reasoningEffort;
+  const recordDir = parseStringFlag(args, "--record=");
+  const replayDir = parseStringFlag(args, "--replay=");
+  if (recordDir && replayDir) {
+    throw new Error("--record and --replay cannot be used together.");
+  }
+  const rawFaults = parseStringFlag(args, "--faults=");
+  const faults = rawFaults ? parseFaultProfile(rawFaults) : undefined;
+  const faultSeed = parseIntFlag(args, "--fault-seed=", 1);
 
   return {
     model,
-    repairModel,
-    routerMaxTurns,
-    hybridMaxTurns,
+    strategyOptions,
     maxRetries,
     logs,
     verbose,
     thinking,
     includeThoughts,
     reasoningEffort,
+    recordDir,
+    replayDir,
+    faults,
+    faultSeed,
   };
 }
 
-function resolvePromptFromArgs(args: string[]): string {
+function resolvePromptFromArgs(args: string[], presets: PromptPreset[]): string {
   const promptParts: string[] = [];
 
   for (const token of args) {
@@ -237,7 +591,7 @@ function resolvePromptFromArgs(args: string[]): string {
     if (token.startsWith("--")) {
       if (token.startsWith("--preset=")) {
         const id = token.slice("--preset=".length);
-        const preset = PROMPT_PRESETS.find((item) => item.id === id);
+        const preset = presets.find((item) => item.id === id);
         if (!preset) {
           throw new Error(`Unknown preset '${id}'. Use --list-presets.`);
         }
@@ -274,28 +628,91 @@ function parseModelListFlag(args: string[], fallback: string): string[] {
 }
 
 function parseStrategyListFlag(args: string[]): Strategy[] {
+  const all = defaultStrategyRegistry.ids();
   const raw = parseStringFlag(args, "--benchmark-strategies=");
   if (!raw || raw === "all") {
-    return [...STRATEGIES];
+    return all;
   }
 
-  const values = raw
+  const values = splitList(raw).filter((item) => defaultStrategyRegistry.has(item));
+
+  return values.length > 0 ? values : all;
+}
+
+function splitList(raw: string): string[] {
+  return raw
     .split(",")
     .map((item) => item.trim())
-    .filter((item): item is Strategy => STRATEGIES.includes(item as Strategy));
+    .filter((item) => item.length > 0);
+}
+
+// Accepts one cap for every model (`2`) or per-model caps (`gemini-2.5-flash:1,gemini-3-flash-preview:3`).
+function parseModelConcurrencyFlag(
+  args: string[],
+): number | Record<string, number> | undefined {
+  const raw = parseStringFlag(args, "--model-concurrency=");
+  if (!raw) {
+    return undefined;
+  }
+  if (!raw.includes(":")) {
+    return parseOptionalIntFlag(args, "--model-concurrency=");
+  }
+
+  const limits: Record<string, number> = {};
+  for (const entry of splitList(raw)) {
+    const separator = entry.lastIndexOf(":");
+    const model = entry.slice(0, separator).trim();
+    const limit = Number(entry.slice(separator + 1));
+    if (!model || !Number.isInteger(limit) || limit <= 0) {
+      throw new Error(`Invalid --model-concurrency entry '${entry}'. Expected <model>:<n>.`);
+    }
+    limits[model] = limit;
+  }
+  return limits;
+}
+
+function parseReportFlags(args: string[]): Pick<BenchmarkOptions, "report" | "reportOut"> {
+  const format = parseStringFlag(args, "--report=");
+  const reportOut = parseStringFlag(args, "--report-out=");
+  if (!format) {
+    if (reportOut) {
+      throw new Error("--report-out requires --report=<csv|md|html|junit>.");
+    }
+    return {};
+  }
+  return { report: parseReportFormat(format), reportOut };
+}
 
-  return values.length > 0 ? values : [...STRATEGIES];
+function parseRegressionThresholds(args: string[]): RegressionThresholds {
+  return {
+    maxSuccessDrop: parseFractionFlag(args, "--max-success-drop="),
+    maxCorrectnessDrop: parseFractionFlag(args, "--max-correctness-drop="),
+    maxLatencyIncrease: parseFractionFlag(args, "--max-latency-increase="),
+    significance: parseFractionFlag(args, "--significance="),
+  };
+}
+
+function parseFractionFlag(args: string[], prefix: string): number | undefined {
+  const token = parseStringFlag(args, prefix);
+  if (token === undefined) {
+    return undefined;
+  }
+  const value = Number(token);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${prefix}<n> expects a non-negative number, got '${token}'.`);
+  }
+  return value;
 }
 
-function parsePresetListFlag(args: string[]): PromptPreset[] {
+function parsePresetListFlag(args: string[], presets: PromptPreset[]): PromptPreset[] {
   const raw = parseStringFlag(args, "--benchmark-presets=");
   if (!raw || raw === "all") {
-    return [...PROMPT_PRESETS];
+    return [...presets];
   }
 
   const ids = new Set(raw.split(",").map((item) => item.trim()));
-  const selected = PROMPT_PRESETS.filter((preset) => ids.has(preset.id));
-  return selected.length > 0 ? selected : [...PROMPT_PRESETS];
+  const selected = presets.filter((preset) => ids.has(preset.id));
+  return selected.length > 0 ? selected : [...presets];
 }
 
 function parseStringFlag(args: string[], prefix: string): string | undefined {
@@ -318,6 +735,20 @@ function parseOptionalIntFlag(args: string[], prefix: string): number | undefine
   return Math.floor(value);
 }
 
+function parseIntListFlag(args: string[], prefix: string): number[] | undefined {
+  const raw = parseStringFlag(args, prefix);
+  if (!raw) {
+    return undefined;
+  }
+  return splitList(raw).map((entry) => {
+    const value = Number(entry);
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new Error(`Invalid ${prefix.slice(0, -1)} entry '${entry}'. Expected positive integers.`);
+    }
+    return value;
+  });
+}
+
 function parseIntFlag(args: string[], prefix: string, defaultValue: number): number {
   const value = parseOptionalIntFlag(args, prefix);
   return value ?? defaultValue;
@@ -362,39 +793,73 @@ function usageMessage(): string {
     "Gemini Tool-Call Reliability Playground CLI",
     "",
     "Usage (single run):",
-    "bun run index.ts <structured-json|single-tool-router|hybrid-repair> \"<prompt>\" [flags]",
+    `bun run index.ts <${defaultStrategyRegistry.ids().join("|")}> "<prompt>" [flags]`,
     "",
     "Usage (benchmark):",
     "bun run index.ts --benchmark [flags]",
     "",
+    "Usage (chat):",
+    `bun run index.ts chat <${defaultStrategyRegistry.ids().join("|")}> [flags]`,
+    "",
     "Global flags:",
     "-h, --help",
     "--list-presets",
     "--list-models",
+    "--strategy-modules=<path1,path2,...>       Load private strategies (export registerStrategies)",
+    "--presets-file=<path1,path2,...>           Load extra presets from JSON/YAML files",
+    "--presets-dir=<dir1,dir2,...>              Load extra presets from every JSON/YAML file in a directory",
+    "",
+    "Strategies:",
+    ...defaultStrategyRegistry
+      .list()
+      .map((definition) => `${definition.id.padEnd(43)}${definition.description}`),
     "",
     "Core flags:",
     "--model=<id>                               Override resolved default model",
-    "--repair-model=<id>                        Hybrid repair model override",
-    "--preset=<preset-id>                       Use bundled prompt preset as prompt",
+    "--preset=<preset-id>                       Use a bundled or loaded prompt preset as prompt",
     "--thinking=<true|false>                    Generation thinking toggle",
     "--reasoning-effort=<minimal|low|medium|high>",
     "--include-thoughts=<true|false>            Include model thoughts when supported",
     "--max-retries=<n>                          Retry count for recoverable failures",
     "--logs",
     "--verbose",
-    "--router-max-turns=<n>                     single-tool-router max loop turns",
-    "--hybrid-max-turns=<n>                     hybrid-repair max loop turns",
+    "--record=<dir>                             Record model requests/responses to <dir>/cassette.jsonl",
+    "--replay=<dir>                             Replay recorded responses offline (no API calls)",
+    "--faults=<kind:rate,...>                   Inject seeded response faults (e.g. truncate:0.2,alias-keys:0.1)",
+    "--fault-seed=<n>                           Seed for --faults (default 1)",
+    "--tool-top-k=<n>                           Expose only the n tools most relevant to the prompt",
+    "",
+    "Strategy flags:",
+    ...strategyFlagUsageLines(),
     "",
     "Benchmark flags:",
     "--iterations=<n>                           Runs per preset/strategy/model",
     "--models=<id1,id2,...>                     Comma-separated model ids",
     "--benchmark-strategies=<all|comma list>",
     "--benchmark-presets=<all|comma list>",
+    "--concurrency=<n>                          Runs in flight at once (default 1)",
+    "--model-concurrency=<n|model:n,...>        Per-model in-flight cap",
+    "--checkpoint=<file>                        Append each finished run to this JSONL file (default logs/benchmark-*.jsonl)",
+    "--resume=<file>                            Skip runs already in a checkpoint and keep appending to it",
+    "--report=<csv|md|html|junit>               Render a report (printed instead of JSON unless --report-out is set)",
+    "--report-out=<path>                        Write the report to a file",
+    "--prices=<file.json>                       Per-model USD prices per million tokens, for cost estimates",
+    "--tool-top-k=<n1,n2,...>                   Sweep tool retrieval: run every cell once per k",
+    "",
+    "Regression flags:",
+    "--compare-to=<baseline.json|.jsonl>        Compare this run against a baseline; exit 1 on regression",
+    "--candidate=<result.json|.jsonl>           With --compare-to, compare two saved runs without calling the API",
+    "--max-success-drop=<fraction>              Tolerated success-rate drop (default 0.05)",
+    "--max-correctness-drop=<fraction>          Tolerated correctness-rate drop (default 0.05)",
+    "--max-latency-increase=<fraction>          Tolerated avg latency increase, e.g. 0.25 (off by default)",
+    "--significance=<alpha>                     p-value below which a drop counts (default 0.05)",
     "",
     "Examples:",
     "bun run index.ts single-tool-router \"Add 4 and 7\"",
     "bun run index.ts hybrid-repair --preset=sum-and-uppercase --verbose",
     "bun run index.ts --benchmark --iterations=2 --benchmark-strategies=all --benchmark-presets=all",
+    "bun run index.ts --benchmark --replay=cassettes/nightly",
+    "bun run index.ts chat hybrid-repair --model=gemini-2.5-flash",
     "",
     "Notes:",
     "- Env resolution priority: .env.local, then process env",
@@ -402,6 +867,24 @@ function usageMessage(): string {
   ].join("\n");
 }
 
+function strategyFlagUsageLines(): string[] {
+  const lines = new Map<string, string>();
+  for (const definition of defaultStrategyRegistry.list()) {
+    for (const option of definition.options) {
+      if (!option.cliFlag || lines.has(option.cliFlag)) {
+        continue;
+      }
+      const placeholder =
+        option.type === "integer" ? "=<n>" : option.type === "string" ? "=<value>" : "";
+      lines.set(
+        option.cliFlag,
+        `${`--${option.cliFlag}${placeholder}`.padEnd(43)}${option.description}`,
+      );
+    }
+  }
+  return [...lines.values()];
+}
+
 main().catch((error: unknown) => {
   const message = error instanceof Error ? error.message : String(error);
   console.error(message);
@@ -0,0 +1,83 @@
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  statSync,
+} from "node:fs";
+import { dirname } from "node:path";
+
+import type { BenchmarkRunRecord } from "./benchmark";
+
+export type BenchmarkCell = Pick<
+  BenchmarkRunRecord,
+  "model" | "strategy" | "presetId" | "iteration" | "toolTopK"
+>;
+
+export function benchmarkCellKey(cell: BenchmarkCell): string {
+  // k joins the key only when set, so checkpoints from before the sweep still resume.
+  const key: unknown[] = [cell.model, cell.strategy, cell.presetId, cell.iteration];
+  if (cell.toolTopK !== undefined) {
+    key.push(cell.toolTopK);
+  }
+  return JSON.stringify(key);
+}
+
+export function appendCheckpointRecord(path: string, record: BenchmarkRunRecord): void {
+  mkdirSync(dirname(path), { recursive: true });
+  // Start on a fresh line if a previous run died mid-write, so resumed files stay parseable.
+  const prefix = endsWithPartialLine(path) ? "\n" : "";
+  appendFileSync(path, `${prefix}${JSON.stringify(record)}\n`, "utf8");
+}
+
+/**
+ * Read records from a checkpoint file. Lines torn by a crash mid-write are skipped;
+ * later records for the same cell replace earlier ones.
+ */
+export function readCheckpoint(path: string): BenchmarkRunRecord[] {
+  if (!existsSync(path)) {
+    throw new Error(`Checkpoint not found: ${path}`);
+  }
+
+  const records = new Map<string, BenchmarkRunRecord>();
+  for (const line of readFileSync(path, "utf8").split(/\r?\n/)) {
+    const record = parseCheckpointLine(line);
+    if (record) {
+      records.set(benchmarkCellKey(record), record);
+    }
+  }
+
+  return [...records.values()];
+}
+
+function parseCheckpointLine(line: string): BenchmarkRunRecord | null {
+  if (line.trim().length === 0) {
+    return null;
+  }
+  try {
+    return JSON.parse(line) as BenchmarkRunRecord;
+  } catch {
+    return null;
+  }
+}
+
+function endsWithPartialLine(path: string): boolean {
+  if (!existsSync(path)) {
+    return false;
+  }
+  const size = statSync(path).size;
+  if (size === 0) {
+    return false;
+  }
+  const fd = openSync(path, "r");
+  try {
+    const last = Buffer.alloc(1);
+    readSync(fd, last, 0, 1, size - 1);
+    return last.toString("utf8") !== "\n";
+  } finally {
+    closeSync(fd);
+  }
+}
@@ -0,0 +1,258 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+
+import {
+  buildAggregates,
+  buildComparisons,
+  buildPairwiseComparisons,
+  strategyLabel,
+  type BenchmarkResult,
+  type BenchmarkRunRecord,
+} from "./benchmark";
+import { readCheckpoint } from "./benchmark-checkpoint";
+import { twoProportionZTest } from "./core/stats";
+
+export interface RegressionThresholds {
+  /** Largest tolerated drop in success rate (0..1). Default 0.05. */
+  maxSuccessDrop?: number;
+  /** Largest tolerated drop in correctness rate (0..1). Default 0.05. */
+  maxCorrectnessDrop?: number;
+  /** Largest tolerated relative increase in average latency, e.g. 0.25 for +25%. Off by default. */
+  maxLatencyIncrease?: number;
+  /** Rate drops only count as regressions when the z-test p-value is below this. Default 0.05. */
+  significance?: number;
+}
+
+export interface ResolvedRegressionThresholds {
+  maxSuccessDrop: number;
+  maxCorrectnessDrop: number;
+  maxLatencyIncrease?: number;
+  significance: number;
+}
+
+export type RegressionKind = "success" | "correctness" | "latency";
+
+export interface RateDelta {
+  baselineRate: number;
+  candidateRate: number;
+  delta: number;
+  pValue: number;
+}
+
+export interface BenchmarkCellComparison {
+  model: string;
+  strategy: string;
+  toolTopK?: number;
+  /** Undefined for the per-strategy rollup over all shared presets. */
+  presetId?: string;
+  baselineRuns: number;
+  candidateRuns: number;
+  success: RateDelta;
+  correctness?: RateDelta;
+  baselineAvgDurationMs: number;
+  candidateAvgDurationMs: number;
+  deltaDurationMs: number;
+  regressions: RegressionKind[];
+}
+
+export interface BenchmarkRegressionReport {
+  thresholds: ResolvedRegressionThresholds;
+  cells: BenchmarkCellComparison[];
+  strategies: BenchmarkCellComparison[];
+  /** Cell keys (`model/strategy/preset`) present in only one of the runs; they are not compared. */
+  missingInCandidate: string[];
+  newInCandidate: string[];
+  regressions: BenchmarkCellComparison[];
+  passed: boolean;
+}
+
+export function compareBenchmarkResults(
+  baseline: BenchmarkResult,
+  candidate: BenchmarkResult,
+  thresholds: RegressionThresholds = {},
+): BenchmarkRegressionReport {
+  const resolved: ResolvedRegressionThresholds = {
+    maxSuccessDrop: thresholds.maxSuccessDrop ?? 0.05,
+    maxCorrectnessDrop: thresholds.maxCorrectnessDrop ?? 0.05,
+    maxLatencyIncrease: thresholds.maxLatencyIncrease,
+    significance: thresholds.significance ?? 0.05,
+  };
+
+  const baselineCells = groupRecords(baseline.records, cellKey);
+  const candidateCells = groupRecords(candidate.records, cellKey);
+  const sharedKeys = [...baselineCells.keys()].filter((key) => candidateCells.has(key));
+  const shared = new Set(sharedKeys);
+
+  const cells = sharedKeys.map((key) =>
+    compareRecords(baselineCells.get(key) ?? [], candidateCells.get(key) ?? [], resolved, true),
+  );
+
+  // Roll up per model/strategy over shared presets only, so added or removed presets don't skew it.
+  const baselineStrategies = groupRecords(
+    baseline.records.filter((record) => shared.has(cellKey(record))),
+    strategyKey,
+  );
+  const candidateStrategies = groupRecords(
+    candidate.records.filter((record) => shared.has(cellKey(record))),
+    strategyKey,
+  );
+  const strategies = [...baselineStrategies.keys()].map((key) =>
+    compareRecords(
+      baselineStrategies.get(key) ?? [],
+      candidateStrategies.get(key) ?? [],
+      resolved,
+      false,
+    ),
+  );
+
+  const regressions = [...strategies, ...cells].filter((row) => row.regressions.length > 0);
+  return {
+    thresholds: resolved,
+    cells,
+    strategies,
+    missingInCandidate: [...baselineCells.keys()].filter((key) => !candidateCells.has(key)),
+    newInCandidate: [...candidateCells.keys()].filter((key) => !baselineCells.has(key)),
+    regressions,
+    passed: regressions.length === 0,
+  };
+}
+
+/** Load a benchmark result from its JSON output or from a JSONL checkpoint. */
+export function readBenchmarkResultFile(path: string): BenchmarkResult {
+  if (extname(path).toLowerCase() === ".jsonl") {
+    const records = readCheckpoint(path);
+    const aggregates = buildAggregates(records);
+    return {
+      startedAt: "",
+      finishedAt: "",
+      totalRuns: records.length,
+      records,
+      aggregates,
+      comparisons: buildComparisons(aggregates),
+      pairwise: buildPairwiseComparisons(records),
+    };
+  }
+
+  const parsed = JSON.parse(readFileSync(path, "utf8")) as Partial<BenchmarkResult>;
+  if (!Array.isArray(parsed.records)) {
+    throw new Error(`Not a benchmark result (missing records): ${path}`);
+  }
+  // Results saved before pairwise tests existed get them recomputed from their records.
+  return {
+    ...(parsed as BenchmarkResult),
+    pairwise: parsed.pairwise ?? buildPairwiseComparisons(parsed.records),
+  };
+}
+
+function compareRecords(
+  baseline: BenchmarkRunRecord[],
+  candidate: BenchmarkRunRecord[],
+  thresholds: ResolvedRegressionThresholds,
+  includePreset: boolean,
+): BenchmarkCellComparison {
+  const first = baseline[0] ?? candidate[0];
+  const success = rateDelta(
+    baseline.filter((record) => record.success).length,
+    baseline.length,
+    candidate.filter((record) => record.success).length,
+    candidate.length,
+  );
+
+  const baselineScored = baseline.filter((record) => record.correct !== undefined);
+  const candidateScored = candidate.filter((record) => record.correct !== undefined);
+  const correctness =
+    baselineScored.length > 0 && candidateScored.length > 0
+      ? rateDelta(
+          baselineScored.filter((record) => record.correct).length,
+          baselineScored.length,
+          candidateScored.filter((record) => record.correct).length,
+          candidateScored.length,
+        )
+      : undefined;
+
+  const baselineAvgDurationMs = averageDuration(baseline);
+  const candidateAvgDurationMs = averageDuration(candidate);
+
+  const regressions: RegressionKind[] = [];
+  if (isSignificantDrop(success, thresholds.maxSuccessDrop, thresholds.significance)) {
+    regressions.push("success");
+  }
+  if (
+    correctness &&
+    isSignificantDrop(correctness, thresholds.maxCorrectnessDrop, thresholds.significance)
+  ) {
+    regressions.push("correctness");
+  }
+  if (
+    thresholds.maxLatencyIncrease !== undefined &&
+    baselineAvgDurationMs > 0 &&
+    candidateAvgDurationMs > baselineAvgDurationMs * (1 + thresholds.maxLatencyIncrease)
+  ) {
+    regressions.push("latency");
+  }
+
+  return {
+    model: first?.model ?? "unknown-model",
+    strategy: first?.strategy ?? "unknown-strategy",
+    ...(first?.toolTopK !== undefined ? { toolTopK: first.toolTopK } : {}),
+    ...(includePreset ? { presetId: first?.presetId } : {}),
+    baselineRuns: baseline.length,
+    candidateRuns: candidate.length,
+    success,
+    ...(correctness ? { correctness } : {}),
+    baselineAvgDurationMs,
+    candidateAvgDurationMs,
+    deltaDurationMs: candidateAvgDurationMs - baselineAvgDurationMs,
+    regressions,
+  };
+}
+
+function rateDelta(
+  baselineHits: number,
+  baselineTotal: number,
+  candidateHits: number,
+  candidateTotal: number,
+): RateDelta {
+  const test = twoProportionZTest(baselineHits, baselineTotal, candidateHits, candidateTotal);
+  return {
+    baselineRate: baselineTotal > 0 ? baselineHits / baselineTotal : 0,
+    candidateRate: candidateTotal > 0 ? candidateHits / candidateTotal : 0,
+    delta: round4(test.delta),
+    pValue: round4(test.pValue),
+  };
+}
+
+function isSignificantDrop(rate: RateDelta, maxDrop: number, significance: number): boolean {
+  return -rate.delta > maxDrop && rate.pValue < significance;
+}
+
+function groupRecords(
+  records: BenchmarkRunRecord[],
+  keyOf: (record: BenchmarkRunRecord) => string,
+): Map<string, BenchmarkRunRecord[]> {
+  const groups = new Map<string, BenchmarkRunRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+  return groups;
+}
+
+function cellKey(record: BenchmarkRunRecord): string {
+  return `${strategyKey(record)}/${record.presetId}`;
+}
+
+function strategyKey(record: BenchmarkRunRecord): string {
+  return `${record.model}/${strategyLabel(record.strategy, record.toolTopK)}`;
+}
+
+function averageDuration(records: BenchmarkRunRecord[]): number {
+  if (records.length === 0) {
+    return 0;
+  }
+  return Math.round(records.reduce((acc, record) => acc + record.durationMs, 0) / records.length);
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
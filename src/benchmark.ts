@@ -1,19 +1,64 @@
+import {
+  appendCheckpointRecord,
+  benchmarkCellKey,
+  type BenchmarkCell,
+} from "./benchmark-checkpoint";
+import type { ModelClient, TokenUsage, ToolCallRecord } from "./contracts";
+import {
+  bootstrapInterval,
+  twoProportionZTest,
+  wilsonInterval,
+  type ConfidenceInterval,
+} from "./core/stats";
+import { retrieveTools } from "./core/tool-retrieval";
+import { LLM_CALL_PURPOSES, type LlmCallPurpose } from "./core/trace";
+import { addUsage, emptyUsage } from "./core/usage";
+import { runWorkerPool } from "./core/worker-pool";
+import { createDemoToolRegistry } from "./demo-tools";
+import { classifyError, FAILURE_CATEGORIES, type FailureCategory } from "./errors";
+import { evaluateExpectations, hasExpectations } from "./expectations";
 import type { GenerationSettings } from "./generation-settings";
+import { estimateCostUsd, priceForModel, type PriceTable } from "./pricing";
 import { PROMPT_PRESETS, type PromptPreset } from "./prompt-presets";
-import { STRATEGIES, runStrategy, type Strategy } from "./strategy-runner";
+import {
+  defaultStrategyRegistry,
+  type Strategy,
+  type StrategyOptionsById,
+  type StrategyRegistry,
+} from "./strategy-registry";
+import { runStrategy, StrategyRunError } from "./strategy-runner";
+
+export type { ConfidenceInterval } from "./core/stats";
+
+const SIGNIFICANCE_LEVEL = 0.05;
 
 export interface BenchmarkConfig {
   models: string[];
   strategies: Strategy[];
   presets: PromptPreset[];
   iterations: number;
+  /** Runs in flight at once; defaults to 1 (sequential). */
+  concurrency?: number;
+  /** Per-model in-flight cap, either one value for every model or keyed by model id. */
+  modelConcurrency?: number | Record<string, number>;
   maxRetries?: number;
   logs?: boolean;
   verbose?: boolean;
   generationSettings?: GenerationSettings;
-  routerMaxTurns?: number;
-  hybridMaxTurns?: number;
+  strategyOptions?: StrategyOptionsById;
+  strategyRegistry?: StrategyRegistry;
   logger?: (line: string) => void;
+  client?: ModelClient;
+  /** JSONL file each record is appended to as soon as its run finishes. */
+  checkpointPath?: string;
+  /** Records from an earlier checkpoint; their cells are skipped and merged into the result. */
+  resumeRecords?: BenchmarkRunRecord[];
+  /** Per-model prices; records of priced models get `costUsd`. */
+  priceTable?: PriceTable;
+  /** Stops starting new runs and cancels in-flight ones; the result covers finished runs only. */
+  signal?: AbortSignal;
+  /** Tool-retrieval sweep: every cell runs once per k with only the top-k tools exposed. */
+  toolTopK?: number[];
 }
 
 export interface BenchmarkRunRecord {
@@ -21,36 +66,99 @@ export interface BenchmarkRunRecord {
   strategy: Strategy;
   presetId: string;
   iteration: number;
+  /** Tools exposed by retrieval; absent when the run saw every tool. */
+  toolTopK?: number;
+  /** Whether the preset's required tools all made the top-k; absent without `requiredTools`. */
+  retrievalHit?: boolean;
+  /** Tools added after the model asked for one outside the top-k. */
+  retrievalWidenings?: number;
   success: boolean;
   durationMs: number;
   attempts: number;
   toolCalls: number;
   repairedCalls: number;
+  /** Repaired calls fixed by the deterministic coercer alone; absent when none. */
+  coercedCalls?: number;
+  /** LLM repair rounds across all calls, given-up ones included; absent when none ran. */
+  repairRounds?: number;
+  /** Tool calls that threw and were reported back to the model. */
+  toolErrors?: number;
+  /** Failed tool calls followed by a successful call to the same tool later in the run. */
+  recoveredToolErrors?: number;
+  /** Tokens across all attempts, failed ones included. */
+  usage?: TokenUsage;
+  /** Estimated from `usage`; set only when the model has a price. */
+  costUsd?: number;
+  /** LLM latency per call purpose in the successful attempt; absent for failed runs. */
+  llmLatencyMs?: Record<LlmCallPurpose, number>;
+  llmRetries?: number;
+  /** Set only when the preset declares expectations; failed runs are never correct. */
+  correct?: boolean;
+  expectationFailures?: string[];
   error?: string;
+  /** Set on failed runs; classified from the last attempt's error. */
+  errorCategory?: FailureCategory;
 }
 
 export interface BenchmarkAggregate {
   key: string;
   strategy: Strategy;
   model: string;
+  toolTopK?: number;
+  /** Share of scored runs whose required tools all made the top-k. */
+  retrievalRecall?: number;
+  avgRetrievalWidenings?: number;
   totalRuns: number;
   successRuns: number;
   failureRuns: number;
   successRate: number;
   errorRate: number;
+  scoredRuns: number;
+  correctRuns: number;
+  correctnessRate: number;
+  /** 95% Wilson interval for `successRate`. */
+  successRateCi: ConfidenceInterval;
+  /** 95% Wilson interval for `correctnessRate`; absent when no run was scored. */
+  correctnessRateCi?: ConfidenceInterval;
   avgDurationMs: number;
   medianDurationMs: number;
   p95DurationMs: number;
+  /** 95% seeded bootstrap intervals for latency. */
+  avgDurationMsCi: ConfidenceInterval;
+  p95DurationMsCi: ConfidenceInterval;
   avgToolCalls: number;
   avgRepairedCalls: number;
   repairRate: number;
+  avgCoercedCalls: number;
+  /** LLM repair rounds per LLM-repaired call; absent when no call needed the LLM. */
+  avgRepairRounds?: number;
   toolUseRate: number;
   avgAttempts: number;
+  avgPromptTokens: number;
+  avgOutputTokens: number;
+  avgThoughtTokens: number;
+  avgTotalTokens: number;
+  /** All tokens spent, failed runs included, divided by successful runs; absent with no successes. */
+  tokensPerSuccess?: number;
+  /** Cost fields are present only when at least one record was priced. */
+  totalCostUsd?: number;
+  costPerSuccessUsd?: number;
+  /** Total cost divided by correct runs; the figure to pick strategies by when presets are scored. */
+  costPerCorrectUsd?: number;
+  /** Mean LLM latency per call purpose over runs that recorded it (successful runs). */
+  avgLlmLatencyMs: Record<LlmCallPurpose, number>;
+  avgLlmRetries: number;
+  avgToolErrors: number;
+  /** Recovered tool errors over all tool errors; absent when no tool failed. */
+  toolErrorRecoveryRate?: number;
+  /** Failed runs per failure category; categories with no failures are omitted. */
+  failureCategories: Partial<Record<FailureCategory, number>>;
 }
 
 export interface BenchmarkComparison {
   model: string;
   strategy: Strategy;
+  toolTopK?: number;
   successRate: number;
   avgDurationMs: number;
   avgToolCalls: number;
@@ -58,6 +166,35 @@ export interface BenchmarkComparison {
   deltaSuccessRate: number;
   deltaDurationMs: number;
   deltaToolCalls: number;
+  /** Best strategy for the model, which every row is tested against. */
+  baselineStrategy: Strategy;
+  baselineToolTopK?: number;
+  /** Two-sided two-proportion z-test p-value for success rate versus the baseline row. */
+  successPValue: number;
+  /** True when `successPValue` is below 0.05. */
+  significant: boolean;
+}
+
+/** Success-rate test between two strategies over the same model and preset. */
+export interface BenchmarkPairwiseComparison {
+  model: string;
+  /** Undefined for the per-model rollup over all presets. */
+  presetId?: string;
+  /** The pair's leader: the higher success rate, or the first by label on a tie. */
+  strategy: Strategy;
+  toolTopK?: number;
+  otherStrategy: Strategy;
+  otherToolTopK?: number;
+  runs: number;
+  otherRuns: number;
+  successRate: number;
+  otherSuccessRate: number;
+  /** Percentage points `strategy` leads by; never negative. */
+  deltaSuccessRate: number;
+  /** Two-sided two-proportion z-test p-value. */
+  successPValue: number;
+  /** True when `successPValue` is below 0.05. */
+  significant: boolean;
 }
 
 export interface BenchmarkResult {
@@ -67,12 +204,16 @@ export interface BenchmarkResult {
   records: BenchmarkRunRecord[];
   aggregates: BenchmarkAggregate[];
   comparisons: BenchmarkComparison[];
+  /** Every strategy pair per model and preset, plus a per-model rollup. */
+  pairwise: BenchmarkPairwiseComparison[];
+  /** True when `signal` cancelled the run before every cell finished. */
+  aborted?: boolean;
 }
 
 export function defaultBenchmarkConfig(model: string): BenchmarkConfig {
   return {
     models: [model],
-    strategies: [...STRATEGIES],
+    strategies: defaultStrategyRegistry.ids(),
     presets: [...PROMPT_PRESETS],
     iterations: 1,
     logs: false,
@@ -82,63 +223,50 @@ export function defaultBenchmarkConfig(model: string): BenchmarkConfig {
 
 export async function runBenchmark(config: BenchmarkConfig): Promise<BenchmarkResult> {
   const logger = config.logger ?? (() => {});
-  const records: BenchmarkRunRecord[] = [];
   const started = new Date();
+  const resumed = new Map(
+    (config.resumeRecords ?? []).map((record) => [benchmarkCellKey(record), record]),
+  );
+  const jobs = buildBenchmarkJobs(config);
+  const pendingJobs = jobs.filter((job) => !resumed.has(benchmarkCellKey(jobCell(job))));
+  const concurrency = config.concurrency ?? 1;
 
-  for (const model of config.models) {
-    for (const strategy of config.strategies) {
-      for (const preset of config.presets) {
-        for (let iteration = 1; iteration <= config.iterations; iteration += 1) {
-          if (config.logs) {
-            logger(
-              `[bench] model=${model} strategy=${strategy} preset=${preset.id} iteration=${iteration}/${config.iterations}`,
-            );
-          }
-
-          const runStarted = Date.now();
-          try {
-            const result = await runStrategy({
-              strategy,
-              model,
-              prompt: preset.prompt,
-              maxRetries: config.maxRetries,
-              logs: config.logs,
-              verbose: config.verbose,
-              generationSettings: config.generationSettings,
-              routerMaxTurns: config.routerMaxTurns,
-              hybridMaxTurns: config.hybridMaxTurns,
-              logger,
-            });
+  if (config.logs && resumed.size > 0) {
+    logger(
+      `[bench] resume skipped=${jobs.length - pendingJobs.length} remaining=${pendingJobs.length}`,
+    );
+  }
 
-            records.push({
-              model,
-              strategy,
-              presetId: preset.id,
-              iteration,
-              success: true,
-              durationMs: Date.now() - runStarted,
-              attempts: result.attempts,
-              toolCalls: result.toolCalls.length,
-              repairedCalls: result.toolCalls.filter((item) => item.repaired).length,
-            });
-          } catch (error) {
-            const message = error instanceof Error ? error.message : String(error);
-            records.push({
-              model,
-              strategy,
-              presetId: preset.id,
-              iteration,
-              success: false,
-              durationMs: Date.now() - runStarted,
-              attempts: Math.max(1, (config.maxRetries ?? 0) + 1),
-              toolCalls: 0,
-              repairedCalls: 0,
-              error: message,
-            });
-          }
-        }
+  const fresh = await runWorkerPool(
+    pendingJobs,
+    {
+      concurrency,
+      groupOf: (job) => job.model,
+      groupLimit: (model) => modelConcurrencyLimit(config.modelConcurrency, model, concurrency),
+    },
+    async (job) => {
+      // Cancelled runs are dropped rather than recorded as failures, so --resume reruns them.
+      if (config.signal?.aborted) {
+        return null;
       }
-    }
+      const record = await runBenchmarkJob(config, job, logger);
+      if (config.signal?.aborted && !record.success) {
+        return null;
+      }
+      if (config.checkpointPath) {
+        appendCheckpointRecord(config.checkpointPath, record);
+      }
+      return record;
+    },
+  );
+  const records = mergeResumedRecords(
+    jobs,
+    fresh.filter((record): record is BenchmarkRunRecord => record !== null),
+    resumed,
+  );
+  const aborted = Boolean(config.signal?.aborted) && records.length < jobs.length;
+  if (config.logs && aborted) {
+    logger(`[bench] aborted finished=${records.length}/${jobs.length}`);
   }
 
   const finished = new Date();
@@ -152,6 +280,8 @@ export async function runBenchmark(config: BenchmarkConfig): Promise<BenchmarkRe
     records,
     aggregates,
     comparisons,
+    pairwise: buildPairwiseComparisons(records),
+    ...(aborted ? { aborted } : {}),
   };
 }
 
@@ -159,7 +289,10 @@ export function buildAggregates(records: BenchmarkRunRecord[]): BenchmarkAggrega
   const groups = new Map<string, BenchmarkRunRecord[]>();
 
   for (const record of records) {
-    const key = `${record.model}::${record.strategy}`;
+    const key =
+      record.toolTopK === undefined
+        ? `${record.model}::${record.strategy}`
+        : `${record.model}::${record.strategy}::k${record.toolTopK}`;
     const group = groups.get(key) ?? [];
     group.push(record);
     groups.set(key, group);
@@ -168,7 +301,8 @@ export function buildAggregates(records: BenchmarkRunRecord[]): BenchmarkAggrega
   const output: BenchmarkAggregate[] = [];
   for (const [key, group] of groups.entries()) {
     const model = group[0]?.model ?? "unknown-model";
-    const strategy = group[0]?.strategy ?? "structured-json";
+    const strategy = group[0]?.strategy ?? "unknown-strategy";
+    const toolTopK = group[0]?.toolTopK;
     const totalRuns = group.length;
     const successRuns = group.filter((item) => item.success).length;
     const failureRuns = totalRuns - successRuns;
@@ -176,32 +310,108 @@ export function buildAggregates(records: BenchmarkRunRecord[]): BenchmarkAggrega
     const durations = group.map((item) => item.durationMs).sort((a, b) => a - b);
     const sumToolCalls = group.reduce((acc, item) => acc + item.toolCalls, 0);
     const sumRepairedCalls = group.reduce((acc, item) => acc + item.repairedCalls, 0);
+    const sumCoercedCalls = group.reduce((acc, item) => acc + (item.coercedCalls ?? 0), 0);
+    const sumLlmRepairedCalls = sumRepairedCalls - sumCoercedCalls;
+    const sumRepairRounds = group.reduce((acc, item) => acc + (item.repairRounds ?? 0), 0);
     const toolUsedRuns = group.filter((item) => item.toolCalls > 0).length;
     const sumAttempts = group.reduce((acc, item) => acc + item.attempts, 0);
+    const scoredRuns = group.filter((item) => item.correct !== undefined).length;
+    const correctRuns = group.filter((item) => item.correct === true).length;
+    const usage = group.reduce((acc, item) => addUsage(acc, item.usage ?? emptyUsage()), emptyUsage());
+    const pricedRecords = group.filter((item) => item.costUsd !== undefined);
+    const totalCostUsd = pricedRecords.reduce((acc, item) => acc + (item.costUsd ?? 0), 0);
+    const timedRecords = group.filter((item) => item.llmLatencyMs !== undefined);
+    const sumToolErrors = group.reduce((acc, item) => acc + (item.toolErrors ?? 0), 0);
+    const sumRecoveredToolErrors = group.reduce(
+      (acc, item) => acc + (item.recoveredToolErrors ?? 0),
+      0,
+    );
+    const retrievalScored = group.filter((item) => item.retrievalHit !== undefined);
 
     output.push({
       key,
       strategy,
       model,
+      ...(toolTopK !== undefined
+        ? {
+            toolTopK,
+            ...(retrievalScored.length > 0
+              ? {
+                  retrievalRecall: round2(
+                    retrievalScored.filter((item) => item.retrievalHit).length /
+                      retrievalScored.length,
+                  ),
+                }
+              : {}),
+            avgRetrievalWidenings: round2(
+              group.reduce((acc, item) => acc + (item.retrievalWidenings ?? 0), 0) / totalRuns,
+            ),
+          }
+        : {}),
       totalRuns,
       successRuns,
       failureRuns,
       successRate: totalRuns > 0 ? successRuns / totalRuns : 0,
       errorRate: totalRuns > 0 ? failureRuns / totalRuns : 0,
+      scoredRuns,
+      correctRuns,
+      correctnessRate: scoredRuns > 0 ? correctRuns / scoredRuns : 0,
+      successRateCi: roundInterval(wilsonInterval(successRuns, totalRuns), 4),
+      ...(scoredRuns > 0
+        ? { correctnessRateCi: roundInterval(wilsonInterval(correctRuns, scoredRuns), 4) }
+        : {}),
       avgDurationMs: totalRuns > 0 ? Math.round(sumDuration / totalRuns) : 0,
       medianDurationMs: percentile(durations, 0.5),
       p95DurationMs: percentile(durations, 0.95),
+      avgDurationMsCi: roundInterval(bootstrapInterval(durations, mean), 0),
+      p95DurationMsCi: roundInterval(
+        bootstrapInterval(durations, (sample) => percentile([...sample].sort((a, b) => a - b), 0.95)),
+        0,
+      ),
       avgToolCalls: totalRuns > 0 ? round2(sumToolCalls / totalRuns) : 0,
       avgRepairedCalls: totalRuns > 0 ? round2(sumRepairedCalls / totalRuns) : 0,
       repairRate: sumToolCalls > 0 ? round2(sumRepairedCalls / sumToolCalls) : 0,
+      avgCoercedCalls: totalRuns > 0 ? round2(sumCoercedCalls / totalRuns) : 0,
+      ...(sumLlmRepairedCalls > 0
+        ? { avgRepairRounds: round2(sumRepairRounds / sumLlmRepairedCalls) }
+        : {}),
       toolUseRate: totalRuns > 0 ? round2(toolUsedRuns / totalRuns) : 0,
       avgAttempts: totalRuns > 0 ? round2(sumAttempts / totalRuns) : 0,
+      avgPromptTokens: totalRuns > 0 ? Math.round(usage.promptTokens / totalRuns) : 0,
+      avgOutputTokens: totalRuns > 0 ? Math.round(usage.outputTokens / totalRuns) : 0,
+      avgThoughtTokens: totalRuns > 0 ? Math.round(usage.thoughtTokens / totalRuns) : 0,
+      avgTotalTokens: totalRuns > 0 ? Math.round(usage.totalTokens / totalRuns) : 0,
+      ...(successRuns > 0 ? { tokensPerSuccess: Math.round(usage.totalTokens / successRuns) } : {}),
+      ...(pricedRecords.length > 0
+        ? {
+            totalCostUsd: roundUsd(totalCostUsd),
+            ...(successRuns > 0 ? { costPerSuccessUsd: roundUsd(totalCostUsd / successRuns) } : {}),
+            ...(correctRuns > 0 ? { costPerCorrectUsd: roundUsd(totalCostUsd / correctRuns) } : {}),
+          }
+        : {}),
+      avgLlmLatencyMs: averageLatencyByPurpose(timedRecords),
+      avgLlmRetries:
+        timedRecords.length > 0
+          ? round2(
+              timedRecords.reduce((acc, item) => acc + (item.llmRetries ?? 0), 0) /
+                timedRecords.length,
+            )
+          : 0,
+      avgToolErrors: totalRuns > 0 ? round2(sumToolErrors / totalRuns) : 0,
+      ...(sumToolErrors > 0
+        ? { toolErrorRecoveryRate: round2(sumRecoveredToolErrors / sumToolErrors) }
+        : {}),
+      failureCategories: countFailureCategories(group),
     });
   }
 
   return output.sort((a, b) => {
     const strategySort = a.strategy.localeCompare(b.strategy);
-    return strategySort !== 0 ? strategySort : a.model.localeCompare(b.model);
+    if (strategySort !== 0) {
+      return strategySort;
+    }
+    const modelSort = a.model.localeCompare(b.model);
+    return modelSort !== 0 ? modelSort : (a.toolTopK ?? Infinity) - (b.toolTopK ?? Infinity);
   });
 }
 
@@ -223,9 +433,16 @@ export function buildComparisons(aggregates: BenchmarkAggregate[]): BenchmarkCom
     }
 
     for (const row of sorted) {
+      const test = twoProportionZTest(
+        baseline.successRuns,
+        baseline.totalRuns,
+        row.successRuns,
+        row.totalRuns,
+      );
       output.push({
         model,
         strategy: row.strategy,
+        ...(row.toolTopK !== undefined ? { toolTopK: row.toolTopK } : {}),
         successRate: row.successRate,
         avgDurationMs: row.avgDurationMs,
         avgToolCalls: row.avgToolCalls,
@@ -233,6 +450,10 @@ export function buildComparisons(aggregates: BenchmarkAggregate[]): BenchmarkCom
         deltaSuccessRate: round2((baseline.successRate - row.successRate) * 100),
         deltaDurationMs: row.avgDurationMs - baseline.avgDurationMs,
         deltaToolCalls: round2(row.avgToolCalls - baseline.avgToolCalls),
+        baselineStrategy: baseline.strategy,
+        ...(baseline.toolTopK !== undefined ? { baselineToolTopK: baseline.toolTopK } : {}),
+        successPValue: round4(test.pValue),
+        significant: test.pValue < SIGNIFICANCE_LEVEL,
       });
     }
   }
@@ -243,6 +464,112 @@ export function buildComparisons(aggregates: BenchmarkAggregate[]): BenchmarkCom
   });
 }
 
+/** Human-readable lines for comparisons that are significant at 95% confidence. */
+export function describeSignificantComparisons(comparisons: BenchmarkComparison[]): string[] {
+  return comparisons
+    .map((row) => ({
+      row,
+      label: strategyLabel(row.strategy, row.toolTopK),
+      baselineLabel: strategyLabel(row.baselineStrategy, row.baselineToolTopK),
+    }))
+    .filter(({ row, label, baselineLabel }) => row.significant && label !== baselineLabel)
+    .map(
+      ({ row, label, baselineLabel }) =>
+        `${baselineLabel} beats ${label} on ${row.model} at 95% confidence (p=${row.successPValue})`,
+    );
+}
+
+/**
+ * Tests every pair of strategies (each swept k counts as its own strategy)
+ * against each other, within each model/preset cell and over each model's
+ * presets combined.
+ */
+export function buildPairwiseComparisons(
+  records: BenchmarkRunRecord[],
+): BenchmarkPairwiseComparison[] {
+  const cells = new Map<string, { model: string; presetId?: string; records: BenchmarkRunRecord[] }>();
+  for (const record of records) {
+    for (const presetId of [undefined, record.presetId]) {
+      const key = JSON.stringify([record.model, presetId ?? null]);
+      const cell = cells.get(key) ?? {
+        model: record.model,
+        ...(presetId !== undefined ? { presetId } : {}),
+        records: [],
+      };
+      cell.records.push(record);
+      cells.set(key, cell);
+    }
+  }
+
+  const output: BenchmarkPairwiseComparison[] = [];
+  for (const cell of cells.values()) {
+    const byStrategy = new Map<string, BenchmarkRunRecord[]>();
+    for (const record of cell.records) {
+      const label = strategyLabel(record.strategy, record.toolTopK);
+      byStrategy.set(label, [...(byStrategy.get(label) ?? []), record]);
+    }
+    const groups = [...byStrategy.entries()].sort(([a], [b]) => a.localeCompare(b));
+    for (let i = 0; i < groups.length; i += 1) {
+      for (let j = i + 1; j < groups.length; j += 1) {
+        output.push(comparePair(cell.model, cell.presetId, groups[i]?.[1] ?? [], groups[j]?.[1] ?? []));
+      }
+    }
+  }
+
+  return output.sort(
+    (a, b) =>
+      a.model.localeCompare(b.model) ||
+      (a.presetId ?? "").localeCompare(b.presetId ?? "") ||
+      b.deltaSuccessRate - a.deltaSuccessRate,
+  );
+}
+
+/** Human-readable lines for strategy pairs that differ at 95% confidence. */
+export function describeSignificantPairs(pairs: BenchmarkPairwiseComparison[]): string[] {
+  return pairs
+    .filter((row) => row.significant)
+    .map(
+      (row) =>
+        `${strategyLabel(row.strategy, row.toolTopK)} beats ${strategyLabel(row.otherStrategy, row.otherToolTopK)} on ${row.model}${row.presetId ? `/${row.presetId}` : ""} at 95% confidence (p=${row.successPValue})`,
+    );
+}
+
+function comparePair(
+  model: string,
+  presetId: string | undefined,
+  first: BenchmarkRunRecord[],
+  second: BenchmarkRunRecord[],
+): BenchmarkPairwiseComparison {
+  const rate = (group: BenchmarkRunRecord[]) =>
+    group.length > 0 ? group.filter((item) => item.success).length / group.length : 0;
+  const [leader, other] = rate(second) > rate(first) ? [second, first] : [first, second];
+  const leaderSuccesses = leader.filter((item) => item.success).length;
+  const otherSuccesses = other.filter((item) => item.success).length;
+  const test = twoProportionZTest(leaderSuccesses, leader.length, otherSuccesses, other.length);
+  const leaderRecord = leader[0];
+  const otherRecord = other[0];
+  return {
+    model,
+    ...(presetId !== undefined ? { presetId } : {}),
+    strategy: leaderRecord?.strategy ?? "unknown-strategy",
+    ...(leaderRecord?.toolTopK !== undefined ? { toolTopK: leaderRecord.toolTopK } : {}),
+    otherStrategy: otherRecord?.strategy ?? "unknown-strategy",
+    ...(otherRecord?.toolTopK !== undefined ? { otherToolTopK: otherRecord.toolTopK } : {}),
+    runs: leader.length,
+    otherRuns: other.length,
+    successRate: round4(rate(leader)),
+    otherSuccessRate: round4(rate(other)),
+    deltaSuccessRate: round2((rate(leader) - rate(other)) * 100),
+    successPValue: round4(test.pValue),
+    significant: test.pValue < SIGNIFICANCE_LEVEL,
+  };
+}
+
+/** `strategy`, or `strategy@k<n>` for a run limited to the top-n retrieved tools. */
+export function strategyLabel(strategy: string, toolTopK: number | undefined): string {
+  return toolTopK === undefined ? strategy : `${strategy}@k${toolTopK}`;
+}
+
 function compareAggregateRows(a: BenchmarkAggregate, b: BenchmarkAggregate): number {
   if (a.successRate !== b.successRate) {
     return b.successRate - a.successRate;
@@ -253,7 +580,239 @@ function compareAggregateRows(a: BenchmarkAggregate, b: BenchmarkAggregate): num
   if (a.avgAttempts !== b.avgAttempts) {
     return a.avgAttempts - b.avgAttempts;
   }
-  return a.strategy.localeCompare(b.strategy);
+  const strategySort = a.strategy.localeCompare(b.strategy);
+  return strategySort !== 0 ? strategySort : (a.toolTopK ?? Infinity) - (b.toolTopK ?? Infinity);
+}
+
+interface BenchmarkJob {
+  model: string;
+  strategy: Strategy;
+  preset: PromptPreset;
+  iteration: number;
+  toolTopK?: number;
+}
+
+function buildBenchmarkJobs(config: BenchmarkConfig): BenchmarkJob[] {
+  const jobs: BenchmarkJob[] = [];
+  const topKs = config.toolTopK && config.toolTopK.length > 0 ? config.toolTopK : [undefined];
+  for (const model of config.models) {
+    for (const strategy of config.strategies) {
+      for (const toolTopK of topKs) {
+        for (const preset of config.presets) {
+          for (let iteration = 1; iteration <= config.iterations; iteration += 1) {
+            jobs.push({
+              model,
+              strategy,
+              preset,
+              iteration,
+              ...(toolTopK !== undefined ? { toolTopK } : {}),
+            });
+          }
+        }
+      }
+    }
+  }
+  return jobs;
+}
+
+function jobCell(job: BenchmarkJob): BenchmarkCell {
+  return {
+    model: job.model,
+    strategy: job.strategy,
+    presetId: job.preset.id,
+    iteration: job.iteration,
+    ...(job.toolTopK !== undefined ? { toolTopK: job.toolTopK } : {}),
+  };
+}
+
+// Matrix order first, then any checkpointed cells outside the current matrix.
+function mergeResumedRecords(
+  jobs: BenchmarkJob[],
+  fresh: BenchmarkRunRecord[],
+  resumed: Map<string, BenchmarkRunRecord>,
+): BenchmarkRunRecord[] {
+  const freshByKey = new Map(fresh.map((record) => [benchmarkCellKey(record), record]));
+  const leftover = new Map(resumed);
+  const output: BenchmarkRunRecord[] = [];
+  for (const job of jobs) {
+    const key = benchmarkCellKey(jobCell(job));
+    const record = leftover.get(key) ?? freshByKey.get(key);
+    if (record) {
+      output.push(record);
+      leftover.delete(key);
+    }
+  }
+  return [...output, ...leftover.values()];
+}
+
+async function runBenchmarkJob(
+  config: BenchmarkConfig,
+  job: BenchmarkJob,
+  logger: (line: string) => void,
+): Promise<BenchmarkRunRecord> {
+  const { model, strategy, preset, iteration, toolTopK } = job;
+  // Logged when the run actually starts so progress counts stay accurate under concurrency.
+  if (config.logs) {
+    logger(
+      `[bench] model=${model} strategy=${strategy}${toolTopK !== undefined ? ` k=${toolTopK}` : ""} preset=${preset.id} iteration=${iteration}/${config.iterations}`,
+    );
+  }
+
+  const runStarted = Date.now();
+  const expectations = hasExpectations(preset.expectations)
+    ? preset.expectations
+    : undefined;
+  const cell = { ...jobCell(job), ...retrievalHitField(preset, toolTopK) };
+  try {
+    const result = await runStrategy({
+      strategy,
+      model,
+      prompt: preset.prompt,
+      maxRetries: config.maxRetries,
+      logs: config.logs,
+      verbose: config.verbose,
+      generationSettings: config.generationSettings,
+      strategyOptions: config.strategyOptions,
+      strategyRegistry: config.strategyRegistry,
+      logger,
+      client: config.client,
+      signal: config.signal,
+      toolTopK,
+    });
+
+    return {
+      ...cell,
+      ...(result.toolRetrieval && result.toolRetrieval.widened.length > 0
+        ? { retrievalWidenings: result.toolRetrieval.widened.length }
+        : {}),
+      success: true,
+      durationMs: Date.now() - runStarted,
+      attempts: result.attempts,
+      toolCalls: result.toolCalls.length,
+      repairedCalls: result.toolCalls.filter((item) => item.repaired).length,
+      ...repairFields(result.toolCalls),
+      ...toolErrorFields(result.toolCalls),
+      ...usageFields(config.priceTable, model, result.usage),
+      llmLatencyMs: result.llmCalls.latencyMs,
+      llmRetries: result.llmCalls.retries,
+      ...(expectations
+        ? scoreRun(evaluateExpectations(expectations, result).failures)
+        : {}),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const runError = error instanceof StrategyRunError ? error : undefined;
+    return {
+      ...cell,
+      success: false,
+      durationMs: Date.now() - runStarted,
+      attempts: runError?.attempts ?? Math.max(1, (config.maxRetries ?? 0) + 1),
+      toolCalls: 0,
+      repairedCalls: 0,
+      ...(runError ? usageFields(config.priceTable, model, runError.usage) : {}),
+      ...(expectations ? { correct: false } : {}),
+      error: message,
+      errorCategory: classifyError(error),
+    };
+  }
+}
+
+function modelConcurrencyLimit(
+  limits: BenchmarkConfig["modelConcurrency"],
+  model: string,
+  fallback: number,
+): number {
+  if (typeof limits === "number") {
+    return limits;
+  }
+  return limits?.[model] ?? fallback;
+}
+
+/** Scored against the demo tools, which every benchmark run uses. */
+function retrievalHitField(
+  preset: PromptPreset,
+  toolTopK: number | undefined,
+): Pick<BenchmarkRunRecord, "retrievalHit"> {
+  const required = preset.expectations?.requiredTools ?? [];
+  if (toolTopK === undefined || required.length === 0) {
+    return {};
+  }
+  const { selected } = retrieveTools(createDemoToolRegistry(), preset.prompt, toolTopK);
+  return { retrievalHit: required.every((name) => selected.includes(name)) };
+}
+
+function repairFields(
+  calls: ToolCallRecord[],
+): Pick<BenchmarkRunRecord, "coercedCalls" | "repairRounds"> {
+  const coercedCalls = calls.filter((call) => call.repaired === "deterministic").length;
+  const repairRounds = calls.reduce((acc, call) => acc + (call.repairRounds ?? 0), 0);
+  return {
+    ...(coercedCalls > 0 ? { coercedCalls } : {}),
+    ...(repairRounds > 0 ? { repairRounds } : {}),
+  };
+}
+
+function toolErrorFields(
+  calls: ToolCallRecord[],
+): Pick<BenchmarkRunRecord, "toolErrors" | "recoveredToolErrors"> {
+  const toolErrors = calls.filter((call) => call.error).length;
+  if (toolErrors === 0) {
+    return {};
+  }
+  const recoveredToolErrors = calls.filter(
+    (call, index) =>
+      call.error &&
+      calls.slice(index + 1).some((later) => later.toolName === call.toolName && !later.error),
+  ).length;
+  return { toolErrors, recoveredToolErrors };
+}
+
+function usageFields(
+  priceTable: PriceTable | undefined,
+  model: string,
+  usage: TokenUsage,
+): Pick<BenchmarkRunRecord, "usage" | "costUsd"> {
+  const price = priceForModel(priceTable, model);
+  return price ? { usage, costUsd: estimateCostUsd(usage, price) } : { usage };
+}
+
+function scoreRun(
+  failures: string[],
+): Pick<BenchmarkRunRecord, "correct" | "expectationFailures"> {
+  return failures.length === 0
+    ? { correct: true }
+    : { correct: false, expectationFailures: failures };
+}
+
+function countFailureCategories(
+  records: BenchmarkRunRecord[],
+): Partial<Record<FailureCategory, number>> {
+  const counts: Partial<Record<FailureCategory, number>> = {};
+  for (const category of FAILURE_CATEGORIES) {
+    const count = records.filter(
+      (item) => !item.success && (item.errorCategory ?? "unknown") === category,
+    ).length;
+    if (count > 0) {
+      counts[category] = count;
+    }
+  }
+  return counts;
+}
+
+function averageLatencyByPurpose(records: BenchmarkRunRecord[]): Record<LlmCallPurpose, number> {
+  const output = { intent: 0, fill: 0, repair: 0, finalize: 0, fallback: 0 };
+  if (records.length === 0) {
+    return output;
+  }
+  for (const purpose of LLM_CALL_PURPOSES) {
+    const sum = records.reduce((acc, item) => acc + (item.llmLatencyMs?.[purpose] ?? 0), 0);
+    output[purpose] = Math.round(sum / records.length);
+  }
+  return output;
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
 }
 
 function percentile(values: number[], q: number): number {
@@ -264,6 +823,22 @@ function percentile(values: number[], q: number): number {
   return values[index] ?? 0;
 }
 
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((acc, value) => acc + value, 0) / values.length : 0;
+}
+
+function roundInterval(interval: ConfidenceInterval, digits: number): ConfidenceInterval {
+  const factor = 10 ** digits;
+  return {
+    low: Math.round(interval.low * factor) / factor,
+    high: Math.round(interval.high * factor) / factor,
+  };
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
 function round2(value: number): number {
   return Math.round(value * 100) / 100;
 }
@@ -0,0 +1,130 @@
+import { createHash } from "node:crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { GenerateContentParameters } from "@google/genai";
+
+import type { ModelClient, ModelRequestOptions, ModelResult } from "./contracts";
+import { throwIfAborted } from "./errors";
+
+const CASSETTE_FILE_NAME = "cassette.jsonl";
+
+export interface CassetteEntry {
+  hash: string;
+  request: GenerateContentParameters;
+  result: ModelResult;
+}
+
+export function cassettePath(dir: string): string {
+  return join(dir, CASSETTE_FILE_NAME);
+}
+
+export function hashModelRequest(request: GenerateContentParameters): string {
+  return createHash("sha256").update(stableStringify(request)).digest("hex");
+}
+
+export function readCassette(dir: string): CassetteEntry[] {
+  const path = cassettePath(dir);
+  if (!existsSync(path)) {
+    throw new Error(`Cassette not found: ${path}`);
+  }
+
+  const entries: CassetteEntry[] = [];
+  const lines = readFileSync(path, "utf8").split(/\r?\n/);
+  for (const [index, line] of lines.entries()) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as CassetteEntry);
+    } catch {
+      throw new Error(`Invalid cassette entry at ${path}:${index + 1}`);
+    }
+  }
+
+  return entries;
+}
+
+export class RecordingModelClient implements ModelClient {
+  private readonly inner: ModelClient;
+  private readonly path: string;
+
+  public constructor(inner: ModelClient, dir: string) {
+    mkdirSync(dir, { recursive: true });
+    this.inner = inner;
+    this.path = cassettePath(dir);
+  }
+
+  public async generateContent(
+    request: GenerateContentParameters,
+    options?: ModelRequestOptions,
+  ): Promise<ModelResult> {
+    const result = await this.inner.generateContent(request, options);
+    const entry: CassetteEntry = {
+      hash: hashModelRequest(request),
+      request,
+      // Round-trip through JSON so SDK response classes are stored as plain data.
+      result: JSON.parse(JSON.stringify(result)) as ModelResult,
+    };
+    appendFileSync(this.path, `${JSON.stringify(entry)}\n`, "utf8");
+    return result;
+  }
+}
+
+export class ReplayModelClient implements ModelClient {
+  private readonly queues = new Map<string, ModelResult[]>();
+  private readonly lastServed = new Map<string, ModelResult>();
+
+  public constructor(entries: CassetteEntry[]) {
+    for (const entry of entries) {
+      const queue = this.queues.get(entry.hash) ?? [];
+      queue.push(entry.result);
+      this.queues.set(entry.hash, queue);
+    }
+  }
+
+  public static fromDir(dir: string): ReplayModelClient {
+    return new ReplayModelClient(readCassette(dir));
+  }
+
+  public async generateContent(
+    request: GenerateContentParameters,
+    options?: ModelRequestOptions,
+  ): Promise<ModelResult> {
+    throwIfAborted(options?.signal);
+    const hash = hashModelRequest(request);
+    const next = this.queues.get(hash)?.shift();
+    if (next) {
+      this.lastServed.set(hash, next);
+      return structuredClone(next);
+    }
+
+    // Identical requests recorded fewer times than replayed keep serving the last answer.
+    const last = this.lastServed.get(hash);
+    if (last) {
+      return structuredClone(last);
+    }
+
+    throw new Error(
+      `No recorded response for request hash ${hash.slice(0, 12)} (model=${request.model}).`,
+    );
+  }
+}
+
+function stableStringify(value: unknown): string {
+  return JSON.stringify(sortKeysDeep(JSON.parse(JSON.stringify(value) ?? "null")));
+}
+
+function sortKeysDeep(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => sortKeysDeep(item));
+  }
+  if (typeof value === "object" && value !== null) {
+    const record = value as Record<string, unknown>;
+    const output: Record<string, unknown> = {};
+    for (const key of Object.keys(record).sort()) {
+      output[key] = sortKeysDeep(record[key]);
+    }
+    return output;
+  }
+  return value;
+}
@@ -0,0 +1,88 @@
+import { createModelContent, createUserContent, type Content } from "@google/genai";
+
+import type { TokenUsage, ToolCallRecord } from "./contracts";
+import type { RunEventListener } from "./core/events";
+import { addUsage, emptyUsage } from "./core/usage";
+import {
+  runStrategy,
+  type PlaygroundResult,
+  type StrategyRunConfig,
+} from "./strategy-runner";
+
+export type ChatSessionConfig = Omit<StrategyRunConfig, "prompt" | "history" | "signal" | "onEvent">;
+
+export interface ChatTurn {
+  prompt: string;
+  result: PlaygroundResult;
+}
+
+export interface ChatSendOptions {
+  signal?: AbortSignal;
+  onEvent?: RunEventListener;
+}
+
+/**
+ * Multi-turn conversation with one strategy. Each `send` continues from the
+ * history the previous turn returned; a failed turn leaves the history as it was.
+ */
+export class ChatSession {
+  private readonly config: ChatSessionConfig;
+  private contents: Content[] = [];
+  private readonly completed: ChatTurn[] = [];
+
+  public constructor(config: ChatSessionConfig) {
+    this.config = config;
+  }
+
+  public history(): Content[] {
+    return [...this.contents];
+  }
+
+  public turns(): ChatTurn[] {
+    return [...this.completed];
+  }
+
+  /** Tokens across every completed turn. */
+  public usage(): TokenUsage {
+    return this.completed.reduce((total, turn) => addUsage(total, turn.result.usage), emptyUsage());
+  }
+
+  public async send(prompt: string, options: ChatSendOptions = {}): Promise<PlaygroundResult> {
+    const result = await runStrategy({
+      ...this.config,
+      ...options,
+      prompt,
+      history: this.contents,
+    });
+    // Strategies that do not track history still get a text-only transcript.
+    this.contents = result.history ?? [
+      ...this.contents,
+      createUserContent(prompt),
+      createModelContent(result.finalText),
+    ];
+    this.completed.push({ prompt, result });
+    return result;
+  }
+
+  public reset(): void {
+    this.contents = [];
+    this.completed.length = 0;
+  }
+}
+
+/** One-line summary of a tool call for chat transcripts, e.g. `sum_numbers {"numbers":[1,2]} -> 3`. */
+export function describeToolCall(call: ToolCallRecord, maxLength = 160): string {
+  const outcome = call.error
+    ? `error ${call.error.type}: ${call.error.message}`
+    : oneLineJson(call.result);
+  const line = `${call.toolName} ${oneLineJson(call.args)} -> ${outcome}${call.repaired ? ` (${call.repaired} repair)` : ""}`;
+  return line.length <= maxLength ? line : `${line.slice(0, Math.max(0, maxLength - 1))}…`;
+}
+
+function oneLineJson(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return "[unserializable]";
+  }
+}
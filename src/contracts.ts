@@ -1,10 +1,12 @@
-import type { GenerateContentParameters } from "@google/genai";
+import type { Content, GenerateContentParameters } from "@google/genai";
 import type { z } from "zod";
 
 export type JsonObject = Record<string, unknown>;
 
 export interface ToolExecutionContext {
   now: Date;
+  /** Aborted when the run is cancelled; long-running tools should stop early. */
+  signal?: AbortSignal;
 }
 
 export interface ToolDefinition<
@@ -17,24 +19,70 @@ export interface ToolDefinition<
   execute: (args: Args, context: ToolExecutionContext) => Promise<Result> | Result;
 }
 
+/** What a failed tool call reports back to the model instead of a result. */
+export interface ToolErrorInfo {
+  message: string;
+  /** Error class name, e.g. `RangeError`. */
+  type: string;
+}
+
+/** How a call's args were fixed: `deterministic` by the registry's coercer, `llm` by a repair call. */
+export type ArgsRepair = false | "deterministic" | "llm";
+
+/** A step that changed the model's args: JSON-string repair, schema coercion, or an LLM call. */
+export type RepairTier = "jsonrepair" | "deterministic" | "llm";
+
+export interface ArgsDiffEntry {
+  /** Dotted path into the args, e.g. `numbers.0`; `root` for the value itself. */
+  path: string;
+  kind: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ArgsRepairProvenance {
+  /** Args exactly as the model produced them, before parsing or any repair. */
+  rawArgs: unknown;
+  /** Tiers that changed the args, in the order they ran. */
+  tiers: RepairTier[];
+  /** Model that ran the `llm` tier. */
+  repairModel?: string;
+  /** Why the args as given were rejected, as `path: message` lines; empty when only JSON parsing was fixed. */
+  validationErrors: string[];
+  /** From the raw args (parsed, when they arrived as a string) to the final `args`. */
+  diff: ArgsDiffEntry[];
+}
+
 export interface ToolCallRecord {
   toolName: string;
   args: JsonObject;
+  /** Undefined when the tool threw; see `error`. */
   result: unknown;
-  repaired: boolean;
+  repaired: ArgsRepair;
+  /** How the args got from the model's output to `args`; absent when nothing was repaired. */
+  repair?: ArgsRepairProvenance;
+  /** LLM repair rounds spent on the args; absent when none ran. */
+  repairRounds?: number;
+  callId?: string;
+  error?: ToolErrorInfo;
 }
 
 export interface RunnerTraceStep {
   kind: string;
   detail: string;
   data?: JsonObject;
+  /** Epoch milliseconds; equal for point-in-time steps. */
+  startedAt?: number;
+  endedAt?: number;
 }
 
 export interface RunnerResult {
-  strategy: "structured-json" | "single-tool-router" | "hybrid-repair";
+  strategy: string;
   finalText: string;
   toolCalls: ToolCallRecord[];
   trace: RunnerTraceStep[];
+  /** Conversation including this turn and its reply; feed it back to continue a chat. */
+  history?: Content[];
 }
 
 export interface ModelFunctionCall {
@@ -43,13 +91,42 @@ export interface ModelFunctionCall {
   args?: unknown;
 }
 
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  thoughtTokens: number;
+  totalTokens: number;
+}
+
 export interface ModelResult {
   text: string;
   thoughts?: string[];
   functionCalls: ModelFunctionCall[];
+  usage?: TokenUsage;
+  /** Transient retries the client made before this result came back. */
+  retries?: number;
   raw: unknown;
 }
 
+/** Incremental output from a streamed call; fields hold only what arrived in this chunk. */
+export interface ModelStreamChunk {
+  text: string;
+  thought: string;
+  functionCalls: ModelFunctionCall[];
+}
+
+export interface ModelRequestOptions {
+  signal?: AbortSignal;
+}
+
 export interface ModelClient {
-  generateContent(request: GenerateContentParameters): Promise<ModelResult>;
+  generateContent(
+    request: GenerateContentParameters,
+    options?: ModelRequestOptions,
+  ): Promise<ModelResult>;
+  /** Optional streaming variant: yields chunks as they arrive and returns the assembled result. */
+  generateContentStream?(
+    request: GenerateContentParameters,
+    options?: ModelRequestOptions,
+  ): AsyncGenerator<ModelStreamChunk, ModelResult>;
 }
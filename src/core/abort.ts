@@ -0,0 +1,20 @@
+import type { GenerateContentParameters } from "@google/genai";
+
+import type { ModelClient, ModelRequestOptions, ModelResult } from "../contracts";
+
+/**
+ * Binds `signal` to every call made through `client`, so strategies cancel their
+ * model calls without threading the signal through each helper.
+ */
+export function withAbortSignal(client: ModelClient, signal: AbortSignal | undefined): ModelClient {
+  if (!signal) {
+    return client;
+  }
+  return {
+    generateContent: (
+      request: GenerateContentParameters,
+      options?: ModelRequestOptions,
+    ): Promise<ModelResult> =>
+      client.generateContent(request, { ...options, signal: options?.signal ?? signal }),
+  };
+}
@@ -0,0 +1,181 @@
+import { isJsonObject } from "./json-utils";
+
+/** The subset of JSON Schema the coercer reads; anything else passes through untouched. */
+interface SchemaNode {
+  type?: string | string[];
+  properties?: Record<string, SchemaNode>;
+  items?: SchemaNode;
+  enum?: unknown[];
+}
+
+export interface CoercionResult {
+  value: unknown;
+  /** One line per fix, e.g. `numbers.0: "1" -> 1`; empty when nothing changed. */
+  changes: string[];
+}
+
+const NUMERIC_PATTERN = /^[-+]?(\d+(\.\d*)?|\.\d+)(e[-+]?\d+)?$/i;
+
+/**
+ * Cheap, schema-guided fixes for common model mistakes: numeric strings,
+ * comma-separated or scalar values for arrays, enum case, snake/camel key
+ * spelling, and near-miss keys. The result still needs schema validation.
+ */
+export function coerceToSchema(schema: unknown, value: unknown): CoercionResult {
+  const changes: string[] = [];
+  return { value: coerceNode(asNode(schema), value, [], changes), changes };
+}
+
+function coerceNode(
+  node: SchemaNode | undefined,
+  value: unknown,
+  path: string[],
+  changes: string[],
+): unknown {
+  if (!node) {
+    return value;
+  }
+
+  if (node.enum && typeof value === "string" && !node.enum.includes(value)) {
+    const match = node.enum.find(
+      (option) => typeof option === "string" && option.toLowerCase() === value.trim().toLowerCase(),
+    );
+    if (match !== undefined) {
+      changes.push(`${formatPath(path)}: ${JSON.stringify(value)} -> ${JSON.stringify(match)}`);
+      return match;
+    }
+  }
+
+  if (hasType(node, "object") && isJsonObject(value)) {
+    return coerceObject(node, value, path, changes);
+  }
+  if (hasType(node, "array")) {
+    return coerceArray(node, value, path, changes);
+  }
+  if ((hasType(node, "number") || hasType(node, "integer")) && typeof value === "string") {
+    const trimmed = value.trim();
+    if (NUMERIC_PATTERN.test(trimmed)) {
+      const parsed = Number(trimmed);
+      changes.push(`${formatPath(path)}: ${JSON.stringify(value)} -> ${parsed}`);
+      return parsed;
+    }
+  }
+  if (hasType(node, "boolean") && typeof value === "string") {
+    const lowered = value.trim().toLowerCase();
+    if (lowered === "true" || lowered === "false") {
+      changes.push(`${formatPath(path)}: ${JSON.stringify(value)} -> ${lowered}`);
+      return lowered === "true";
+    }
+  }
+  return value;
+}
+
+function coerceObject(
+  node: SchemaNode,
+  value: Record<string, unknown>,
+  path: string[],
+  changes: string[],
+): Record<string, unknown> {
+  const properties = node.properties ?? {};
+  const known = Object.keys(properties);
+  const output: Record<string, unknown> = {};
+
+  for (const [key, entry] of Object.entries(value)) {
+    const target = known.includes(key) ? key : matchKey(key, known, value);
+    if (target !== key && target !== undefined && !(target in output)) {
+      changes.push(`${formatPath([...path, key])}: key -> ${target}`);
+      output[target] = coerceNode(properties[target], entry, [...path, target], changes);
+      continue;
+    }
+    output[key] = coerceNode(properties[key], entry, [...path, key], changes);
+  }
+  return output;
+}
+
+function coerceArray(
+  node: SchemaNode,
+  value: unknown,
+  path: string[],
+  changes: string[],
+): unknown {
+  let items: unknown[];
+  if (Array.isArray(value)) {
+    items = value;
+  } else if (typeof value === "string" && value.includes(",")) {
+    items = value.split(",").map((part) => part.trim()).filter((part) => part.length > 0);
+    changes.push(`${formatPath(path)}: split ${JSON.stringify(value)} on commas`);
+  } else if (value !== undefined && value !== null) {
+    items = [value];
+    changes.push(`${formatPath(path)}: wrapped ${JSON.stringify(value)} in an array`);
+  } else {
+    return value;
+  }
+  return items.map((item, index) => coerceNode(node.items, item, [...path, String(index)], changes));
+}
+
+/**
+ * Schema key for an unknown key: the same words in another case style, else
+ * the unique closest key within a small edit distance. Keys the args already
+ * use are never targets.
+ */
+function matchKey(
+  key: string,
+  known: string[],
+  value: Record<string, unknown>,
+): string | undefined {
+  const free = known.filter((candidate) => !(candidate in value));
+  const normalized = normalizeKey(key);
+  const sameWords = free.find((candidate) => normalizeKey(candidate) === normalized);
+  if (sameWords) {
+    return sameWords;
+  }
+
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  let tied = false;
+  for (const candidate of free) {
+    const target = normalizeKey(candidate);
+    const distance = editDistance(normalized, target);
+    if (distance > Math.max(1, Math.floor(target.length / 4))) {
+      continue;
+    }
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+      tied = false;
+    } else if (distance === bestDistance) {
+      tied = true;
+    }
+  }
+  return tied ? undefined : best;
+}
+
+function normalizeKey(key: string): string {
+  return key.replace(/[_\-\s]/g, "").toLowerCase();
+}
+
+/** Levenshtein distance. */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const substitution = (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+}
+
+function hasType(node: SchemaNode, type: string): boolean {
+  return Array.isArray(node.type) ? node.type.includes(type) : node.type === type;
+}
+
+function asNode(schema: unknown): SchemaNode | undefined {
+  return isJsonObject(schema) ? (schema as SchemaNode) : undefined;
+}
+
+function formatPath(path: string[]): string {
+  return path.length > 0 ? path.join(".") : "root";
+}
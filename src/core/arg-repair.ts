@@ -0,0 +1,172 @@
+import type { z } from "zod";
+
+import type {
+  ArgsRepair,
+  ArgsRepairProvenance,
+  JsonObject,
+  RepairTier,
+  RunnerTraceStep,
+  ToolErrorInfo,
+} from "../contracts";
+import { ToolArgsValidationError } from "../errors";
+import type { ToolRegistry, ValidationSuccess } from "../tool-registry";
+import type { RunEventListener } from "./events";
+import { diffJson } from "./json-diff";
+import { parseObjectWithRepair } from "./json-utils";
+import { appendTraceStep } from "./trace";
+
+/** A repair round whose output still failed the schema; shown to the next round. */
+export interface FailedRepairRound {
+  args: unknown;
+  error: string;
+  issues: z.core.$ZodIssue[];
+}
+
+export type RepairOutcome =
+  /** `coerced` when the registry's coercer still had to fix the LLM's output. */
+  | { ok: true; args: JsonObject; rounds: number; coerced: boolean }
+  | { ok: false; rounds: number; failure: FailedRepairRound };
+
+export interface RepairBudgetOptions {
+  /** LLM repair rounds allowed before giving up; 0 disables repair. */
+  maxRounds: number;
+  trace: RunnerTraceStep[];
+  onEvent?: RunEventListener;
+}
+
+/** `"deterministic"` when the registry coerced the args, else false; the fixes go to the trace. */
+export function coercionRepair(
+  trace: RunnerTraceStep[],
+  toolName: string,
+  validation: ValidationSuccess,
+): ArgsRepair {
+  if (!validation.coercions) {
+    return false;
+  }
+  appendTraceStep(trace, {
+    kind: "repair",
+    detail: "args_coerced",
+    data: { toolName, changes: validation.coercions },
+  });
+  return "deterministic";
+}
+
+/**
+ * Runs `repairOnce` until its output validates or the budget is spent.
+ * `repairOnce` returns the repair model's raw text; output that is not a JSON
+ * object even after jsonrepair spends its round like any other invalid repair.
+ * Rounds after the first receive the previous output and its issues.
+ */
+export async function repairUntilValid(
+  registry: ToolRegistry,
+  toolName: string,
+  initial: FailedRepairRound,
+  options: RepairBudgetOptions,
+  repairOnce: (previous: FailedRepairRound | undefined) => Promise<string>,
+): Promise<RepairOutcome> {
+  let previous: FailedRepairRound | undefined;
+  for (let round = 1; round <= options.maxRounds; round += 1) {
+    const reason = (previous ?? initial).error;
+    if (previous) {
+      appendTraceStep(options.trace, {
+        kind: "repair",
+        detail: "repaired_args_invalid_retrying_repair",
+        data: { toolName, round, reason },
+      });
+    }
+    options.onEvent?.({ type: "repair_started", toolName, reason, round });
+
+    const text = await repairOnce(previous);
+    let args: JsonObject;
+    try {
+      args = parseObjectWithRepair(text, "Repaired tool args");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      appendTraceStep(options.trace, {
+        kind: "repair",
+        detail: "repaired_args_unparsable",
+        data: { toolName, round, reason: message },
+      });
+      previous = { args: text, error: `Repair output did not parse: ${message}`, issues: [] };
+      continue;
+    }
+    const validation = registry.validateArgs(toolName, args);
+    if (validation.ok) {
+      return {
+        ok: true,
+        args: validation.args,
+        rounds: round,
+        coerced: validation.coercions !== undefined,
+      };
+    }
+    previous = { args, error: validation.error, issues: validation.issues };
+  }
+  return { ok: false, rounds: options.maxRounds, failure: previous ?? initial };
+}
+
+/** Repair-prompt lines for a follow-up round: the rejected args and every issue by path. */
+export function previousRoundLines(previous: FailedRepairRound): string[] {
+  return [
+    `Your previous repair was still invalid: ${JSON.stringify(previous.args)}`,
+    "Fix each of these issues (path: problem):",
+    ...(previous.issues.length > 0
+      ? previous.issues.map((issue) => `- ${formatIssue(issue)}`)
+      : [`- root: ${previous.error}`]),
+  ];
+}
+
+export interface ProvenanceInput {
+  rawArgs: unknown;
+  /** `rawArgs` after JSON parsing; the diff starts here. */
+  parsedArgs: unknown;
+  args: JsonObject;
+  tiers: RepairTier[];
+  /** What made the args as given invalid; omit when they validated. */
+  failure?: { issues: z.core.$ZodIssue[]; error?: string };
+  repairModel?: string;
+}
+
+/** `{ repair }` for a resolved call, or nothing when no tier touched the args. */
+export function provenanceFields(input: ProvenanceInput): { repair?: ArgsRepairProvenance } {
+  if (input.tiers.length === 0) {
+    return {};
+  }
+  const failure = input.failure;
+  return {
+    repair: {
+      rawArgs: input.rawArgs,
+      tiers: input.tiers,
+      ...(input.repairModel && input.tiers.includes("llm")
+        ? { repairModel: input.repairModel }
+        : {}),
+      validationErrors:
+        failure && failure.issues.length > 0
+          ? failure.issues.map(formatIssue)
+          : failure?.error
+            ? [failure.error]
+            : [],
+      diff: diffJson(input.parsedArgs, input.args),
+    },
+  };
+}
+
+function formatIssue(issue: z.core.$ZodIssue): string {
+  const path = issue.path.length > 0 ? issue.path.map(String).join(".") : "root";
+  return `${path}: ${issue.message}`;
+}
+
+export function repairFailedError(
+  toolName: string,
+  outcome: Extract<RepairOutcome, { ok: false }>,
+): ToolArgsValidationError {
+  const message =
+    outcome.rounds > 0
+      ? `Tool args still invalid after ${outcome.rounds} repair round(s): ${outcome.failure.error}`
+      : `Tool args invalid and repair is disabled: ${outcome.failure.error}`;
+  return new ToolArgsValidationError(toolName, message, outcome.failure.issues);
+}
+
+/** The function-response error for a call whose args never validated. */
+export function validationErrorInfo(error: ToolArgsValidationError): ToolErrorInfo {
+  return { message: error.message, type: error.name };
+}
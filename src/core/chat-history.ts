@@ -0,0 +1,62 @@
+import {
+  createModelContent,
+  createPartFromFunctionCall,
+  createPartFromFunctionResponse,
+  createUserContent,
+  type Content,
+} from "@google/genai";
+
+import type { ToolCallRecord } from "../contracts";
+import { toolResponse } from "./tool-execution";
+
+/** Conversation after a turn: the turn's contents followed by the final reply. */
+export function appendReply(contents: Content[], reply: string): Content[] {
+  return [...contents, createModelContent(reply)];
+}
+
+/**
+ * One turn in the same shape native function calling produces, for strategies
+ * that run tools outside the model conversation.
+ */
+export function buildTurnHistory(
+  userPrompt: string,
+  toolCalls: ToolCallRecord[],
+  reply: string,
+): Content[] {
+  const contents = [createUserContent(userPrompt)];
+  for (const [index, call] of toolCalls.entries()) {
+    const callId = call.callId ?? `call_${index}`;
+    contents.push(createModelContent(createPartFromFunctionCall(call.toolName, call.args)));
+    contents.push(
+      createUserContent(
+        createPartFromFunctionResponse(callId, call.toolName, toolResponse(call)),
+      ),
+    );
+  }
+  return appendReply(contents, reply);
+}
+
+/** Plain-text transcript for prompts that cannot take `Content[]` directly. */
+export function renderTranscript(history: Content[]): string {
+  const lines: string[] = [];
+  for (const content of history) {
+    const speaker = content.role === "model" ? "Assistant" : "User";
+    for (const part of content.parts ?? []) {
+      if (part.thought) {
+        continue;
+      }
+      if (part.functionCall) {
+        lines.push(
+          `Assistant called ${part.functionCall.name}(${JSON.stringify(part.functionCall.args ?? {})})`,
+        );
+      } else if (part.functionResponse) {
+        lines.push(
+          `Tool ${part.functionResponse.name} returned ${JSON.stringify(part.functionResponse.response ?? {})}`,
+        );
+      } else if (typeof part.text === "string" && part.text.trim().length > 0) {
+        lines.push(`${speaker}: ${part.text.trim()}`);
+      }
+    }
+  }
+  return lines.join("\n");
+}
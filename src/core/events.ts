@@ -0,0 +1,82 @@
+import type { GenerateContentParameters } from "@google/genai";
+
+import type {
+  JsonObject,
+  ModelClient,
+  ModelFunctionCall,
+  ModelRequestOptions,
+  ModelResult,
+  ToolErrorInfo,
+} from "../contracts";
+
+/** Live progress of a run, emitted as it happens rather than read back from the trace. */
+export type RunEvent =
+  | { type: "attempt_started"; attempt: number; maxAttempts: number }
+  | { type: "thought_chunk"; text: string }
+  | { type: "text_chunk"; text: string }
+  | { type: "function_call"; name?: string; args?: unknown; callId?: string }
+  | { type: "repair_started"; toolName: string; reason: string; round: number }
+  | {
+      type: "tool_executed";
+      toolName: string;
+      args: JsonObject;
+      result: unknown;
+      /** Set when the tool threw; the run continues with the error as the tool's response. */
+      error?: ToolErrorInfo;
+      durationMs: number;
+    };
+
+export type RunEventListener = (event: RunEvent) => void;
+
+/**
+ * Routes every call through `generateContentStream` when the client has it and
+ * reports chunks and function calls to `onEvent`. Clients without streaming emit
+ * each response as a single chunk once it completes.
+ */
+export function withRunEvents(
+  client: ModelClient,
+  onEvent: RunEventListener | undefined,
+): ModelClient {
+  if (!onEvent) {
+    return client;
+  }
+  return {
+    generateContent: async (
+      request: GenerateContentParameters,
+      options?: ModelRequestOptions,
+    ): Promise<ModelResult> => {
+      if (!client.generateContentStream) {
+        const result = await client.generateContent(request, options);
+        for (const thought of result.thoughts ?? []) {
+          onEvent({ type: "thought_chunk", text: thought });
+        }
+        if (result.text.length > 0) {
+          onEvent({ type: "text_chunk", text: result.text });
+        }
+        emitFunctionCalls(onEvent, result.functionCalls);
+        return result;
+      }
+
+      const stream = client.generateContentStream(request, options);
+      while (true) {
+        const next = await stream.next();
+        if (next.done) {
+          return next.value;
+        }
+        if (next.value.thought.length > 0) {
+          onEvent({ type: "thought_chunk", text: next.value.thought });
+        }
+        if (next.value.text.length > 0) {
+          onEvent({ type: "text_chunk", text: next.value.text });
+        }
+        emitFunctionCalls(onEvent, next.value.functionCalls);
+      }
+    },
+  };
+}
+
+function emitFunctionCalls(onEvent: RunEventListener, calls: ModelFunctionCall[]): void {
+  for (const call of calls) {
+    onEvent({ type: "function_call", name: call.name, args: call.args, callId: call.id });
+  }
+}
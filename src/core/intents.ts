@@ -1,6 +1,7 @@
 import { z } from "zod";
 
-import type { JsonObject } from "../contracts";
+import type { JsonObject, ToolCallRecord } from "../contracts";
+import { IntentParseError } from "../errors";
 import { parseJsonWithRepair, toJsonObject } from "./json-utils";
 import type { ToolRegistry } from "../tool-registry";
 
@@ -54,28 +55,39 @@ export function finalResponseJsonSchema(): unknown {
 }
 
 export function parseToolIntentText(text: string): ToolIntent {
-  const parsed = parseJsonWithRepair(text);
+  const parsed = parseModelJson(text);
   const validated = toolIntentSchema.safeParse(parsed);
   if (!validated.success) {
-    throw new Error(validated.error.issues.map((issue) => issue.message).join("; "));
+    throw new IntentParseError(validated.error.issues.map((issue) => issue.message).join("; "));
   }
   return validated.data;
 }
 
 export function parseFinalResponseText(text: string): string {
-  const parsed = parseJsonWithRepair(text);
+  const parsed = parseModelJson(text);
   const validated = finalResponseSchema.safeParse(parsed);
   if (!validated.success) {
-    throw new Error(validated.error.issues.map((issue) => issue.message).join("; "));
+    throw new IntentParseError(validated.error.issues.map((issue) => issue.message).join("; "));
   }
   return validated.data.response;
 }
 
+function parseModelJson(text: string): unknown {
+  try {
+    return parseJsonWithRepair(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new IntentParseError(message, { cause: error });
+  }
+}
+
 export function buildToolSelectionPrompt(
   userPrompt: string,
   registry: ToolRegistry,
+  scratchpad: ToolCallRecord[] = [],
+  transcript = "",
 ): string {
-  return [
+  const lines = [
     "You are a tool planner for a deterministic tool-calling pipeline.",
     "Decide whether to call exactly one tool or respond directly.",
     "Output must be valid JSON matching the response schema exactly.",
@@ -88,8 +100,133 @@ export function buildToolSelectionPrompt(
     "- omit toolName and args.",
     "Available tools:",
     JSON.stringify(registry.describeForPrompt(), null, 2),
+    ...(transcript.length > 0
+      ? [
+          "Conversation so far (earlier turns, oldest first):",
+          transcript,
+          "Resolve references in the request below against this conversation.",
+        ]
+      : []),
     "User request:",
     userPrompt,
+  ];
+
+  if (scratchpad.length > 0) {
+    lines.push(
+      "Scratchpad of tool calls already executed for this request (in order):",
+      JSON.stringify(toScratchpadEntries(scratchpad), null, 2),
+      "Call another tool only if the request still needs it.",
+      "Otherwise respond with the final answer grounded in these results.",
+    );
+    if (scratchpad.some((call) => call.error)) {
+      lines.push(
+        "Entries with an 'error' failed; retry with corrected args if the request allows it.",
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/** `toolName` value that answers directly instead of picking a tool. */
+export const RESPOND_CHOICE = "respond";
+
+const toolChoiceSchema = z.object({
+  toolName: z.string(),
+  response: z.string().optional(),
+});
+
+export type ToolChoice = z.infer<typeof toolChoiceSchema>;
+
+/** Choice schema whose `toolName` enum is the registry's tools plus `respond`. */
+export function toolChoiceJsonSchema(registry: ToolRegistry): unknown {
+  const choices: [string, ...string[]] = [RESPOND_CHOICE, ...registry.names()];
+  return z.toJSONSchema(
+    z.object({
+      toolName: z.enum(choices),
+      response: z.string().optional(),
+    }),
+  );
+}
+
+/** Parses a choice without the enum, so a name outside it can surface as an unknown tool. */
+export function parseToolChoiceText(text: string): ToolChoice {
+  const parsed = parseModelJson(text);
+  const validated = toolChoiceSchema.safeParse(parsed);
+  if (!validated.success) {
+    throw new IntentParseError(validated.error.issues.map((issue) => issue.message).join("; "));
+  }
+  return validated.data;
+}
+
+export function buildToolChoicePrompt(
+  userPrompt: string,
+  registry: ToolRegistry,
+  scratchpad: ToolCallRecord[] = [],
+  transcript = "",
+): string {
+  const tools = registry
+    .describeForPrompt()
+    .map((tool) => ({ name: tool.name, description: tool.description }));
+  const lines = [
+    "You are a tool selector for a deterministic tool-calling pipeline.",
+    "Pick the one tool the request needs next, or respond directly.",
+    "Output must be valid JSON matching the response schema exactly.",
+    "Do not wrap JSON in markdown, code fences, or prose.",
+    "- toolName must exactly match one available tool name, or be 'respond'.",
+    "- Do not produce tool arguments; they are filled in a later step.",
+    "- If toolName='respond', include a concise answer in 'response'.",
+    "Available tools:",
+    JSON.stringify(tools, null, 2),
+    ...(transcript.length > 0
+      ? [
+          "Conversation so far (earlier turns, oldest first):",
+          transcript,
+          "Resolve references in the request below against this conversation.",
+        ]
+      : []),
+    "User request:",
+    userPrompt,
+  ];
+
+  if (scratchpad.length > 0) {
+    lines.push(
+      "Scratchpad of tool calls already executed for this request (in order):",
+      JSON.stringify(toScratchpadEntries(scratchpad), null, 2),
+      "Pick another tool only if the request still needs it.",
+      "Otherwise respond with the final answer grounded in these results.",
+    );
+  }
+
+  return lines.join("\n");
+}
+
+export function buildArgsFillPrompt(
+  userPrompt: string,
+  registry: ToolRegistry,
+  toolName: string,
+  scratchpad: ToolCallRecord[] = [],
+  transcript = "",
+): string {
+  const tool = registry.describeForPrompt().find((entry) => entry.name === toolName);
+  return [
+    "You are filling tool arguments for a deterministic tool-calling pipeline.",
+    `The tool '${toolName}' was already chosen for this request.`,
+    "Return only the JSON args object for that tool, matching the response schema exactly.",
+    "Do not wrap JSON in markdown, code fences, or prose.",
+    "Tool description:",
+    String(tool?.description ?? ""),
+    ...(transcript.length > 0
+      ? ["Conversation so far (earlier turns, oldest first):", transcript]
+      : []),
+    "User request:",
+    userPrompt,
+    ...(scratchpad.length > 0
+      ? [
+          "Earlier tool calls for this request (in order); use their results where the args need them:",
+          JSON.stringify(toScratchpadEntries(scratchpad), null, 2),
+        ]
+      : []),
   ].join("\n");
 }
 
@@ -116,6 +253,32 @@ export function buildFinalResponsePrompt(
   ].join("\n");
 }
 
+export function buildScratchpadFinalResponsePrompt(
+  userPrompt: string,
+  scratchpad: ToolCallRecord[],
+): string {
+  return [
+    "You are finalizing an assistant reply after a sequence of tool calls.",
+    "Return only valid JSON that matches this exact shape:",
+    '{"action":"respond","response":"<concise answer>"}',
+    "Do not add markdown, code fences, or additional keys.",
+    "Ground the response in the tool results and the original user request.",
+    "Original user request:",
+    userPrompt,
+    "Tool calls executed (in order):",
+    JSON.stringify(toScratchpadEntries(scratchpad)),
+  ].join("\n");
+}
+
+function toScratchpadEntries(scratchpad: ToolCallRecord[]): JsonObject[] {
+  return scratchpad.map((call, index) => ({
+    step: index + 1,
+    toolName: call.toolName,
+    args: call.args,
+    ...(call.error ? { error: call.error } : { result: call.result }),
+  }));
+}
+
 export function toJsonRecordForPrompt(value: unknown): JsonObject {
   return toJsonObject(value, "Prompt value");
 }
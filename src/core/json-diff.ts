@@ -0,0 +1,57 @@
+import type { ArgsDiffEntry } from "../contracts";
+import { isJsonObject } from "./json-utils";
+
+/** Structural diff of two JSON values; objects by key, arrays by index. */
+export function diffJson(before: unknown, after: unknown, path: string[] = []): ArgsDiffEntry[] {
+  if (isJsonObject(before) && isJsonObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap((key) => diffEntry(before, after, key, [...path, key]));
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    return Array.from({ length }, (_, index) => index).flatMap((index) =>
+      diffEntry(before, after, index, [...path, String(index)]),
+    );
+  }
+  return jsonEqual(before, after) ? [] : [{ path: formatPath(path), kind: "changed", before, after }];
+}
+
+/** One line per entry: `~ path: before -> after`, `+ path: after`, `- path: before`. */
+export function formatArgsDiff(diff: ArgsDiffEntry[]): string[] {
+  return diff.map((entry) => {
+    if (entry.kind === "added") {
+      return `+ ${entry.path}: ${JSON.stringify(entry.after)}`;
+    }
+    if (entry.kind === "removed") {
+      return `- ${entry.path}: ${JSON.stringify(entry.before)}`;
+    }
+    return `~ ${entry.path}: ${JSON.stringify(entry.before)} -> ${JSON.stringify(entry.after)}`;
+  });
+}
+
+function diffEntry(
+  before: Record<string, unknown> | unknown[],
+  after: Record<string, unknown> | unknown[],
+  key: string | number,
+  path: string[],
+): ArgsDiffEntry[] {
+  const inBefore = key in before;
+  const inAfter = key in after;
+  const beforeValue = (before as Record<string | number, unknown>)[key];
+  const afterValue = (after as Record<string | number, unknown>)[key];
+  if (!inBefore) {
+    return [{ path: formatPath(path), kind: "added", after: afterValue }];
+  }
+  if (!inAfter) {
+    return [{ path: formatPath(path), kind: "removed", before: beforeValue }];
+  }
+  return diffJson(beforeValue, afterValue, path);
+}
+
+function jsonEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function formatPath(path: string[]): string {
+  return path.length > 0 ? path.join(".") : "root";
+}
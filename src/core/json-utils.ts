@@ -54,6 +54,16 @@ export function parseJsonWithRepair(raw: string): unknown {
   }
 }
 
+/** True when `raw` only parses after `parseJsonWithRepair` fixes it. */
+export function needsJsonRepair(raw: string): boolean {
+  try {
+    JSON.parse(raw);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
 export function isJsonObject(value: unknown): value is JsonObject {
   return typeof value === "object" && value !== null && !Array.isArray(value);
 }
@@ -0,0 +1,13 @@
+export type RandomSource = () => number;
+
+// mulberry32: tiny, fast, and good enough for reproducible test-style randomness.
+export function createSeededRandom(seed: number): RandomSource {
+  let state = Math.floor(seed) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
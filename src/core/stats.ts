@@ -0,0 +1,116 @@
+import { createSeededRandom, type RandomSource } from "./random";
+
+export interface ConfidenceInterval {
+  low: number;
+  high: number;
+}
+
+/** z for a two-sided 95% interval. */
+export const Z_95 = 1.959964;
+
+export interface ProportionTestResult {
+  /** Candidate rate minus baseline rate. */
+  delta: number;
+  z: number;
+  /** Two-sided p-value; 1 when either sample is empty or the pooled rate is 0 or 1. */
+  pValue: number;
+}
+
+/** Two-proportion z-test with a pooled standard error. */
+export function twoProportionZTest(
+  baselineSuccesses: number,
+  baselineTotal: number,
+  candidateSuccesses: number,
+  candidateTotal: number,
+): ProportionTestResult {
+  if (baselineTotal === 0 || candidateTotal === 0) {
+    return { delta: 0, z: 0, pValue: 1 };
+  }
+
+  const baselineRate = baselineSuccesses / baselineTotal;
+  const candidateRate = candidateSuccesses / candidateTotal;
+  const delta = candidateRate - baselineRate;
+  const pooled = (baselineSuccesses + candidateSuccesses) / (baselineTotal + candidateTotal);
+  const standardError = Math.sqrt(
+    pooled * (1 - pooled) * (1 / baselineTotal + 1 / candidateTotal),
+  );
+  if (standardError === 0) {
+    return { delta, z: 0, pValue: 1 };
+  }
+
+  const z = delta / standardError;
+  return { delta, z, pValue: 2 * (1 - normalCdf(Math.abs(z))) };
+}
+
+/** Standard normal CDF (Abramowitz–Stegun 7.1.26 erf approximation, |error| < 1.5e-7). */
+export function normalCdf(x: number): number {
+  return 0.5 * (1 + erf(x / Math.SQRT2));
+}
+
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly =
+    t *
+    (0.254829592 +
+      t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return sign * (1 - poly * Math.exp(-x * x));
+}
+
+/** Wilson score interval for a binomial proportion; `{0, 0}` when there are no trials. */
+export function wilsonInterval(
+  successes: number,
+  total: number,
+  z: number = Z_95,
+): ConfidenceInterval {
+  if (total === 0) {
+    return { low: 0, high: 0 };
+  }
+
+  const rate = successes / total;
+  const z2 = z * z;
+  const center = (rate + z2 / (2 * total)) / (1 + z2 / total);
+  const margin =
+    (z / (1 + z2 / total)) * Math.sqrt((rate * (1 - rate)) / total + z2 / (4 * total * total));
+  return { low: Math.max(0, center - margin), high: Math.min(1, center + margin) };
+}
+
+export interface BootstrapOptions {
+  resamples?: number;
+  confidence?: number;
+  random?: RandomSource;
+}
+
+/**
+ * Percentile bootstrap interval for `statistic` over `values`. Seeded by default so
+ * the same records always produce the same interval.
+ */
+export function bootstrapInterval(
+  values: number[],
+  statistic: (sample: number[]) => number,
+  options: BootstrapOptions = {},
+): ConfidenceInterval {
+  if (values.length === 0) {
+    return { low: 0, high: 0 };
+  }
+  if (values.length === 1) {
+    const value = statistic(values);
+    return { low: value, high: value };
+  }
+
+  const resamples = options.resamples ?? 1000;
+  const confidence = options.confidence ?? 0.95;
+  const random = options.random ?? createSeededRandom(1);
+  const estimates: number[] = [];
+  for (let round = 0; round < resamples; round += 1) {
+    const sample = values.map(() => values[Math.floor(random() * values.length)] as number);
+    estimates.push(statistic(sample));
+  }
+  estimates.sort((a, b) => a - b);
+
+  const tail = (1 - confidence) / 2;
+  return {
+    low: estimates[Math.floor(tail * (resamples - 1))] ?? 0,
+    high: estimates[Math.ceil((1 - tail) * (resamples - 1))] ?? 0,
+  };
+}
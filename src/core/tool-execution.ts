@@ -0,0 +1,142 @@
+import type {
+  ArgsRepair,
+  ArgsRepairProvenance,
+  JsonObject,
+  ToolCallRecord,
+  ToolErrorInfo,
+  ToolExecutionContext,
+} from "../contracts";
+import { throwIfAborted, ToolExecutionError } from "../errors";
+import type { ToolRegistry } from "../tool-registry";
+import type { RunEventListener } from "./events";
+
+export interface ResolvedToolCall {
+  callId: string;
+  toolName: string;
+  args: JsonObject;
+  repaired: ArgsRepair;
+  repair?: ArgsRepairProvenance;
+  repairRounds?: number;
+  /** Set when the args never validated; the call is answered with this error and not run. */
+  validationError?: ToolErrorInfo;
+}
+
+export interface ExecutedToolCall extends ResolvedToolCall {
+  result: unknown;
+  error?: ToolErrorInfo;
+}
+
+/**
+ * Runs each call; a tool that throws yields an `error` entry instead of failing
+ * the run, so the model can see what went wrong and try again.
+ */
+export async function executeToolCalls(
+  registry: ToolRegistry,
+  calls: ResolvedToolCall[],
+  concurrent: boolean,
+  signal?: AbortSignal,
+  onEvent?: RunEventListener,
+): Promise<ExecutedToolCall[]> {
+  const now = new Date();
+  const run = async (call: ResolvedToolCall): Promise<ExecutedToolCall> =>
+    call.validationError
+      ? { ...call, result: undefined, error: call.validationError }
+      : {
+          ...call,
+          ...(await tryExecuteTool(registry, call.toolName, call.args, { now, signal }, onEvent)),
+        };
+
+  if (concurrent) {
+    return Promise.all(calls.map(run));
+  }
+
+  const executed: ExecutedToolCall[] = [];
+  for (const call of calls) {
+    executed.push(await run(call));
+  }
+  return executed;
+}
+
+/** Runs one tool, wrapping anything it throws in `ToolExecutionError`. */
+export async function executeTool(
+  registry: ToolRegistry,
+  toolName: string,
+  args: JsonObject,
+  context: ToolExecutionContext,
+  onEvent?: RunEventListener,
+): Promise<unknown> {
+  throwIfAborted(context.signal);
+  const startedAt = Date.now();
+  try {
+    const result = await registry.execute(toolName, args, context);
+    onEvent?.({
+      type: "tool_executed",
+      toolName,
+      args,
+      result,
+      durationMs: Date.now() - startedAt,
+    });
+    return result;
+  } catch (error) {
+    throwIfAborted(context.signal);
+    const failure = new ToolExecutionError(toolName, error);
+    onEvent?.({
+      type: "tool_executed",
+      toolName,
+      args,
+      result: undefined,
+      error: toToolErrorInfo(failure),
+      durationMs: Date.now() - startedAt,
+    });
+    throw failure;
+  }
+}
+
+/** Like `executeTool`, but reports tool failures as `error` rather than throwing. */
+export async function tryExecuteTool(
+  registry: ToolRegistry,
+  toolName: string,
+  args: JsonObject,
+  context: ToolExecutionContext,
+  onEvent?: RunEventListener,
+): Promise<{ result: unknown; error?: ToolErrorInfo }> {
+  try {
+    return { result: await executeTool(registry, toolName, args, context, onEvent) };
+  } catch (error) {
+    if (!(error instanceof ToolExecutionError)) {
+      throw error;
+    }
+    return { result: undefined, error: toToolErrorInfo(error) };
+  }
+}
+
+export function toToolCallRecord(call: ExecutedToolCall): ToolCallRecord {
+  return {
+    toolName: call.toolName,
+    args: call.args,
+    result: call.result,
+    repaired: call.repaired,
+    ...(call.repair ? { repair: call.repair } : {}),
+    ...(call.repairRounds ? { repairRounds: call.repairRounds } : {}),
+    callId: call.callId,
+    ...(call.error ? { error: call.error } : {}),
+  };
+}
+
+/** The result, or `{ error }` for a failed call; used where a single value is shown. */
+export function toolOutcome(call: { result: unknown; error?: ToolErrorInfo }): unknown {
+  return call.error ? { error: call.error } : call.result;
+}
+
+/** Function-response payload for a call: `{ result }`, or `{ error: { message, type } }`. */
+export function toolResponse(call: { result: unknown; error?: ToolErrorInfo }): JsonObject {
+  return call.error ? { error: call.error } : { result: call.result };
+}
+
+/** The tool's own message and class name, without the `Tool 'x' failed:` prefix. */
+export function toToolErrorInfo(error: ToolExecutionError): ToolErrorInfo {
+  const cause = error.cause;
+  return cause instanceof Error
+    ? { message: cause.message, type: cause.name }
+    : { message: String(cause), type: typeof cause };
+}
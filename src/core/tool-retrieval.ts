@@ -0,0 +1,131 @@
+import type { ToolRegistry } from "../tool-registry";
+import { isJsonObject } from "./json-utils";
+
+export interface RankedTool {
+  name: string;
+  score: number;
+}
+
+/** What the retrieval stage exposed to a run. */
+export interface ToolRetrieval {
+  k: number;
+  /** Top-k tool names, best first. */
+  selected: string[];
+  /** Tools outside the top-k the model asked for, added to the set in that order. */
+  widened: string[];
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+/** Name tokens count this many times, so a name match outweighs a passing mention. */
+const NAME_WEIGHT = 3;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "how", "i", "in", "is",
+  "it", "me", "my", "of", "on", "or", "the", "this", "to", "what", "with", "you",
+]);
+
+/**
+ * Scores every tool against `query` with BM25 over its name, description, and
+ * args schema (property names, descriptions, enum values). Local and
+ * deterministic; ties keep registry order.
+ */
+export function rankTools(registry: ToolRegistry, query: string): RankedTool[] {
+  const documents = registry.describeForPrompt().map((tool) => ({
+    name: String(tool.name),
+    terms: toolTerms(tool),
+  }));
+  const averageLength =
+    documents.reduce((acc, doc) => acc + doc.terms.length, 0) / Math.max(1, documents.length);
+  const documentFrequency = new Map<string, number>();
+  for (const doc of documents) {
+    for (const term of new Set(doc.terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const queryTerms = [...new Set(tokenize(query))];
+  const ranked = documents.map((doc) => {
+    const counts = new Map<string, number>();
+    for (const term of doc.terms) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = counts.get(term) ?? 0;
+      if (frequency === 0) {
+        continue;
+      }
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      const norm = BM25_K1 * (1 - BM25_B + (BM25_B * doc.terms.length) / averageLength);
+      score += (idf * frequency * (BM25_K1 + 1)) / (frequency + norm);
+    }
+    return { name: doc.name, score: Math.round(score * 1000) / 1000 };
+  });
+
+  return ranked
+    .map((tool, index) => ({ tool, index }))
+    .sort((a, b) => b.tool.score - a.tool.score || a.index - b.index)
+    .map(({ tool }) => tool);
+}
+
+/** The `k` best tools for `query`. */
+export function retrieveTools(registry: ToolRegistry, query: string, k: number): ToolRetrieval {
+  return {
+    k,
+    selected: rankTools(registry, query)
+      .slice(0, Math.max(1, k))
+      .map((tool) => tool.name),
+    widened: [],
+  };
+}
+
+/** Lowercased word stems; splits snake_case and camelCase and drops stopwords. */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 0 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith("ies")) {
+    return `${token.slice(0, -3)}y`;
+  }
+  if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+function toolTerms(tool: Record<string, unknown>): string[] {
+  const nameTerms = tokenize(String(tool.name ?? ""));
+  return [
+    ...Array.from({ length: NAME_WEIGHT }, () => nameTerms).flat(),
+    ...tokenize(String(tool.description ?? "")),
+    ...schemaTerms(tool.argsSchema),
+  ];
+}
+
+function schemaTerms(schema: unknown): string[] {
+  if (!isJsonObject(schema)) {
+    return [];
+  }
+  const terms: string[] = [];
+  if (typeof schema.description === "string") {
+    terms.push(...tokenize(schema.description));
+  }
+  if (Array.isArray(schema.enum)) {
+    terms.push(...schema.enum.flatMap((value) => tokenize(String(value))));
+  }
+  if (isJsonObject(schema.properties)) {
+    for (const [key, property] of Object.entries(schema.properties)) {
+      terms.push(...tokenize(key), ...schemaTerms(property));
+    }
+  }
+  terms.push(...schemaTerms(schema.items));
+  return terms;
+}
@@ -0,0 +1,89 @@
+import type { GenerateContentParameters } from "@google/genai";
+
+import type {
+  JsonObject,
+  ModelClient,
+  ModelResult,
+  RunnerTraceStep,
+} from "../contracts";
+
+/** `fill` is select-then-fill's args call, kept apart from its tool-choice `intent` call. */
+export type LlmCallPurpose = "intent" | "fill" | "repair" | "finalize" | "fallback";
+
+export const LLM_CALL_PURPOSES: readonly LlmCallPurpose[] = [
+  "intent",
+  "fill",
+  "repair",
+  "finalize",
+  "fallback",
+];
+
+export interface LlmCallSummary {
+  calls: number;
+  /** Transient retries made inside the model client, summed over calls. */
+  retries: number;
+  latencyMs: Record<LlmCallPurpose, number>;
+}
+
+/** Appends a step stamped with `startedAt` (default now) and `endedAt` = now. */
+export function appendTraceStep(
+  trace: RunnerTraceStep[],
+  step: RunnerTraceStep,
+  startedAt: number = Date.now(),
+): void {
+  trace.push({ ...step, startedAt, endedAt: Date.now() });
+}
+
+/**
+ * Calls the model and records one `llm` step spanning the call, tagged with its
+ * purpose, latency, and client-side retry count.
+ */
+export async function generateWithTrace(
+  client: ModelClient,
+  trace: RunnerTraceStep[],
+  call: { purpose: LlmCallPurpose; detail: string; data?: JsonObject },
+  request: GenerateContentParameters,
+): Promise<ModelResult> {
+  const startedAt = Date.now();
+  const response = await client.generateContent(request);
+  const endedAt = Date.now();
+  trace.push({
+    kind: "llm",
+    detail: call.detail,
+    data: {
+      ...call.data,
+      purpose: call.purpose,
+      latencyMs: endedAt - startedAt,
+      retries: response.retries ?? 0,
+    },
+    startedAt,
+    endedAt,
+  });
+  return response;
+}
+
+export function summarizeLlmCalls(trace: RunnerTraceStep[]): LlmCallSummary {
+  const summary: LlmCallSummary = {
+    calls: 0,
+    retries: 0,
+    latencyMs: { intent: 0, fill: 0, repair: 0, finalize: 0, fallback: 0 },
+  };
+
+  for (const step of trace) {
+    const purpose = step.data?.purpose;
+    const latencyMs = step.data?.latencyMs;
+    if (
+      step.kind !== "llm" ||
+      typeof purpose !== "string" ||
+      !LLM_CALL_PURPOSES.includes(purpose as LlmCallPurpose) ||
+      typeof latencyMs !== "number"
+    ) {
+      continue;
+    }
+    summary.calls += 1;
+    summary.retries += typeof step.data?.retries === "number" ? step.data.retries : 0;
+    summary.latencyMs[purpose as LlmCallPurpose] += latencyMs;
+  }
+
+  return summary;
+}
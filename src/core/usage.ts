@@ -0,0 +1,64 @@
+import type { GenerateContentParameters } from "@google/genai";
+
+import type {
+  ModelClient,
+  ModelRequestOptions,
+  ModelResult,
+  RunnerTraceStep,
+  TokenUsage,
+} from "../contracts";
+import { appendTraceStep } from "./trace";
+
+export function emptyUsage(): TokenUsage {
+  return { promptTokens: 0, outputTokens: 0, thoughtTokens: 0, totalTokens: 0 };
+}
+
+export function addUsage(total: TokenUsage, usage: TokenUsage | undefined): TokenUsage {
+  if (!usage) {
+    return total;
+  }
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    thoughtTokens: total.thoughtTokens + usage.thoughtTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
+
+/** Records one LLM call's token counts as a `usage` trace step. */
+export function appendUsageTrace(
+  trace: RunnerTraceStep[],
+  step: string,
+  usage: TokenUsage | undefined,
+): void {
+  if (!usage) {
+    return;
+  }
+  appendTraceStep(trace, { kind: "usage", detail: `${step}_usage`, data: { ...usage } });
+}
+
+/**
+ * Sums usage over every call made through it, including calls from attempts that
+ * later failed, so the total reflects what was actually billed.
+ */
+export class UsageTrackingModelClient implements ModelClient {
+  private readonly inner: ModelClient;
+  private total = emptyUsage();
+
+  public constructor(inner: ModelClient) {
+    this.inner = inner;
+  }
+
+  public usage(): TokenUsage {
+    return { ...this.total };
+  }
+
+  public async generateContent(
+    request: GenerateContentParameters,
+    options?: ModelRequestOptions,
+  ): Promise<ModelResult> {
+    const result = await this.inner.generateContent(request, options);
+    this.total = addUsage(this.total, result.usage);
+    return result;
+  }
+}
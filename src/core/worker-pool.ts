@@ -0,0 +1,72 @@
+export interface WorkerPoolOptions<Task> {
+  /** Maximum tasks in flight overall. */
+  concurrency: number;
+  /** Groups tasks for per-group caps, e.g. by model id. */
+  groupOf?: (task: Task) => string;
+  /** Maximum tasks in flight per group; defaults to `concurrency`. */
+  groupLimit?: (group: string) => number;
+}
+
+/**
+ * Run `worker` over `tasks` with bounded concurrency. Tasks start in input order
+ * whenever their group has capacity, and results keep the input order.
+ */
+export async function runWorkerPool<Task, Result>(
+  tasks: Task[],
+  options: WorkerPoolOptions<Task>,
+  worker: (task: Task, index: number) => Promise<Result>,
+): Promise<Result[]> {
+  const concurrency = Math.max(1, Math.floor(options.concurrency));
+  const groupOf = options.groupOf ?? (() => "");
+  const groupLimit = (group: string): number =>
+    Math.max(1, Math.floor(options.groupLimit?.(group) ?? concurrency));
+
+  const results = new Array<Result>(tasks.length);
+  const pending = tasks.map((_, index) => index);
+  const running = new Map<string, number>();
+  let active = 0;
+  let failure: { error: unknown } | null = null;
+
+  return new Promise<Result[]>((resolve, reject) => {
+    const schedule = (): void => {
+      if (failure) {
+        if (active === 0) {
+          reject(failure.error);
+        }
+        return;
+      }
+      if (pending.length === 0 && active === 0) {
+        resolve(results);
+        return;
+      }
+
+      for (let cursor = 0; cursor < pending.length && active < concurrency; ) {
+        const index = pending[cursor] as number;
+        const task = tasks[index] as Task;
+        const group = groupOf(task);
+        const inGroup = running.get(group) ?? 0;
+        if (inGroup >= groupLimit(group)) {
+          cursor += 1;
+          continue;
+        }
+
+        pending.splice(cursor, 1);
+        active += 1;
+        running.set(group, inGroup + 1);
+        void (async () => {
+          try {
+            results[index] = await worker(task, index);
+          } catch (error) {
+            failure ??= { error };
+          } finally {
+            active -= 1;
+            running.set(group, (running.get(group) ?? 1) - 1);
+            schedule();
+          }
+        })();
+      }
+    };
+
+    schedule();
+  });
+}
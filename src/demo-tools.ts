@@ -251,6 +251,11 @@ export function createDemoToolRegistry(): ToolRegistry {
     execute: async (args) => {
       const startMs = Date.parse(`${args.startDate}T00:00:00Z`);
       const endMs = Date.parse(`${args.endDate}T00:00:00Z`);
+      if (Number.isNaN(startMs) || Number.isNaN(endMs)) {
+        throw new RangeError(
+          `Not a calendar date: ${Number.isNaN(startMs) ? args.startDate : args.endDate}`,
+        );
+      }
       const diffMs = Math.abs(endMs - startMs);
       const days = Math.floor(diffMs / (1000 * 60 * 60 * 24));
       return { days };
@@ -276,6 +281,9 @@ export function createDemoToolRegistry(): ToolRegistry {
       "Calculate percentage as (numerator / denominator) * 100 with configurable precision.",
     argsSchema: calculatePercentageArgsSchema,
     execute: async (args) => {
+      if (args.denominator === 0) {
+        throw new RangeError("denominator must not be zero");
+      }
       const percentage = (args.numerator / args.denominator) * 100;
       return {
         percentage: Number(percentage.toFixed(args.precision)),
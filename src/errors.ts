@@ -0,0 +1,199 @@
+import type { z } from "zod";
+
+export const FAILURE_CATEGORIES = [
+  "invalid_intent_json",
+  "unknown_tool",
+  "args_invalid_after_repair",
+  "invalid_args_json",
+  "dispatch_payload_invalid",
+  "timeout",
+  "rate_limited",
+  "transport_error",
+  "max_turns_exhausted",
+  "empty_response",
+  "tool_execution_error",
+  "aborted",
+  "unknown",
+] as const;
+
+/** Stable failure taxonomy used for benchmark records and aggregates. */
+export type FailureCategory = (typeof FAILURE_CATEGORIES)[number];
+
+export interface PlaygroundErrorOptions {
+  cause?: unknown;
+  /** Whether another attempt can plausibly succeed; defaults to true. */
+  recoverable?: boolean;
+}
+
+export class PlaygroundError extends Error {
+  public readonly category: FailureCategory;
+  public readonly recoverable: boolean;
+
+  public constructor(
+    category: FailureCategory,
+    message: string,
+    options: PlaygroundErrorOptions = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.category = category;
+    this.recoverable = options.recoverable ?? true;
+  }
+}
+
+/** The model API call itself failed (network, HTTP status, or SDK error). */
+export class ModelTransportError extends PlaygroundError {
+  /** HTTP status when the SDK reported one. */
+  public readonly status: number | undefined;
+
+  public constructor(
+    message: string,
+    options: PlaygroundErrorOptions & { status?: number; category?: FailureCategory } = {},
+  ) {
+    super(options.category ?? "transport_error", message, options);
+    this.status = options.status;
+  }
+}
+
+export class RateLimitError extends ModelTransportError {
+  /** Server-suggested wait before retrying, when the response carried one. */
+  public readonly retryAfterMs: number | undefined;
+
+  public constructor(
+    message: string,
+    options: PlaygroundErrorOptions & { status?: number; retryAfterMs?: number } = {},
+  ) {
+    super(message, { ...options, category: "rate_limited" });
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class RequestTimeoutError extends ModelTransportError {
+  public readonly timeoutMs: number;
+
+  public constructor(timeoutMs: number) {
+    super(`Gemini request timed out after ${timeoutMs}ms`, { category: "timeout" });
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** Model output meant to be intent or final-response JSON did not parse or validate. */
+export class IntentParseError extends PlaygroundError {
+  public constructor(message: string, options?: PlaygroundErrorOptions) {
+    super("invalid_intent_json", message, options);
+  }
+}
+
+export class UnknownToolError extends PlaygroundError {
+  public readonly toolName: string | undefined;
+
+  public constructor(toolName: string | undefined) {
+    super("unknown_tool", `Model requested unknown tool: ${toolName ?? "undefined"}`);
+    this.toolName = toolName;
+  }
+}
+
+/** Tool args still fail the tool schema once every repair available to the strategy ran. */
+export class ToolArgsValidationError extends PlaygroundError {
+  public readonly toolName: string;
+  public readonly issues: z.core.$ZodIssue[];
+
+  public constructor(toolName: string, message: string, issues: z.core.$ZodIssue[] = []) {
+    super("args_invalid_after_repair", message);
+    this.toolName = toolName;
+    this.issues = issues;
+  }
+}
+
+/** Model output meant to be a tool's args object did not parse, even with jsonrepair. */
+export class ToolArgsParseError extends PlaygroundError {
+  public readonly toolName: string;
+
+  public constructor(toolName: string, message: string, options?: PlaygroundErrorOptions) {
+    super("invalid_args_json", message, options);
+    this.toolName = toolName;
+  }
+}
+
+export class DispatchPayloadError extends PlaygroundError {
+  public constructor(message: string, options?: PlaygroundErrorOptions) {
+    super("dispatch_payload_invalid", message, options);
+  }
+}
+
+export class MaxTurnsExceededError extends PlaygroundError {
+  public readonly maxTurns: number;
+
+  public constructor(maxTurns: number) {
+    super("max_turns_exhausted", `No final text response after ${maxTurns} tool turn(s).`);
+    this.maxTurns = maxTurns;
+  }
+}
+
+export class EmptyResponseError extends PlaygroundError {
+  public constructor(message: string) {
+    super("empty_response", message);
+  }
+}
+
+/** Tools are deterministic here, so re-running the strategy will not fix this. */
+export class ToolExecutionError extends PlaygroundError {
+  public readonly toolName: string;
+
+  public constructor(toolName: string, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super("tool_execution_error", `Tool '${toolName}' failed: ${reason}`, {
+      cause,
+      recoverable: false,
+    });
+    this.toolName = toolName;
+  }
+}
+
+/** The run was cancelled through its `AbortSignal`. */
+export class RunAbortedError extends PlaygroundError {
+  public constructor(reason?: unknown) {
+    super("aborted", "Run aborted", { cause: reason, recoverable: false });
+  }
+}
+
+/** Throws `RunAbortedError` when `signal` has fired. */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new RunAbortedError(signal.reason);
+  }
+}
+
+/** Untyped errors (e.g. from custom clients) stay retryable, as before the hierarchy existed. */
+export function isRecoverableError(error: unknown): boolean {
+  return error instanceof PlaygroundError ? error.recoverable : true;
+}
+
+/**
+ * Category for any thrown value. Follows `cause` chains (e.g. the last attempt
+ * behind a retry wrapper) and falls back to message matching for transport errors.
+ */
+export function classifyError(error: unknown): FailureCategory {
+  if (error instanceof PlaygroundError) {
+    return error.category;
+  }
+  if (error instanceof Error && error.cause !== undefined) {
+    const fromCause = classifyError(error.cause);
+    if (fromCause !== "unknown") {
+      return fromCause;
+    }
+  }
+
+  const message = (error instanceof Error ? error.message : String(error)).toUpperCase();
+  if (message.includes("TIMED OUT") || message.includes("DEADLINE_EXCEEDED")) {
+    return "timeout";
+  }
+  if (
+    message.includes("RESOURCE_EXHAUSTED") ||
+    message.includes("RATE_LIMIT") ||
+    message.includes("\"CODE\":429")
+  ) {
+    return "rate_limited";
+  }
+  return "unknown";
+}
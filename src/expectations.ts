@@ -0,0 +1,199 @@
+import type { JsonObject, RunnerResult, ToolCallRecord } from "./contracts";
+import { isJsonObject } from "./core/json-utils";
+
+export type ValueMatchMode = "exact" | "partial";
+
+export interface ToolArgsExpectation {
+  toolName: string;
+  args: JsonObject;
+  /** `partial` (default) only checks the listed keys; `exact` also rejects extra keys. */
+  match?: ValueMatchMode;
+  /** Absolute tolerance for numeric comparisons. */
+  tolerance?: number;
+}
+
+export interface ToolResultExpectation {
+  toolName: string;
+  result: unknown;
+  match?: ValueMatchMode;
+  tolerance?: number;
+}
+
+export type FinalTextExpectation =
+  | { type: "contains"; value: string; caseSensitive?: boolean }
+  | { type: "regex"; pattern: string; flags?: string }
+  | { type: "number"; value: number; tolerance?: number };
+
+export interface PresetExpectations {
+  /** Tool names that must each be called at least once. */
+  requiredTools?: string[];
+  /** `ordered` requires the tools to appear in the given order (other calls may interleave). */
+  toolOrder?: "ordered" | "unordered";
+  toolArgs?: ToolArgsExpectation[];
+  toolResults?: ToolResultExpectation[];
+  finalText?: FinalTextExpectation[];
+}
+
+export interface ExpectationOutcome {
+  passed: boolean;
+  failures: string[];
+}
+
+const DEFAULT_TOLERANCE = 1e-6;
+
+export function evaluateExpectations(
+  expectations: PresetExpectations,
+  result: Pick<RunnerResult, "finalText" | "toolCalls">,
+): ExpectationOutcome {
+  const failures: string[] = [
+    ...checkRequiredTools(expectations, result.toolCalls),
+    ...(expectations.toolArgs ?? []).flatMap((item) => checkToolArgs(item, result.toolCalls)),
+    ...(expectations.toolResults ?? []).flatMap((item) =>
+      checkToolResult(item, result.toolCalls),
+    ),
+    ...(expectations.finalText ?? []).flatMap((item) =>
+      checkFinalText(item, result.finalText),
+    ),
+  ];
+
+  return { passed: failures.length === 0, failures };
+}
+
+export function hasExpectations(
+  expectations: PresetExpectations | undefined,
+): expectations is PresetExpectations {
+  if (!expectations) {
+    return false;
+  }
+  return (
+    (expectations.requiredTools?.length ?? 0) > 0 ||
+    (expectations.toolArgs?.length ?? 0) > 0 ||
+    (expectations.toolResults?.length ?? 0) > 0 ||
+    (expectations.finalText?.length ?? 0) > 0
+  );
+}
+
+export function matchesExpectedValue(
+  actual: unknown,
+  expected: unknown,
+  mode: ValueMatchMode = "partial",
+  tolerance = DEFAULT_TOLERANCE,
+): boolean {
+  if (typeof expected === "number") {
+    return typeof actual === "number" && Math.abs(actual - expected) <= tolerance;
+  }
+
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, index) =>
+        matchesExpectedValue(actual[index], item, mode, tolerance),
+      )
+    );
+  }
+
+  if (isJsonObject(expected)) {
+    if (!isJsonObject(actual)) {
+      return false;
+    }
+    if (mode === "exact" && Object.keys(actual).length !== Object.keys(expected).length) {
+      return false;
+    }
+    return Object.entries(expected).every(
+      ([key, value]) =>
+        key in actual && matchesExpectedValue(actual[key], value, mode, tolerance),
+    );
+  }
+
+  return actual === expected;
+}
+
+function checkRequiredTools(
+  expectations: PresetExpectations,
+  calls: ToolCallRecord[],
+): string[] {
+  const required = expectations.requiredTools ?? [];
+  const called = calls.map((call) => call.toolName);
+
+  const missing = required.filter((name) => !called.includes(name));
+  if (missing.length > 0) {
+    return [`missing tool calls: ${missing.join(", ")}`];
+  }
+
+  if (expectations.toolOrder === "ordered") {
+    let cursor = 0;
+    for (const name of called) {
+      if (name === required[cursor]) {
+        cursor += 1;
+      }
+    }
+    if (cursor < required.length) {
+      return [`tools called out of order: expected ${required.join(" -> ")}, got ${called.join(" -> ")}`];
+    }
+  }
+
+  return [];
+}
+
+function checkToolArgs(expectation: ToolArgsExpectation, calls: ToolCallRecord[]): string[] {
+  const matched = callsFor(expectation.toolName, calls).some((call) =>
+    matchesExpectedValue(
+      call.args,
+      expectation.args,
+      expectation.match,
+      expectation.tolerance,
+    ),
+  );
+  return matched
+    ? []
+    : [`no ${expectation.toolName} call with args ${JSON.stringify(expectation.args)}`];
+}
+
+function checkToolResult(
+  expectation: ToolResultExpectation,
+  calls: ToolCallRecord[],
+): string[] {
+  const matched = callsFor(expectation.toolName, calls).some((call) =>
+    matchesExpectedValue(
+      call.result,
+      expectation.result,
+      expectation.match,
+      expectation.tolerance,
+    ),
+  );
+  return matched
+    ? []
+    : [`no ${expectation.toolName} call with result ${JSON.stringify(expectation.result)}`];
+}
+
+function checkFinalText(expectation: FinalTextExpectation, text: string): string[] {
+  if (expectation.type === "contains") {
+    const found = expectation.caseSensitive
+      ? text.includes(expectation.value)
+      : text.toLowerCase().includes(expectation.value.toLowerCase());
+    return found ? [] : [`final text does not contain "${expectation.value}"`];
+  }
+
+  if (expectation.type === "regex") {
+    const pattern = new RegExp(expectation.pattern, expectation.flags);
+    return pattern.test(text) ? [] : [`final text does not match /${expectation.pattern}/`];
+  }
+
+  const tolerance = expectation.tolerance ?? DEFAULT_TOLERANCE;
+  const found = extractNumbers(text).some(
+    (value) => Math.abs(value - expectation.value) <= tolerance,
+  );
+  return found ? [] : [`final text does not mention ${expectation.value}`];
+}
+
+function callsFor(toolName: string, calls: ToolCallRecord[]): ToolCallRecord[] {
+  return calls.filter((call) => call.toolName === toolName);
+}
+
+function extractNumbers(text: string): number[] {
+  const matches = text.match(/-?\d[\d,]*(?:\.\d+)?/g) ?? [];
+  return matches
+    .map((value) => Number(value.replace(/,/g, "")))
+    .filter((value) => Number.isFinite(value));
+}
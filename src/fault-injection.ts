@@ -0,0 +1,293 @@
+import { createHash } from "node:crypto";
+import type { GenerateContentParameters } from "@google/genai";
+
+import { hashModelRequest } from "./cassette-client";
+
+import type {
+  JsonObject,
+  ModelClient,
+  ModelFunctionCall,
+  ModelRequestOptions,
+  ModelResult,
+} from "./contracts";
+import { isJsonObject } from "./core/json-utils";
+import { createSeededRandom, type RandomSource } from "./core/random";
+import { ModelTransportError, RateLimitError } from "./errors";
+
+export const FAULT_KINDS = [
+  "truncate",
+  "markdown-fence",
+  "alias-keys",
+  "stringify-numbers",
+  "drop-function-calls",
+  "unknown-tool",
+  "rate-limit",
+  "unavailable",
+] as const;
+
+export type FaultKind = (typeof FAULT_KINDS)[number];
+
+export type FaultProfile = Partial<Record<FaultKind, number>>;
+
+export interface FaultInjectionOptions {
+  profile: FaultProfile;
+  seed?: number;
+}
+
+export function parseFaultProfile(raw: string): FaultProfile {
+  const profile: FaultProfile = {};
+
+  for (const token of raw.split(",")) {
+    const trimmed = token.trim();
+    if (trimmed.length === 0) {
+      continue;
+    }
+
+    const [name, rateText] = trimmed.split(":");
+    if (!name || !FAULT_KINDS.includes(name as FaultKind)) {
+      throw new Error(
+        `Unknown fault '${name ?? trimmed}'. Expected one of: ${FAULT_KINDS.join(", ")}.`,
+      );
+    }
+
+    const rate = rateText === undefined ? 1 : Number(rateText);
+    if (!Number.isFinite(rate) || rate < 0 || rate > 1) {
+      throw new Error(`Fault rate for '${name}' must be between 0 and 1.`);
+    }
+
+    profile[name as FaultKind] = rate;
+  }
+
+  return profile;
+}
+
+/**
+ * Rolls faults from a generator seeded per request (seed, request hash, and how
+ * often that request was seen), so placement does not depend on the order
+ * concurrent runs reach the client.
+ */
+export class FaultInjectingModelClient implements ModelClient {
+  private readonly inner: ModelClient;
+  private readonly profile: FaultProfile;
+  private readonly seed: number;
+  private readonly counts = new Map<FaultKind, number>();
+  private readonly seen = new Map<string, number>();
+
+  public constructor(inner: ModelClient, options: FaultInjectionOptions) {
+    this.inner = inner;
+    this.profile = options.profile;
+    this.seed = options.seed ?? 1;
+  }
+
+  public injectedCounts(): FaultProfile {
+    return Object.fromEntries(this.counts.entries());
+  }
+
+  public async generateContent(
+    request: GenerateContentParameters,
+    options?: ModelRequestOptions,
+  ): Promise<ModelResult> {
+    // Roll every fault up front so the random sequence does not depend on response shape.
+    const random = this.requestRandom(request);
+    const rolled = FAULT_KINDS.filter((kind) => {
+      const rate = this.profile[kind] ?? 0;
+      const value = random();
+      return rate > 0 && value < rate;
+    });
+
+    if (rolled.includes("rate-limit")) {
+      this.count("rate-limit");
+      throw new RateLimitError(
+        JSON.stringify({
+          error: {
+            code: 429,
+            message: "Injected fault: resource exhausted. Please retry in 1s.",
+            status: "RESOURCE_EXHAUSTED",
+          },
+        }),
+        { status: 429, retryAfterMs: 1_000 },
+      );
+    }
+    if (rolled.includes("unavailable")) {
+      this.count("unavailable");
+      throw new ModelTransportError(
+        JSON.stringify({
+          error: {
+            code: 503,
+            message: "Injected fault: the model is overloaded.",
+            status: "SERVICE_UNAVAILABLE",
+          },
+        }),
+        { status: 503 },
+      );
+    }
+
+    let result = await this.inner.generateContent(request, options);
+    for (const kind of rolled) {
+      const next = applyFault(kind, result);
+      if (next) {
+        this.count(kind);
+        result = next;
+      }
+    }
+    return result;
+  }
+
+  // A retried request counts as a new occurrence, so it rolls afresh.
+  private requestRandom(request: GenerateContentParameters): RandomSource {
+    const hash = hashModelRequest(request);
+    const occurrence = this.seen.get(hash) ?? 0;
+    this.seen.set(hash, occurrence + 1);
+    const digest = createHash("sha256").update(`${this.seed}:${hash}:${occurrence}`).digest();
+    return createSeededRandom(digest.readUInt32LE(0));
+  }
+
+  private count(kind: FaultKind): void {
+    this.counts.set(kind, (this.counts.get(kind) ?? 0) + 1);
+  }
+}
+
+function applyFault(kind: FaultKind, result: ModelResult): ModelResult | null {
+  if (kind === "truncate") {
+    if (result.text.length < 2) {
+      return null;
+    }
+    return { ...result, text: result.text.slice(0, Math.ceil(result.text.length / 2)) };
+  }
+
+  if (kind === "markdown-fence") {
+    if (result.text.trim().length === 0) {
+      return null;
+    }
+    return { ...result, text: `\`\`\`json\n${result.text}\n\`\`\`` };
+  }
+
+  if (kind === "drop-function-calls") {
+    if (result.functionCalls.length === 0) {
+      return null;
+    }
+    return { ...result, functionCalls: [] };
+  }
+
+  if (kind === "alias-keys") {
+    return mutateArgs(result, (args) => renameKeys(args));
+  }
+
+  if (kind === "stringify-numbers") {
+    return mutateArgs(result, (args) => stringifyNumbers(args) as JsonObject);
+  }
+
+  if (kind === "unknown-tool") {
+    return mutateToolName(result);
+  }
+
+  return null;
+}
+
+function mutateArgs(
+  result: ModelResult,
+  mutate: (args: JsonObject) => JsonObject,
+): ModelResult | null {
+  if (result.functionCalls.length > 0) {
+    return {
+      ...result,
+      functionCalls: result.functionCalls.map((call) => ({
+        ...call,
+        args: isJsonObject(call.args) ? mutatePayloadArgs(call.args, mutate) : call.args,
+      })),
+    };
+  }
+
+  const parsed = tryParseObject(result.text);
+  if (!parsed) {
+    return null;
+  }
+  return { ...result, text: JSON.stringify(mutatePayloadArgs(parsed, mutate)) };
+}
+
+// Payloads are native args, structured intents ({args}), or dispatch calls ({argumentsJson}).
+function mutatePayloadArgs(
+  payload: JsonObject,
+  mutate: (args: JsonObject) => JsonObject,
+): JsonObject {
+  if (isJsonObject(payload.args)) {
+    return { ...payload, args: mutate(payload.args) };
+  }
+
+  if (typeof payload.argumentsJson === "string") {
+    const inner = tryParseObject(payload.argumentsJson);
+    if (inner) {
+      return { ...payload, argumentsJson: JSON.stringify(mutate(inner)) };
+    }
+    return payload;
+  }
+
+  return mutate(payload);
+}
+
+function mutateToolName(result: ModelResult): ModelResult | null {
+  if (result.functionCalls.length > 0) {
+    return {
+      ...result,
+      functionCalls: result.functionCalls.map((call): ModelFunctionCall => {
+        if (isJsonObject(call.args) && typeof call.args.toolName === "string") {
+          return {
+            ...call,
+            args: { ...call.args, toolName: unknownToolName(call.args.toolName) },
+          };
+        }
+        return { ...call, name: unknownToolName(call.name ?? "tool") };
+      }),
+    };
+  }
+
+  const parsed = tryParseObject(result.text);
+  if (!parsed || typeof parsed.toolName !== "string") {
+    return null;
+  }
+  return {
+    ...result,
+    text: JSON.stringify({ ...parsed, toolName: unknownToolName(parsed.toolName) }),
+  };
+}
+
+function unknownToolName(name: string): string {
+  return `${name}_v2`;
+}
+
+function renameKeys(args: JsonObject): JsonObject {
+  const output: JsonObject = {};
+  for (const [key, value] of Object.entries(args)) {
+    output[aliasKey(key)] = value;
+  }
+  return output;
+}
+
+function aliasKey(key: string): string {
+  const snake = key.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toLowerCase();
+  return snake !== key ? snake : `${key}Value`;
+}
+
+function stringifyNumbers(value: unknown): unknown {
+  if (typeof value === "number") {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => stringifyNumbers(item));
+  }
+  if (isJsonObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, stringifyNumbers(item)]),
+    );
+  }
+  return value;
+}
+
+function tryParseObject(text: string): JsonObject | null {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return isJsonObject(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
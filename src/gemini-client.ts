@@ -1,9 +1,27 @@
 import {
+  ApiError,
   GoogleGenAI,
   type GenerateContentParameters,
+  type GenerateContentResponse,
+  type Part,
 } from "@google/genai";
 
-import type { ModelClient, ModelResult } from "./contracts";
+import type {
+  ModelClient,
+  ModelFunctionCall,
+  ModelRequestOptions,
+  ModelResult,
+  ModelStreamChunk,
+  TokenUsage,
+} from "./contracts";
+import {
+  ModelTransportError,
+  PlaygroundError,
+  RateLimitError,
+  RequestTimeoutError,
+  RunAbortedError,
+  throwIfAborted,
+} from "./errors";
 
 const DEFAULT_REQUEST_TIMEOUT_MS = 45_000;
 const MAX_TRANSIENT_RETRIES = 2;
@@ -19,8 +37,13 @@ export class GoogleModelClient implements ModelClient {
 
   public async generateContent(
     request: GenerateContentParameters,
+    options: ModelRequestOptions = {},
   ): Promise<ModelResult> {
-    const response = await this.generateWithRetry(request);
+    const { value: response, retries } = await this.callWithRetry(
+      request,
+      options.signal,
+      (sdkRequest) => this.ai.models.generateContent(sdkRequest),
+    );
 
     return {
       text: extractTextWithoutSdkWarnings(response),
@@ -30,35 +53,101 @@ export class GoogleModelClient implements ModelClient {
         name: call.name,
         args: call.args,
       })),
+      usage: extractUsage(response),
+      retries,
+      raw: response,
+    };
+  }
+
+  /**
+   * Only opening the stream is retried; a failure after chunks were yielded is
+   * surfaced as-is since the caller has already seen partial output.
+   */
+  public async *generateContentStream(
+    request: GenerateContentParameters,
+    options: ModelRequestOptions = {},
+  ): AsyncGenerator<ModelStreamChunk, ModelResult> {
+    const { value: stream, retries } = await this.callWithRetry(
+      request,
+      options.signal,
+      (sdkRequest) => this.ai.models.generateContentStream(sdkRequest),
+    );
+
+    const parts: Part[] = [];
+    let usageMetadata: GenerateContentResponse["usageMetadata"];
+    while (true) {
+      let next: IteratorResult<GenerateContentResponse>;
+      try {
+        next = await withTimeout(stream.next(), this.requestTimeoutMs);
+      } catch (error) {
+        throwIfAborted(options.signal);
+        throw toModelTransportError(error);
+      }
+      if (next.done) {
+        break;
+      }
+
+      const chunkParts = next.value.candidates?.[0]?.content?.parts ?? [];
+      parts.push(...chunkParts);
+      usageMetadata = next.value.usageMetadata ?? usageMetadata;
+      yield {
+        text: extractTextWithoutSdkWarnings({ candidates: [{ content: { parts: chunkParts } }] }),
+        thought: chunkParts
+          .filter((part) => part.thought && typeof part.text === "string")
+          .map((part) => part.text ?? "")
+          .join(""),
+        functionCalls: extractFunctionCalls(chunkParts),
+      };
+    }
+
+    // Same shape as a unary response so response-utils can replay the model turn.
+    const response = { candidates: [{ content: { role: "model", parts } }], usageMetadata };
+    const thought = parts
+      .filter((part) => part.thought && typeof part.text === "string")
+      .map((part) => part.text ?? "")
+      .join("")
+      .trim();
+    return {
+      text: extractTextWithoutSdkWarnings(response),
+      thoughts: thought.length > 0 ? [thought] : [],
+      functionCalls: extractFunctionCalls(parts),
+      usage: extractUsage(response),
+      retries,
       raw: response,
     };
   }
 
-  private async generateWithRetry(
+  private async callWithRetry<T>(
     request: GenerateContentParameters,
-  ): Promise<Awaited<ReturnType<GoogleGenAI["models"]["generateContent"]>>> {
-    let lastError: unknown;
+    signal: AbortSignal | undefined,
+    call: (sdkRequest: GenerateContentParameters) => Promise<T>,
+  ): Promise<{ value: T; retries: number }> {
+    let lastError: ModelTransportError | undefined;
+
+    const sdkRequest = signal
+      ? { ...request, config: { ...request.config, abortSignal: signal } }
+      : request;
 
     for (let attempt = 0; attempt <= MAX_TRANSIENT_RETRIES; attempt += 1) {
+      throwIfAborted(signal);
       try {
-        return await withTimeout(
-          this.ai.models.generateContent(request),
-          this.requestTimeoutMs,
-          `Gemini request timed out after ${this.requestTimeoutMs}ms`,
-        );
+        const value = await withTimeout(call(sdkRequest), this.requestTimeoutMs);
+        return { value, retries: attempt };
       } catch (error) {
-        lastError = error;
-        const message = toErrorMessage(error);
-        if (!isRetryableGeminiError(message) || attempt === MAX_TRANSIENT_RETRIES) {
-          throw error;
+        throwIfAborted(signal);
+        lastError = toModelTransportError(error);
+        if (!isTransientError(lastError) || attempt === MAX_TRANSIENT_RETRIES) {
+          throw lastError;
         }
 
-        const delayMs = extractRetryDelayMs(message) ?? 2_000 * (attempt + 1);
-        await sleep(delayMs);
+        const delayMs =
+          (lastError instanceof RateLimitError ? lastError.retryAfterMs : undefined) ??
+          2_000 * (attempt + 1);
+        await sleep(delayMs, signal);
       }
     }
 
-    throw lastError instanceof Error ? lastError : new Error(String(lastError));
+    throw lastError ?? new ModelTransportError("Gemini request failed");
   }
 }
 
@@ -79,11 +168,10 @@ function resolveRequestTimeoutMs(): number {
 async function withTimeout<T>(
   promise: Promise<T>,
   timeoutMs: number,
-  timeoutMessage: string,
 ): Promise<T> {
   let timeoutId: ReturnType<typeof setTimeout> | undefined;
   const timeoutPromise = new Promise<never>((_, reject) => {
-    timeoutId = setTimeout(() => reject(new Error(timeoutMessage)), timeoutMs);
+    timeoutId = setTimeout(() => reject(new RequestTimeoutError(timeoutMs)), timeoutMs);
   });
 
   try {
@@ -102,17 +190,44 @@ function toErrorMessage(error: unknown): string {
   return String(error);
 }
 
-function isRetryableGeminiError(message: string): boolean {
+/** Maps SDK and network failures onto the transport error hierarchy. */
+export function toModelTransportError(error: unknown): ModelTransportError {
+  if (error instanceof ModelTransportError) {
+    return error;
+  }
+  if (error instanceof PlaygroundError) {
+    return new ModelTransportError(error.message, { cause: error });
+  }
+
+  const message = toErrorMessage(error);
+  const status = error instanceof ApiError ? error.status : statusFromMessage(message);
   const upper = message.toUpperCase();
+  if (status === 429 || upper.includes("RESOURCE_EXHAUSTED") || upper.includes("RATE_LIMIT")) {
+    return new RateLimitError(message, {
+      status,
+      retryAfterMs: extractRetryDelayMs(message) ?? undefined,
+      cause: error,
+    });
+  }
+
+  // Other 4xx responses (bad request, auth, not found) fail the same way every time.
+  const clientError = status !== undefined && status >= 400 && status < 500 && status !== 408;
+  return new ModelTransportError(message, { status, cause: error, recoverable: !clientError });
+}
+
+function isTransientError(error: ModelTransportError): boolean {
   return (
-    upper.includes("RESOURCE_EXHAUSTED") ||
-    upper.includes("RATE_LIMIT") ||
-    upper.includes("\"CODE\":429") ||
-    upper.includes("SERVICE_UNAVAILABLE") ||
-    upper.includes("\"CODE\":503")
+    error instanceof RateLimitError ||
+    error.status === 503 ||
+    error.message.toUpperCase().includes("SERVICE_UNAVAILABLE")
   );
 }
 
+function statusFromMessage(message: string): number | undefined {
+  const match = message.match(/"code"\s*:\s*(\d{3})/i);
+  return match?.[1] ? Number(match[1]) : undefined;
+}
+
 function extractRetryDelayMs(message: string): number | null {
   const retryInfoMatch = message.match(/"retryDelay":"(\d+)s"/i);
   if (retryInfoMatch?.[1]) {
@@ -133,8 +248,52 @@ function extractRetryDelayMs(message: string): number | null {
   return null;
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timeoutId);
+      reject(new RunAbortedError(signal?.reason));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function extractUsage(response: {
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}): TokenUsage | undefined {
+  const metadata = response.usageMetadata;
+  if (!metadata) {
+    return undefined;
+  }
+
+  const promptTokens = metadata.promptTokenCount ?? 0;
+  const outputTokens = metadata.candidatesTokenCount ?? 0;
+  const thoughtTokens = metadata.thoughtsTokenCount ?? 0;
+  return {
+    promptTokens,
+    outputTokens,
+    thoughtTokens,
+    totalTokens: metadata.totalTokenCount ?? promptTokens + outputTokens + thoughtTokens,
+  };
+}
+
+function extractFunctionCalls(parts: Part[]): ModelFunctionCall[] {
+  return parts
+    .filter((part) => part.functionCall !== undefined)
+    .map((part) => ({
+      id: part.functionCall?.id,
+      name: part.functionCall?.name,
+      args: part.functionCall?.args,
+    }));
 }
 
 function extractThoughtTexts(response: {
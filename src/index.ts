@@ -1,15 +1,25 @@
 export * from "./contracts";
 export * from "./gemini-client";
+export * from "./cassette-client";
+export * from "./fault-injection";
 export * from "./tool-registry";
 
 export * from "./runners/structured-json-runner";
 export * from "./runners/single-tool-router-runner";
 export * from "./runners/hybrid-repair-runner";
+export * from "./runners/select-then-fill-runner";
 
 export * from "./demo-tools";
+export * from "./expectations";
 export * from "./prompt-presets";
+export * from "./preset-loader";
+export * from "./strategy-registry";
 export * from "./strategy-runner";
 export * from "./benchmark";
+export * from "./benchmark-checkpoint";
+export * from "./benchmark-compare";
+export * from "./reports/benchmark-report";
+export * from "./reports/report-tables";
 export * from "./generation-settings";
 export * from "./model-catalog";
 export * from "./env";
@@ -0,0 +1,157 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { extname, join } from "node:path";
+import { z } from "zod";
+
+import type { PresetExpectations } from "./expectations";
+import { PROMPT_PRESETS, type PromptPreset } from "./prompt-presets";
+
+export interface PresetSources {
+  files?: string[];
+  dirs?: string[];
+}
+
+const PRESET_FILE_EXTENSIONS = new Set([".json", ".yaml", ".yml"]);
+
+const matchModeSchema = z.enum(["exact", "partial"]);
+
+const expectationsSchema: z.ZodType<PresetExpectations> = z.object({
+  requiredTools: z.array(z.string().min(1)).optional(),
+  toolOrder: z.enum(["ordered", "unordered"]).optional(),
+  toolArgs: z
+    .array(
+      z.object({
+        toolName: z.string().min(1),
+        args: z.record(z.string(), z.unknown()),
+        match: matchModeSchema.optional(),
+        tolerance: z.number().nonnegative().optional(),
+      }),
+    )
+    .optional(),
+  toolResults: z
+    .array(
+      z.object({
+        toolName: z.string().min(1),
+        result: z.unknown(),
+        match: matchModeSchema.optional(),
+        tolerance: z.number().nonnegative().optional(),
+      }),
+    )
+    .optional(),
+  finalText: z
+    .array(
+      z.discriminatedUnion("type", [
+        z.object({
+          type: z.literal("contains"),
+          value: z.string().min(1),
+          caseSensitive: z.boolean().optional(),
+        }),
+        z
+          .object({
+            type: z.literal("regex"),
+            pattern: z.string().min(1),
+            flags: z.string().optional(),
+          })
+          .refine((expectation) => isValidRegex(expectation.pattern, expectation.flags), {
+            message: "Invalid regular expression pattern or flags",
+          }),
+        z.object({
+          type: z.literal("number"),
+          value: z.number(),
+          tolerance: z.number().nonnegative().optional(),
+        }),
+      ]),
+    )
+    .optional(),
+});
+
+function isValidRegex(pattern: string, flags: string | undefined): boolean {
+  try {
+    new RegExp(pattern, flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const promptPresetSchema: z.ZodType<PromptPreset> = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  prompt: z.string().min(1),
+  description: z.string().default(""),
+  recommendedStrategy: z.string().min(1),
+  expectations: expectationsSchema.optional(),
+});
+
+// A file holds one preset, an array of presets, or `{ presets: [...] }`. All three
+// are normalized to an array first so issues point at the failing field.
+const presetFileSchema = z.preprocess((raw) => {
+  if (Array.isArray(raw)) {
+    return raw;
+  }
+  if (typeof raw === "object" && raw !== null && "presets" in raw) {
+    return raw.presets;
+  }
+  return [raw];
+}, z.array(promptPresetSchema));
+
+export function readPresetFile(path: string): PromptPreset[] {
+  const text = readFileSync(path, "utf8");
+  let raw: unknown;
+  try {
+    raw = extname(path).toLowerCase() === ".json" ? JSON.parse(text) : Bun.YAML.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not parse preset file ${path}: ${message}`);
+  }
+
+  const parsed = presetFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid preset file ${path}: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "root"}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+  return parsed.data;
+}
+
+/** Reads every .json/.yaml/.yml file under `dir` (recursively) in path order. */
+export function readPresetDir(dir: string): PromptPreset[] {
+  if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+    throw new Error(`Preset directory not found: ${dir}`);
+  }
+
+  return readdirSync(dir, { recursive: true, encoding: "utf8" })
+    .filter((entry) => PRESET_FILE_EXTENSIONS.has(extname(entry).toLowerCase()))
+    .sort()
+    .flatMap((entry) => readPresetFile(join(dir, entry)));
+}
+
+export function mergePromptPresets(
+  base: PromptPreset[],
+  extra: PromptPreset[],
+): PromptPreset[] {
+  const ids = new Set(base.map((preset) => preset.id));
+  for (const preset of extra) {
+    if (ids.has(preset.id)) {
+      throw new Error(`Duplicate preset id: ${preset.id}`);
+    }
+    ids.add(preset.id);
+  }
+  return [...base, ...extra];
+}
+
+/**
+ * Load external presets and return them after `base` (the bundled list by
+ * default) as a new array, for the CLI, TUI, and benchmark to share.
+ */
+export function loadPromptPresets(
+  sources: PresetSources,
+  base: PromptPreset[] = PROMPT_PRESETS,
+): PromptPreset[] {
+  const loaded = [
+    ...(sources.files ?? []).flatMap((path) => readPresetFile(path)),
+    ...(sources.dirs ?? []).flatMap((dir) => readPresetDir(dir)),
+  ];
+  return mergePromptPresets(base, loaded);
+}
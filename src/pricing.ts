@@ -0,0 +1,60 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+import type { TokenUsage } from "./contracts";
+
+export interface ModelPrice {
+  /** USD per million prompt tokens. */
+  inputPerMillionUsd: number;
+  /** USD per million output tokens; thought tokens are billed at this rate too. */
+  outputPerMillionUsd: number;
+}
+
+/** Prices keyed by model id, e.g. `gemini-2.5-flash`. */
+export type PriceTable = Record<string, ModelPrice>;
+
+const priceTableSchema = z.record(
+  z.string(),
+  z.object({
+    inputPerMillionUsd: z.number().nonnegative(),
+    outputPerMillionUsd: z.number().nonnegative(),
+  }),
+);
+
+export function loadPriceTable(path: string): PriceTable {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read price table ${path}: ${message}`);
+  }
+
+  const parsed = priceTableSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid price table ${path}: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "root"}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+  return parsed.data;
+}
+
+export function priceForModel(
+  table: PriceTable | undefined,
+  model: string,
+): ModelPrice | undefined {
+  if (!table) {
+    return undefined;
+  }
+  return table[model] ?? table[model.replace(/^models\//, "")];
+}
+
+export function estimateCostUsd(usage: TokenUsage, price: ModelPrice): number {
+  const cost =
+    (usage.promptTokens * price.inputPerMillionUsd +
+      (usage.outputTokens + usage.thoughtTokens) * price.outputPerMillionUsd) /
+    1_000_000;
+  return Math.round(cost * 1e8) / 1e8;
+}
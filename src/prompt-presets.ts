@@ -1,4 +1,5 @@
-import type { Strategy } from "./strategy-runner";
+import type { PresetExpectations } from "./expectations";
+import type { Strategy } from "./strategy-registry";
 
 export interface PromptPreset {
   id: string;
@@ -6,6 +7,8 @@ export interface PromptPreset {
   prompt: string;
   description: string;
   recommendedStrategy: Strategy;
+  /** Benchmark runs are scored against these; presets without them only report success. */
+  expectations?: PresetExpectations;
 }
 
 export const PROMPT_PRESETS: PromptPreset[] = [
@@ -16,6 +19,15 @@ export const PROMPT_PRESETS: PromptPreset[] = [
     prompt:
       "Use tools when needed: add 9, 12, and 30, then give me the uppercase word done.",
     recommendedStrategy: "single-tool-router",
+    expectations: {
+      requiredTools: ["sum_numbers", "to_uppercase"],
+      toolArgs: [{ toolName: "sum_numbers", args: { numbers: [9, 12, 30] } }],
+      toolResults: [{ toolName: "sum_numbers", result: { total: 51 } }],
+      finalText: [
+        { type: "number", value: 51 },
+        { type: "contains", value: "DONE", caseSensitive: true },
+      ],
+    },
   },
   {
     id: "timezone-check",
@@ -24,6 +36,10 @@ export const PROMPT_PRESETS: PromptPreset[] = [
     prompt:
       "What is the current time for Tokyo locale and explain in one sentence?",
     recommendedStrategy: "structured-json",
+    expectations: {
+      requiredTools: ["get_current_time"],
+      finalText: [{ type: "contains", value: "Tokyo" }],
+    },
   },
   {
     id: "temp-conversion",
@@ -32,6 +48,17 @@ export const PROMPT_PRESETS: PromptPreset[] = [
     prompt:
       "Convert 95 Fahrenheit to Celsius and also convert 0 Celsius to Fahrenheit.",
     recommendedStrategy: "hybrid-repair",
+    expectations: {
+      requiredTools: ["convert_temperature"],
+      toolResults: [
+        { toolName: "convert_temperature", result: { value: 35, unit: "C" } },
+        { toolName: "convert_temperature", result: { value: 32, unit: "F" } },
+      ],
+      finalText: [
+        { type: "number", value: 35 },
+        { type: "number", value: 32 },
+      ],
+    },
   },
   {
     id: "extract-emails",
@@ -40,6 +67,14 @@ export const PROMPT_PRESETS: PromptPreset[] = [
     prompt:
       "Extract unique emails from this text and summarize count: support@acme.io, test@acme.io, support@acme.io, hello@example.com.",
     recommendedStrategy: "structured-json",
+    expectations: {
+      requiredTools: ["extract_emails"],
+      toolResults: [{ toolName: "extract_emails", result: { count: 3 } }],
+      finalText: [
+        { type: "number", value: 3 },
+        { type: "contains", value: "hello@example.com" },
+      ],
+    },
   },
   {
     id: "multi-step-router",
@@ -48,6 +83,16 @@ export const PROMPT_PRESETS: PromptPreset[] = [
     prompt:
       "Use separate tool calls: first multiply 3, 4, and 5. Then uppercase the word shipped. Return one sentence.",
     recommendedStrategy: "single-tool-router",
+    expectations: {
+      requiredTools: ["multiply_numbers", "to_uppercase"],
+      toolOrder: "ordered",
+      toolArgs: [{ toolName: "multiply_numbers", args: { numbers: [3, 4, 5] } }],
+      toolResults: [{ toolName: "multiply_numbers", result: { product: 60 } }],
+      finalText: [
+        { type: "number", value: 60 },
+        { type: "contains", value: "SHIPPED", caseSensitive: true },
+      ],
+    },
   },
   {
     id: "markdown-report",
@@ -56,6 +101,19 @@ export const PROMPT_PRESETS: PromptPreset[] = [
     prompt:
       "Analyze this text for word stats and generate a slug title: 'Gemini tool reliability is improving quickly this quarter'.",
     recommendedStrategy: "hybrid-repair",
+    expectations: {
+      requiredTools: ["word_stats", "slugify_text"],
+      toolResults: [
+        { toolName: "word_stats", result: { words: 8 } },
+        {
+          toolName: "slugify_text",
+          result: { slug: "gemini-tool-reliability-is-improving-quickly-this-quarter" },
+        },
+      ],
+      finalText: [
+        { type: "contains", value: "gemini-tool-reliability-is-improving-quickly-this-quarter" },
+      ],
+    },
   },
   {
     id: "extract-number-sequence",
@@ -64,6 +122,12 @@ export const PROMPT_PRESETS: PromptPreset[] = [
     prompt:
       "Extract all numbers from this text with duplicates kept: release 1 had 2 regressions, release 2 had 0, and release 3 had 2.",
     recommendedStrategy: "structured-json",
+    expectations: {
+      requiredTools: ["extract_number_sequence"],
+      toolResults: [
+        { toolName: "extract_number_sequence", result: { numbers: [1, 2, 2, 0, 3, 2], count: 6 } },
+      ],
+    },
   },
   {
     id: "percentage-check",
@@ -72,6 +136,14 @@ export const PROMPT_PRESETS: PromptPreset[] = [
     prompt:
       "Use a tool to calculate percentage for 23 out of 40 with 1 decimal precision, then explain the result briefly.",
     recommendedStrategy: "hybrid-repair",
+    expectations: {
+      requiredTools: ["calculate_percentage"],
+      toolArgs: [
+        { toolName: "calculate_percentage", args: { numerator: 23, denominator: 40, precision: 1 } },
+      ],
+      toolResults: [{ toolName: "calculate_percentage", result: { percentage: 57.5 } }],
+      finalText: [{ type: "number", value: 57.5 }],
+    },
   },
   {
     id: "excerpt-then-uppercase",
@@ -80,5 +152,11 @@ export const PROMPT_PRESETS: PromptPreset[] = [
     prompt:
       "Use separate tool calls: first trim this sentence to max 24 chars with ellipsis: ' Gemini tool reliability benchmark output is now easier to compare '. Then uppercase the excerpt and return one sentence.",
     recommendedStrategy: "single-tool-router",
+    expectations: {
+      requiredTools: ["trim_and_excerpt", "to_uppercase"],
+      toolOrder: "ordered",
+      toolArgs: [{ toolName: "trim_and_excerpt", args: { maxLength: 24 } }],
+      finalText: [{ type: "contains", value: "GEMINI TOOL", caseSensitive: true }],
+    },
   },
 ];
@@ -0,0 +1,34 @@
+import type { BenchmarkResult } from "../benchmark";
+import { renderCsvReport } from "./csv-report";
+import { renderHtmlReport } from "./html-report";
+import { renderJunitReport } from "./junit-report";
+import { renderMarkdownReport } from "./markdown-report";
+
+export const REPORT_FORMATS = ["csv", "md", "html", "junit"] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export function parseReportFormat(raw: string): ReportFormat {
+  if (!REPORT_FORMATS.includes(raw as ReportFormat)) {
+    throw new Error(
+      `Unknown report format '${raw}'. Expected one of: ${REPORT_FORMATS.join(", ")}.`,
+    );
+  }
+  return raw as ReportFormat;
+}
+
+export function renderBenchmarkReport(
+  result: BenchmarkResult,
+  format: ReportFormat,
+): string {
+  if (format === "csv") {
+    return renderCsvReport(result);
+  }
+  if (format === "md") {
+    return renderMarkdownReport(result);
+  }
+  if (format === "html") {
+    return renderHtmlReport(result);
+  }
+  return renderJunitReport(result);
+}
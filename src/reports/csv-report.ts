@@ -0,0 +1,21 @@
+import type { BenchmarkResult } from "../benchmark";
+import { benchmarkReportTables, formatReportCell, type ReportCell } from "./report-tables";
+
+/** One CSV section per table, each introduced by a `# <table>` line. */
+export function renderCsvReport(result: BenchmarkResult): string {
+  return benchmarkReportTables(result)
+    .map((table) =>
+      [
+        `# ${table.id}`,
+        table.columns.map(csvField).join(","),
+        ...table.rows.map((row) => row.map(csvField).join(",")),
+      ].join("\n"),
+    )
+    .join("\n\n")
+    .concat("\n");
+}
+
+function csvField(value: ReportCell): string {
+  const text = formatReportCell(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,150 @@
+import { describeSignificantPairs, type BenchmarkResult } from "../benchmark";
+import {
+  benchmarkReportTables,
+  formatReportCell,
+  presetStrategyCells,
+  type HeatmapCell,
+  type ReportTable,
+} from "./report-tables";
+
+const STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+h1 { margin-bottom: 0.25rem; }
+.meta { color: #59636e; margin-bottom: 2rem; }
+table { border-collapse: collapse; margin-bottom: 2rem; font-size: 0.9rem; }
+th, td { border: 1px solid #d1d9e0; padding: 0.3rem 0.6rem; text-align: left; }
+th { background: #f6f8fa; }
+table.sortable th { cursor: pointer; user-select: none; }
+table.sortable th[data-dir="asc"]::after { content: " \\25B2"; }
+table.sortable th[data-dir="desc"]::after { content: " \\25BC"; }
+td.num { text-align: right; font-variant-numeric: tabular-nums; }
+td.heat { text-align: center; min-width: 6rem; }
+td.empty { background: #f6f8fa; color: #8c959f; text-align: center; }
+`;
+
+// Click a header to sort; numeric columns compare by data-value.
+const SCRIPT = `
+document.querySelectorAll("table.sortable").forEach((table) => {
+  table.querySelectorAll("th").forEach((th, column) => {
+    th.addEventListener("click", () => {
+      const dir = th.dataset.dir === "asc" ? "desc" : "asc";
+      table.querySelectorAll("th").forEach((other) => delete other.dataset.dir);
+      th.dataset.dir = dir;
+      const body = table.tBodies[0];
+      const rows = Array.from(body.rows);
+      rows.sort((a, b) => {
+        const x = a.cells[column], y = b.cells[column];
+        const nx = Number(x.dataset.value), ny = Number(y.dataset.value);
+        const cmp = x.dataset.value !== undefined && y.dataset.value !== undefined && !isNaN(nx) && !isNaN(ny)
+          ? nx - ny
+          : x.textContent.localeCompare(y.textContent);
+        return dir === "asc" ? cmp : -cmp;
+      });
+      rows.forEach((row) => body.appendChild(row));
+    });
+  });
+});
+`;
+
+/** Self-contained HTML page: no external assets, inline CSS and sort script. */
+export function renderHtmlReport(result: BenchmarkResult): string {
+  return [
+    "<!doctype html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    "<title>Benchmark report</title>",
+    `<style>${STYLE}</style>`,
+    "</head>",
+    "<body>",
+    "<h1>Benchmark report</h1>",
+    `<p class="meta">${html(result.startedAt)} &rarr; ${html(result.finishedAt)} &middot; ${result.totalRuns} runs</p>`,
+    renderSignificance(describeSignificantPairs(result.pairwise)),
+    "<h2>Success by preset &times; strategy</h2>",
+    renderHeatmap(presetStrategyCells(result.records)),
+    ...benchmarkReportTables(result).flatMap((table) => [
+      `<h2>${html(table.title)}</h2>`,
+      renderTable(table),
+    ]),
+    `<script>${SCRIPT}</script>`,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+function renderSignificance(lines: string[]): string {
+  if (lines.length === 0) {
+    return "";
+  }
+  return [
+    "<h2>Significant differences</h2>",
+    "<ul>",
+    ...lines.map((line) => `<li>${html(line)}</li>`),
+    "</ul>",
+  ].join("\n");
+}
+
+function renderTable(table: ReportTable): string {
+  const head = table.columns.map((column) => `<th>${html(column)}</th>`).join("");
+  const rows = table.rows.map((row) => {
+    const cells = row.map((value) => {
+      const text = html(formatReportCell(value));
+      return typeof value === "number"
+        ? `<td class="num" data-value="${value}">${text}</td>`
+        : `<td>${text}</td>`;
+    });
+    return `<tr>${cells.join("")}</tr>`;
+  });
+  return [
+    `<table class="sortable" id="${table.id}">`,
+    `<thead><tr>${head}</tr></thead>`,
+    `<tbody>\n${rows.join("\n")}\n</tbody>`,
+    "</table>",
+  ].join("\n");
+}
+
+function renderHeatmap(cells: HeatmapCell[]): string {
+  const presets = [...new Set(cells.map((cell) => cell.presetId))];
+  const strategies = [...new Set(cells.map((cell) => cell.strategy))].sort();
+  const byKey = new Map(cells.map((cell) => [`${cell.presetId}::${cell.strategy}`, cell]));
+
+  const head = ["preset", ...strategies].map((column) => `<th>${html(column)}</th>`).join("");
+  const rows = presets.map((presetId) => {
+    const tds = strategies.map((strategy) => {
+      const cell = byKey.get(`${presetId}::${strategy}`);
+      if (!cell || cell.totalRuns === 0) {
+        return '<td class="empty">&ndash;</td>';
+      }
+      const rate = cell.successRuns / cell.totalRuns;
+      const title = [
+        `${cell.successRuns}/${cell.totalRuns} succeeded`,
+        cell.scoredRuns > 0 ? `${cell.correctRuns}/${cell.scoredRuns} correct` : "",
+      ]
+        .filter((part) => part.length > 0)
+        .join(", ");
+      return `<td class="heat" style="background: ${heatColor(rate)}" title="${html(title)}">${(rate * 100).toFixed(0)}%</td>`;
+    });
+    return `<tr><td>${html(presetId)}</td>${tds.join("")}</tr>`;
+  });
+
+  return [
+    '<table id="heatmap">',
+    `<thead><tr>${head}</tr></thead>`,
+    `<tbody>\n${rows.join("\n")}\n</tbody>`,
+    "</table>",
+  ].join("\n");
+}
+
+// Red (0%) through yellow to green (100%).
+function heatColor(rate: number): string {
+  return `hsl(${Math.round(rate * 120)}, 70%, 75%)`;
+}
+
+function html(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
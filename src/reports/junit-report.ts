@@ -0,0 +1,93 @@
+import { strategyLabel, type BenchmarkResult, type BenchmarkRunRecord } from "../benchmark";
+
+/**
+ * One testsuite per model and one testcase per (strategy, preset) cell; a k sweep
+ * splits cells per `strategy@k`. A cell fails when any iteration threw or missed
+ * the preset's expectations.
+ */
+export function renderJunitReport(result: BenchmarkResult): string {
+  const suites = new Map<string, Map<string, BenchmarkRunRecord[]>>();
+  for (const record of result.records) {
+    const cells = suites.get(record.model) ?? new Map<string, BenchmarkRunRecord[]>();
+    const key = `${strategyLabel(record.strategy, record.toolTopK)}::${record.presetId}`;
+    cells.set(key, [...(cells.get(key) ?? []), record]);
+    suites.set(record.model, cells);
+  }
+
+  const cellLists = [...suites.values()].map((cells) => [...cells.values()]);
+  const totalTests = cellLists.reduce((acc, cells) => acc + cells.length, 0);
+  const totalFailures = cellLists.reduce((acc, cells) => acc + countFailedCells(cells), 0);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="benchmark" tests="${totalTests}" failures="${totalFailures}" time="${seconds(sumDuration(result.records))}">`,
+  ];
+
+  for (const [model, cells] of suites.entries()) {
+    const runs = [...cells.values()];
+    lines.push(
+      `  <testsuite name="${xml(model)}" tests="${runs.length}" failures="${countFailedCells(runs)}" time="${seconds(sumDuration(runs.flat()))}" timestamp="${xml(result.startedAt)}">`,
+    );
+
+    for (const records of runs) {
+      const first = records[0];
+      if (!first) {
+        continue;
+      }
+      const label = strategyLabel(first.strategy, first.toolTopK);
+      const name = `${label} / ${first.presetId}`;
+      const open = `    <testcase classname="${xml(`${model}.${label}`)}" name="${xml(name)}" time="${seconds(sumDuration(records))}"`;
+      const problems = cellFailures(records);
+      if (problems.length === 0) {
+        lines.push(`${open}/>`);
+        continue;
+      }
+      lines.push(
+        `${open}>`,
+        `      <failure message="${xml(`${problems.length}/${records.length} iterations failed`)}">${xml(problems.join("\n"))}</failure>`,
+        "    </testcase>",
+      );
+    }
+
+    lines.push("  </testsuite>");
+  }
+
+  lines.push("</testsuites>");
+  return `${lines.join("\n")}\n`;
+}
+
+function countFailedCells(cells: BenchmarkRunRecord[][]): number {
+  return cells.filter((records) => cellFailures(records).length > 0).length;
+}
+
+function cellFailures(records: BenchmarkRunRecord[]): string[] {
+  return records.flatMap((record) => {
+    if (!record.success) {
+      const category = record.errorCategory ? `[${record.errorCategory}] ` : "";
+      return [`iteration ${record.iteration}: ${category}${record.error ?? "run failed"}`];
+    }
+    if (record.correct === false) {
+      return [
+        `iteration ${record.iteration}: ${record.expectationFailures?.join("; ") ?? "expectations not met"}`,
+      ];
+    }
+    return [];
+  });
+}
+
+function sumDuration(records: BenchmarkRunRecord[]): number {
+  return records.reduce((acc, record) => acc + record.durationMs, 0);
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,34 @@
+import { describeSignificantPairs, type BenchmarkResult } from "../benchmark";
+import { benchmarkReportTables, formatReportCell, type ReportCell } from "./report-tables";
+
+export function renderMarkdownReport(result: BenchmarkResult): string {
+  const lines = [
+    "# Benchmark report",
+    "",
+    `- Started: ${result.startedAt}`,
+    `- Finished: ${result.finishedAt}`,
+    `- Total runs: ${result.totalRuns}`,
+  ];
+
+  const significant = describeSignificantPairs(result.pairwise);
+  if (significant.length > 0) {
+    lines.push("", "## Significant differences", "", ...significant.map((line) => `- ${line}`));
+  }
+
+  for (const table of benchmarkReportTables(result)) {
+    lines.push(
+      "",
+      `## ${table.title}`,
+      "",
+      `| ${table.columns.join(" | ")} |`,
+      `| ${table.columns.map(() => "---").join(" | ")} |`,
+      ...table.rows.map((row) => `| ${row.map(markdownCell).join(" | ")} |`),
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function markdownCell(value: ReportCell): string {
+  return formatReportCell(value).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
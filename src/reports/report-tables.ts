@@ -0,0 +1,280 @@
+import {
+  strategyLabel,
+  type BenchmarkAggregate,
+  type BenchmarkResult,
+  type BenchmarkRunRecord,
+} from "../benchmark";
+
+export type ReportCell = string | number | boolean | undefined;
+
+export interface ReportTable {
+  id: "records" | "aggregates" | "comparisons" | "pairwise";
+  title: string;
+  columns: string[];
+  rows: ReportCell[][];
+}
+
+export interface HeatmapCell {
+  presetId: string;
+  strategy: string;
+  totalRuns: number;
+  successRuns: number;
+  scoredRuns: number;
+  correctRuns: number;
+}
+
+/** Records, aggregates, comparisons, and pairwise tests as flat tables shared by every text format. */
+export function benchmarkReportTables(result: BenchmarkResult): ReportTable[] {
+  return [
+    {
+      id: "aggregates",
+      title: "Aggregates",
+      columns: [
+        "strategy",
+        "model",
+        "totalRuns",
+        "successRate",
+        "successRateLow",
+        "successRateHigh",
+        "correctnessRate",
+        "correctnessRateLow",
+        "correctnessRateHigh",
+        "errorRate",
+        "avgDurationMs",
+        "avgDurationMsLow",
+        "avgDurationMsHigh",
+        "medianDurationMs",
+        "p95DurationMs",
+        "p95DurationMsLow",
+        "p95DurationMsHigh",
+        "avgToolCalls",
+        "avgRepairedCalls",
+        "repairRate",
+        "avgCoercedCalls",
+        "avgRepairRounds",
+        "toolUseRate",
+        "avgAttempts",
+        "avgTotalTokens",
+        "tokensPerSuccess",
+        "totalCostUsd",
+        "costPerSuccessUsd",
+        "costPerCorrectUsd",
+        "avgIntentMs",
+        "avgFillMs",
+        "avgRepairMs",
+        "avgFinalizeMs",
+        "avgFallbackMs",
+        "avgLlmRetries",
+        "avgToolErrors",
+        "toolErrorRecoveryRate",
+        "toolTopK",
+        "retrievalRecall",
+        "avgRetrievalWidenings",
+        "failureCategories",
+      ],
+      rows: result.aggregates.map((row) => [
+        row.strategy,
+        row.model,
+        row.totalRuns,
+        round4(row.successRate),
+        row.successRateCi.low,
+        row.successRateCi.high,
+        row.scoredRuns > 0 ? round4(row.correctnessRate) : undefined,
+        row.correctnessRateCi?.low,
+        row.correctnessRateCi?.high,
+        round4(row.errorRate),
+        row.avgDurationMs,
+        row.avgDurationMsCi.low,
+        row.avgDurationMsCi.high,
+        row.medianDurationMs,
+        row.p95DurationMs,
+        row.p95DurationMsCi.low,
+        row.p95DurationMsCi.high,
+        row.avgToolCalls,
+        row.avgRepairedCalls,
+        row.repairRate,
+        row.avgCoercedCalls,
+        row.avgRepairRounds,
+        row.toolUseRate,
+        row.avgAttempts,
+        row.avgTotalTokens,
+        row.tokensPerSuccess,
+        row.totalCostUsd,
+        row.costPerSuccessUsd,
+        row.costPerCorrectUsd,
+        row.avgLlmLatencyMs.intent,
+        row.avgLlmLatencyMs.fill,
+        row.avgLlmLatencyMs.repair,
+        row.avgLlmLatencyMs.finalize,
+        row.avgLlmLatencyMs.fallback,
+        row.avgLlmRetries,
+        row.avgToolErrors,
+        row.toolErrorRecoveryRate,
+        row.toolTopK,
+        row.retrievalRecall,
+        row.avgRetrievalWidenings,
+        formatFailureCategories(row.failureCategories),
+      ]),
+    },
+    {
+      id: "comparisons",
+      title: "Comparisons",
+      columns: [
+        "model",
+        "strategy",
+        "toolTopK",
+        "successRate",
+        "avgDurationMs",
+        "avgToolCalls",
+        "avgRepairedCalls",
+        "deltaSuccessRate",
+        "deltaDurationMs",
+        "deltaToolCalls",
+        "baselineStrategy",
+        "baselineToolTopK",
+        "successPValue",
+        "significant",
+      ],
+      rows: result.comparisons.map((row) => [
+        row.model,
+        row.strategy,
+        row.toolTopK,
+        round4(row.successRate),
+        row.avgDurationMs,
+        row.avgToolCalls,
+        row.avgRepairedCalls,
+        row.deltaSuccessRate,
+        row.deltaDurationMs,
+        row.deltaToolCalls,
+        row.baselineStrategy,
+        row.baselineToolTopK,
+        row.successPValue,
+        row.significant,
+      ]),
+    },
+    {
+      id: "pairwise",
+      title: "Pairwise significance",
+      columns: [
+        "model",
+        "presetId",
+        "strategy",
+        "toolTopK",
+        "otherStrategy",
+        "otherToolTopK",
+        "runs",
+        "otherRuns",
+        "successRate",
+        "otherSuccessRate",
+        "deltaSuccessRate",
+        "successPValue",
+        "significant",
+      ],
+      rows: result.pairwise.map((row) => [
+        row.model,
+        row.presetId ?? "*",
+        row.strategy,
+        row.toolTopK,
+        row.otherStrategy,
+        row.otherToolTopK,
+        row.runs,
+        row.otherRuns,
+        row.successRate,
+        row.otherSuccessRate,
+        row.deltaSuccessRate,
+        row.successPValue,
+        row.significant,
+      ]),
+    },
+    {
+      id: "records",
+      title: "Records",
+      columns: [
+        "model",
+        "strategy",
+        "presetId",
+        "iteration",
+        "success",
+        "correct",
+        "durationMs",
+        "attempts",
+        "toolCalls",
+        "repairedCalls",
+        "coercedCalls",
+        "repairRounds",
+        "toolErrors",
+        "toolTopK",
+        "retrievalHit",
+        "retrievalWidenings",
+        "totalTokens",
+        "costUsd",
+        "errorCategory",
+        "error",
+      ],
+      rows: result.records.map((record) => [
+        record.model,
+        record.strategy,
+        record.presetId,
+        record.iteration,
+        record.success,
+        record.correct,
+        record.durationMs,
+        record.attempts,
+        record.toolCalls,
+        record.repairedCalls,
+        record.coercedCalls,
+        record.repairRounds,
+        record.toolErrors,
+        record.toolTopK,
+        record.retrievalHit,
+        record.retrievalWidenings,
+        record.usage?.totalTokens,
+        record.costUsd,
+        record.errorCategory,
+        record.error ?? record.expectationFailures?.join("; "),
+      ]),
+    },
+  ];
+}
+
+/** Groups records by (preset, strategy) across models and iterations; each swept k is its own strategy. */
+export function presetStrategyCells(records: BenchmarkRunRecord[]): HeatmapCell[] {
+  const cells = new Map<string, HeatmapCell>();
+  for (const record of records) {
+    const strategy = strategyLabel(record.strategy, record.toolTopK);
+    const key = `${record.presetId}::${strategy}`;
+    const cell = cells.get(key) ?? {
+      presetId: record.presetId,
+      strategy,
+      totalRuns: 0,
+      successRuns: 0,
+      scoredRuns: 0,
+      correctRuns: 0,
+    };
+    cell.totalRuns += 1;
+    cell.successRuns += record.success ? 1 : 0;
+    cell.scoredRuns += record.correct === undefined ? 0 : 1;
+    cell.correctRuns += record.correct === true ? 1 : 0;
+    cells.set(key, cell);
+  }
+  return [...cells.values()];
+}
+
+/** `category:count` pairs, e.g. `unknown_tool:2; timeout:1`; undefined when nothing failed. */
+export function formatFailureCategories(
+  counts: BenchmarkAggregate["failureCategories"],
+): string | undefined {
+  const entries = Object.entries(counts);
+  if (entries.length === 0) {
+    return undefined;
+  }
+  return entries.map(([category, count]) => `${category}:${count}`).join("; ");
+}
+
+export function formatReportCell(value: ReportCell): string {
+  return value === undefined ? "" : String(value);
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -7,10 +7,7 @@ export interface FileLogger {
 }
 
 export function createFileLogger(prefix: "cli" | "tui"): FileLogger {
-  const logsDir = join(process.cwd(), "logs");
-  mkdirSync(logsDir, { recursive: true });
-
-  const path = join(logsDir, `${prefix}-${timestamp()}.log`);
+  const path = createLogPath(prefix, "log");
   appendFileSync(path, `[meta] createdAt=${new Date().toISOString()}\n`, "utf8");
 
   return {
@@ -21,6 +18,13 @@ export function createFileLogger(prefix: "cli" | "tui"): FileLogger {
   };
 }
 
+/** Returns a fresh timestamped path under `./logs`, creating the directory. */
+export function createLogPath(prefix: string, extension: string): string {
+  const logsDir = join(process.cwd(), "logs");
+  mkdirSync(logsDir, { recursive: true });
+  return join(logsDir, `${prefix}-${timestamp()}.${extension}`);
+}
+
 function timestamp(): string {
   const now = new Date();
   const parts = [
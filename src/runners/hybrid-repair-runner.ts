@@ -4,20 +4,34 @@ import {
   createPartFromFunctionCall,
   createPartFromFunctionResponse,
   createUserContent,
+  type Content,
   type GenerateContentParameters,
 } from "@google/genai";
 
 import type {
   JsonObject,
   ModelClient,
+  RepairTier,
   ModelFunctionCall,
   RunnerResult,
   RunnerTraceStep,
 } from "../contracts";
 import type { GenerationSettings } from "../generation-settings";
 import { applyGenerationSettings, doesNotSupportThinking } from "../generation-settings";
+import {
+  coercionRepair,
+  previousRoundLines,
+  provenanceFields,
+  repairFailedError,
+  repairUntilValid,
+  validationErrorInfo,
+  type FailedRepairRound,
+} from "../core/arg-repair";
+import { appendReply } from "../core/chat-history";
+import type { RunEventListener } from "../core/events";
 import {
   buildFinalResponsePrompt,
+  buildScratchpadFinalResponsePrompt,
   buildToolSelectionPrompt,
   finalResponseJsonSchema,
   parseFinalResponseText,
@@ -25,12 +39,28 @@ import {
   toolIntentJsonSchema,
 } from "../core/intents";
 import {
+  isJsonObject,
+  needsJsonRepair,
   parseObjectWithRepair,
   toJsonObject,
-  parseJsonWithRepair,
 } from "../core/json-utils";
 import { extractFirstModelFunctionCallContent } from "../core/response-utils";
-import { ToolRegistry } from "../tool-registry";
+import {
+  executeToolCalls,
+  toolOutcome,
+  toolResponse,
+  toToolCallRecord,
+  type ResolvedToolCall,
+} from "../core/tool-execution";
+import { appendTraceStep, generateWithTrace } from "../core/trace";
+import { appendUsageTrace } from "../core/usage";
+import {
+  EmptyResponseError,
+  MaxTurnsExceededError,
+  throwIfAborted,
+  UnknownToolError,
+} from "../errors";
+import { ToolRegistry, type ValidationResult } from "../tool-registry";
 
 export interface HybridRepairRunnerOptions {
   model: string;
@@ -38,6 +68,15 @@ export interface HybridRepairRunnerOptions {
   maxTurns?: number;
   functionCallingMode?: FunctionCallingConfigMode;
   generationSettings?: GenerationSettings;
+  concurrentToolCalls?: boolean;
+  /** LLM repair rounds per call before giving up on its args; defaults to 1. */
+  maxRepairRounds?: number;
+  /** Answer calls whose args stay invalid with the validation error instead of failing the run. */
+  returnValidationErrors?: boolean;
+  signal?: AbortSignal;
+  onEvent?: RunEventListener;
+  /** Earlier chat turns; the prompt is appended as the next user message. */
+  history?: Content[];
 }
 
 export async function runHybridRepairRunner(
@@ -48,15 +87,17 @@ export async function runHybridRepairRunner(
 ): Promise<RunnerResult> {
   const trace: RunnerTraceStep[] = [];
   const toolCalls: RunnerResult["toolCalls"] = [];
-  const contents = [createUserContent(userPrompt)];
+  const contents = [...(options.history ?? []), createUserContent(userPrompt)];
   const maxTurns = options.maxTurns ?? 3;
   const repairModel = options.repairModel ?? options.model;
+  const concurrentToolCalls = options.concurrentToolCalls ?? false;
   const preferredMode = options.functionCallingMode ?? FunctionCallingConfigMode.VALIDATED;
   const mode = doesNotSupportThinking(options.model)
     ? FunctionCallingConfigMode.ANY
     : preferredMode;
 
   for (let turn = 0; turn < maxTurns; turn += 1) {
+    throwIfAborted(options.signal);
     const request: GenerateContentParameters = {
       model: options.model,
       contents,
@@ -74,19 +115,25 @@ export async function runHybridRepairRunner(
       ),
     };
 
-    trace.push({ kind: "llm", detail: `turn_${turn}_request` });
-    const response = await client.generateContent(request);
+    const response = await generateWithTrace(
+      client,
+      trace,
+      { purpose: "intent", detail: `turn_${turn}_request` },
+      request,
+    );
     appendThoughtTrace(trace, `turn_${turn}`, response.thoughts ?? []);
-    const functionCall = response.functionCalls[0];
+    appendUsageTrace(trace, `turn_${turn}`, response.usage);
+    const functionCalls = response.functionCalls;
 
-    if (!functionCall) {
+    if (functionCalls.length === 0) {
       if (response.text.trim().length > 0) {
-        trace.push({ kind: "llm", detail: `turn_${turn}_text_response` });
+        appendTraceStep(trace, { kind: "llm", detail: `turn_${turn}_text_response` });
         return {
           strategy: "hybrid-repair",
           finalText: response.text,
           toolCalls,
           trace,
+          history: appendReply(contents, response.text),
         };
       }
 
@@ -96,31 +143,41 @@ export async function runHybridRepairRunner(
           throw new Error("Expected at least one tool call before finalization.");
         }
 
-        trace.push({ kind: "llm", detail: "finalize_after_tool_call_with_json" });
-        const finalize = await client.generateContent({
-          model: options.model,
-          contents: buildFinalResponsePrompt(
-            userPrompt,
-            lastCall.toolName,
-            lastCall.args,
-            lastCall.result,
-          ),
-          config: applyGenerationSettings(
-            {
-            responseMimeType: "application/json",
-            responseJsonSchema: finalResponseJsonSchema(),
-            },
-            options.generationSettings,
-            options.model,
-          ),
-        });
+        const finalize = await generateWithTrace(
+          client,
+          trace,
+          { purpose: "finalize", detail: "finalize_after_tool_call_with_json" },
+          {
+            model: options.model,
+            contents:
+              toolCalls.length === 1
+                ? buildFinalResponsePrompt(
+                    userPrompt,
+                    lastCall.toolName,
+                    lastCall.args,
+                    toolOutcome(lastCall),
+                  )
+                : buildScratchpadFinalResponsePrompt(userPrompt, toolCalls),
+            config: applyGenerationSettings(
+              {
+              responseMimeType: "application/json",
+              responseJsonSchema: finalResponseJsonSchema(),
+              },
+              options.generationSettings,
+              options.model,
+            ),
+          },
+        );
         appendThoughtTrace(trace, "finalize", finalize.thoughts ?? []);
+        appendUsageTrace(trace, "finalize", finalize.usage);
 
+        const finalText = parseFinalResponseText(finalize.text);
         return {
           strategy: "hybrid-repair",
-          finalText: parseFinalResponseText(finalize.text),
+          finalText,
           toolCalls,
           trace,
+          history: appendReply(contents, finalText),
         };
       }
 
@@ -137,52 +194,67 @@ export async function runHybridRepairRunner(
         finalText: fallback,
         toolCalls,
         trace,
+        history: appendReply(contents, fallback),
       };
     }
 
-    const toolName = functionCall.name;
-    if (!toolName || !registry.has(toolName)) {
-      throw new Error(`Model requested unknown tool: ${toolName ?? "undefined"}`);
+    const resolvedCalls: ResolvedToolCall[] = [];
+    for (const [index, call] of functionCalls.entries()) {
+      const toolName = call.name;
+      if (!toolName || !registry.resolve(toolName)) {
+        throw new UnknownToolError(toolName);
+      }
+
+      const resolved = await resolveToolArgs(
+        client,
+        registry,
+        userPrompt,
+        toolName,
+        call,
+        repairModel,
+        trace,
+        options,
+      );
+      resolvedCalls.push({
+        callId: call.id ?? `call_${turn}_${index}`,
+        toolName,
+        ...resolved,
+      });
     }
 
-    const repaired = await resolveToolArgs(
-      client,
+    if (resolvedCalls.length > 1) {
+      appendTraceStep(trace, {
+        kind: "tool",
+        detail: `turn_${turn}_parallel_calls`,
+        data: { count: resolvedCalls.length, concurrent: concurrentToolCalls },
+      });
+    }
+
+    const executed = await executeToolCalls(
       registry,
-      userPrompt,
-      toolName,
-      functionCall,
-      repairModel,
-      trace,
-      options.generationSettings,
+      resolvedCalls,
+      concurrentToolCalls,
+      options.signal,
+      options.onEvent,
     );
-    const toolResult = await registry.execute(toolName, repaired.args, {
-      now: new Date(),
-    });
-    toolCalls.push({
-      toolName,
-      args: repaired.args,
-      result: toolResult,
-      repaired: repaired.repaired,
-    });
+    toolCalls.push(...executed.map(toToolCallRecord));
 
-    const callId = functionCall.id ?? `call_${turn}`;
     const modelFunctionCallContent =
       extractFirstModelFunctionCallContent(response.raw) ??
-      createModelContent(createPartFromFunctionCall(toolName, repaired.args));
+      createModelContent(
+        executed.map((call) => createPartFromFunctionCall(call.toolName, call.args)),
+      );
     contents.push(modelFunctionCallContent);
     contents.push(
       createUserContent(
-        createPartFromFunctionResponse(callId, toolName, { result: toolResult }),
+        executed.map((call) =>
+          createPartFromFunctionResponse(call.callId, call.toolName, toolResponse(call)),
+        ),
       ),
     );
   }
 
-  return {
-    strategy: "hybrid-repair",
-    finalText: "No final text response after max tool turns.",
-    toolCalls,
-    trace,
-  };
+  throw new MaxTurnsExceededError(maxTurns);
 }
 
 async function resolveToolArgs(
@@ -193,14 +265,30 @@ async function resolveToolArgs(
   functionCall: ModelFunctionCall,
   repairModel: string,
   trace: RunnerTraceStep[],
-  generationSettings: GenerationSettings | undefined,
-): Promise<{ args: JsonObject; repaired: boolean }> {
-  const direct = validateRawToolArgs(registry, toolName, functionCall.args);
+  options: HybridRepairRunnerOptions,
+): Promise<Omit<ResolvedToolCall, "callId" | "toolName">> {
+  const { parsed, jsonRepaired, validation: direct } = validateRawToolArgs(
+    registry,
+    toolName,
+    functionCall.args,
+  );
+  const jsonTiers: RepairTier[] = jsonRepaired ? ["jsonrepair"] : [];
   if (direct.ok) {
-    return { args: direct.args, repaired: false };
+    const repaired = coercionRepair(trace, toolName, direct);
+    return {
+      args: direct.args,
+      repaired,
+      ...provenanceFields({
+        rawArgs: functionCall.args,
+        parsedArgs: parsed,
+        args: direct.args,
+        tiers: repaired ? [...jsonTiers, "deterministic"] : jsonTiers,
+        ...(direct.rawIssues ? { failure: { issues: direct.rawIssues } } : {}),
+      }),
+    };
   }
 
-  trace.push({
+  appendTraceStep(trace, {
     kind: "repair",
     detail: "raw_args_invalid_attempting_llm_repair",
     data: {
@@ -209,51 +297,71 @@ async function resolveToolArgs(
     },
   });
 
-  const repairedArgs = await repairToolArgsWithLlm(
-    client,
+  const outcome = await repairUntilValid(
     registry,
-    userPrompt,
     toolName,
-    functionCall.args,
-    repairModel,
-    trace,
-    generationSettings,
+    { args: functionCall.args, error: direct.error, issues: direct.issues },
+    { maxRounds: options.maxRepairRounds ?? 1, trace, onEvent: options.onEvent },
+    (previous) =>
+      repairToolArgsWithLlm(
+        client,
+        registry,
+        userPrompt,
+        toolName,
+        functionCall.args,
+        previous,
+        repairModel,
+        trace,
+        options.generationSettings,
+      ),
   );
-  const revalidated = registry.validateArgs(toolName, repairedArgs);
-  if (!revalidated.ok) {
-    throw new Error(`Tool args still invalid after repair: ${revalidated.error}`);
+  if (outcome.ok) {
+    return {
+      args: outcome.args,
+      repaired: "llm",
+      ...provenanceFields({
+        rawArgs: functionCall.args,
+        parsedArgs: parsed,
+        args: outcome.args,
+        tiers: [...jsonTiers, "llm", ...(outcome.coerced ? (["deterministic"] as const) : [])],
+        failure: direct,
+        repairModel,
+      }),
+      repairRounds: outcome.rounds,
+    };
   }
 
-  return { args: revalidated.args, repaired: true };
+  const error = repairFailedError(toolName, outcome);
+  if (!options.returnValidationErrors) {
+    throw error;
+  }
+  return {
+    args: isJsonObject(outcome.failure.args) ? outcome.failure.args : {},
+    repaired: false,
+    ...(outcome.rounds > 0 ? { repairRounds: outcome.rounds } : {}),
+    validationError: validationErrorInfo(error),
+  };
 }
 
+/** Validates raw function-call args, which some models send as a JSON string. */
 function validateRawToolArgs(
   registry: ToolRegistry,
   toolName: string,
   rawArgs: unknown,
-): { ok: true; args: JsonObject } | { ok: false; error: string } {
-  if (typeof rawArgs === "string") {
-    try {
-      const parsed = parseObjectWithRepair(rawArgs, "functionCall.args");
-      const validation = registry.validateArgs(toolName, parsed);
-      if (!validation.ok) {
-        return { ok: false, error: validation.error };
-      }
-      return { ok: true, args: validation.args };
-    } catch (error) {
-      return { ok: false, error: toErrorMessage(error) };
-    }
-  }
-
+): { parsed: unknown; jsonRepaired: boolean; validation: ValidationResult } {
+  const jsonRepaired = typeof rawArgs === "string" && needsJsonRepair(rawArgs);
   try {
-    const candidate = toJsonObject(rawArgs, "functionCall.args");
-    const validation = registry.validateArgs(toolName, candidate);
-    if (!validation.ok) {
-      return { ok: false, error: validation.error };
-    }
-    return { ok: true, args: validation.args };
+    const candidate =
+      typeof rawArgs === "string"
+        ? parseObjectWithRepair(rawArgs, "functionCall.args")
+        : toJsonObject(rawArgs, "functionCall.args");
+    return { parsed: candidate, jsonRepaired, validation: registry.validateArgs(toolName, candidate) };
   } catch (error) {
-    return { ok: false, error: toErrorMessage(error) };
+    return {
+      parsed: rawArgs,
+      jsonRepaired: false,
+      validation: { ok: false, error: toErrorMessage(error), issues: [] },
+    };
   }
 }
 
@@ -263,10 +371,11 @@ async function repairToolArgsWithLlm(
   userPrompt: string,
   toolName: string,
   brokenArgs: unknown,
+  previous: FailedRepairRound | undefined,
   repairModel: string,
   trace: RunnerTraceStep[],
   generationSettings: GenerationSettings | undefined,
-): Promise<JsonObject> {
+): Promise<string> {
   const request: GenerateContentParameters = {
     model: repairModel,
     contents: [
@@ -276,6 +385,7 @@ async function repairToolArgsWithLlm(
       `Schema: ${JSON.stringify(registry.getArgsJsonSchema(toolName))}`,
       `User request: ${userPrompt}`,
       `Broken args: ${JSON.stringify(brokenArgs)}`,
+      ...(previous ? previousRoundLines(previous) : []),
     ].join("\n"),
     config: applyGenerationSettings(
       {
@@ -287,10 +397,15 @@ async function repairToolArgsWithLlm(
     ),
   };
 
-  const response = await client.generateContent(request);
+  const response = await generateWithTrace(
+    client,
+    trace,
+    { purpose: "repair", detail: "repair_tool_args" },
+    request,
+  );
   appendThoughtTrace(trace, "repair", response.thoughts ?? []);
-  const parsed = parseJsonWithRepair(response.text);
-  return toJsonObject(parsed, "Repaired tool args");
+  appendUsageTrace(trace, "repair", response.usage);
+  return response.text;
 }
 
 async function fallbackViaStructuredIntent(
@@ -301,25 +416,31 @@ async function fallbackViaStructuredIntent(
   trace: RunnerTraceStep[],
   generationSettings: GenerationSettings | undefined,
 ): Promise<string> {
-  trace.push({ kind: "fallback", detail: "structured_intent_fallback" });
-  const response = await client.generateContent({
-    model,
-    contents: buildToolSelectionPrompt(userPrompt, registry),
-    config: applyGenerationSettings(
-      {
-      responseMimeType: "application/json",
-      responseJsonSchema: toolIntentJsonSchema(),
-      },
-      generationSettings,
+  appendTraceStep(trace, { kind: "fallback", detail: "structured_intent_fallback" });
+  const response = await generateWithTrace(
+    client,
+    trace,
+    { purpose: "fallback", detail: "structured_intent_request" },
+    {
       model,
-    ),
-  });
+      contents: buildToolSelectionPrompt(userPrompt, registry),
+      config: applyGenerationSettings(
+        {
+        responseMimeType: "application/json",
+        responseJsonSchema: toolIntentJsonSchema(),
+        },
+        generationSettings,
+        model,
+      ),
+    },
+  );
   appendThoughtTrace(trace, "fallback", response.thoughts ?? []);
+  appendUsageTrace(trace, "fallback", response.usage);
 
   const intent = parseToolIntentText(response.text);
   if (intent.action === "respond") {
     if (!intent.response) {
-      throw new Error("Fallback intent missing response");
+      throw new EmptyResponseError("Fallback intent missing response");
     }
     return intent.response;
   }
@@ -340,7 +461,7 @@ function appendThoughtTrace(
   thoughts: string[],
 ): void {
   for (const thought of thoughts) {
-    trace.push({
+    appendTraceStep(trace, {
       kind: "thought",
       detail: `${step}_thought`,
       data: { text: thought },
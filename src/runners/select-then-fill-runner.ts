@@ -0,0 +1,247 @@
+import type { Content, GenerateContentParameters } from "@google/genai";
+
+import type {
+  JsonObject,
+  ModelClient,
+  RepairTier,
+  RunnerResult,
+  RunnerTraceStep,
+} from "../contracts";
+import type { GenerationSettings } from "../generation-settings";
+import { applyGenerationSettings } from "../generation-settings";
+import {
+  EmptyResponseError,
+  ToolArgsParseError,
+  ToolArgsValidationError,
+  throwIfAborted,
+  UnknownToolError,
+} from "../errors";
+import type { ToolRegistry } from "../tool-registry";
+import { coercionRepair, provenanceFields } from "../core/arg-repair";
+import { buildTurnHistory, renderTranscript } from "../core/chat-history";
+import type { RunEventListener } from "../core/events";
+import {
+  buildArgsFillPrompt,
+  buildFinalResponsePrompt,
+  buildScratchpadFinalResponsePrompt,
+  buildToolChoicePrompt,
+  finalResponseJsonSchema,
+  parseFinalResponseText,
+  parseToolChoiceText,
+  RESPOND_CHOICE,
+  toolChoiceJsonSchema,
+} from "../core/intents";
+import { needsJsonRepair, parseObjectWithRepair } from "../core/json-utils";
+import { toolOutcome, tryExecuteTool } from "../core/tool-execution";
+import { appendTraceStep, generateWithTrace } from "../core/trace";
+import { appendUsageTrace } from "../core/usage";
+
+export interface SelectThenFillRunnerOptions {
+  model: string;
+  maxTurns?: number;
+  generationSettings?: GenerationSettings;
+  signal?: AbortSignal;
+  onEvent?: RunEventListener;
+  /** Earlier chat turns, rendered into both prompts as a transcript. */
+  history?: Content[];
+}
+
+/**
+ * Two calls per tool: the first picks a name from an enum of the registry's
+ * tools (or `respond`), the second gets only that tool's args schema. A bad
+ * pick fails as `UnknownToolError` or `IntentParseError`; args fail as
+ * `ToolArgsParseError` when they are not JSON even after jsonrepair, or as
+ * `ToolArgsValidationError` when they still miss the schema after coercion.
+ * No LLM repair runs, so benchmarks can tell choice errors from args errors.
+ */
+export async function runSelectThenFillRunner(
+  client: ModelClient,
+  registry: ToolRegistry,
+  userPrompt: string,
+  options: SelectThenFillRunnerOptions,
+): Promise<RunnerResult> {
+  const trace: RunnerTraceStep[] = [];
+  const toolCalls: RunnerResult["toolCalls"] = [];
+  const maxTurns = Math.max(1, options.maxTurns ?? 3);
+  const history = options.history ?? [];
+  const transcript = renderTranscript(history);
+
+  for (let turn = 0; turn < maxTurns; turn += 1) {
+    throwIfAborted(options.signal);
+    const choiceRequest: GenerateContentParameters = {
+      model: options.model,
+      contents: buildToolChoicePrompt(userPrompt, registry, toolCalls, transcript),
+      config: applyGenerationSettings(
+        {
+          responseMimeType: "application/json",
+          responseJsonSchema: toolChoiceJsonSchema(registry),
+        },
+        options.generationSettings,
+        options.model,
+      ),
+    };
+
+    const choiceResponse = await generateWithTrace(
+      client,
+      trace,
+      { purpose: "intent", detail: "request_tool_choice", data: { turn } },
+      choiceRequest,
+    );
+    const choiceStep = turn === 0 ? "choice" : `turn_${turn}_choice`;
+    appendThoughtTrace(trace, choiceStep, choiceResponse.thoughts ?? []);
+    appendUsageTrace(trace, choiceStep, choiceResponse.usage);
+
+    const choice = parseToolChoiceText(choiceResponse.text);
+    appendTraceStep(trace, {
+      kind: "intent",
+      detail: "parsed_tool_choice",
+      data: { turn, toolName: choice.toolName },
+    });
+
+    if (choice.toolName === RESPOND_CHOICE) {
+      if (!choice.response) {
+        throw new EmptyResponseError("Missing response for toolName=respond");
+      }
+      return {
+        strategy: "select-then-fill",
+        finalText: choice.response,
+        toolCalls,
+        trace,
+        history: [...history, ...buildTurnHistory(userPrompt, toolCalls, choice.response)],
+      };
+    }
+    if (!registry.resolve(choice.toolName)) {
+      throw new UnknownToolError(choice.toolName);
+    }
+
+    const toolName = choice.toolName;
+    const fillRequest: GenerateContentParameters = {
+      model: options.model,
+      contents: buildArgsFillPrompt(userPrompt, registry, toolName, toolCalls, transcript),
+      config: applyGenerationSettings(
+        {
+          responseMimeType: "application/json",
+          responseJsonSchema: registry.getArgsJsonSchema(toolName),
+        },
+        options.generationSettings,
+        options.model,
+      ),
+    };
+
+    const fillResponse = await generateWithTrace(
+      client,
+      trace,
+      { purpose: "fill", detail: "request_tool_args", data: { turn, toolName } },
+      fillRequest,
+    );
+    const fillStep = turn === 0 ? "fill" : `turn_${turn}_fill`;
+    appendThoughtTrace(trace, fillStep, fillResponse.thoughts ?? []);
+    appendUsageTrace(trace, fillStep, fillResponse.usage);
+
+    let rawArgs: JsonObject;
+    try {
+      rawArgs = parseObjectWithRepair(fillResponse.text, "Tool args");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ToolArgsParseError(
+        toolName,
+        `Filled args are not a JSON object after jsonrepair: ${message}`,
+        { cause: error },
+      );
+    }
+    const validation = registry.validateArgs(toolName, rawArgs);
+    if (!validation.ok) {
+      throw new ToolArgsValidationError(
+        toolName,
+        `Filled args invalid after jsonrepair and coercion: ${validation.error}`,
+        validation.issues,
+      );
+    }
+
+    const repaired = coercionRepair(trace, toolName, validation);
+    // A failed tool lands in the scratchpad so a later turn can pick it again.
+    const { result, error } = await tryExecuteTool(
+      registry,
+      toolName,
+      validation.args,
+      { now: new Date(), signal: options.signal },
+      options.onEvent,
+    );
+    const tiers: RepairTier[] = [
+      ...(needsJsonRepair(fillResponse.text) ? (["jsonrepair"] as const) : []),
+      ...(repaired ? (["deterministic"] as const) : []),
+    ];
+    toolCalls.push({
+      toolName,
+      args: validation.args,
+      result,
+      repaired,
+      ...provenanceFields({
+        rawArgs: fillResponse.text,
+        parsedArgs: rawArgs,
+        args: validation.args,
+        tiers,
+        ...(validation.rawIssues ? { failure: { issues: validation.rawIssues } } : {}),
+      }),
+      ...(error ? { error } : {}),
+    });
+  }
+
+  const lastCall = toolCalls[toolCalls.length - 1];
+  if (!lastCall) {
+    throw new Error("Expected at least one tool call before finalization.");
+  }
+
+  const finalizeRequest: GenerateContentParameters = {
+    model: options.model,
+    contents:
+      toolCalls.length === 1
+        ? buildFinalResponsePrompt(
+            userPrompt,
+            lastCall.toolName,
+            lastCall.args,
+            toolOutcome(lastCall),
+          )
+        : buildScratchpadFinalResponsePrompt(userPrompt, toolCalls),
+    config: applyGenerationSettings(
+      {
+        responseMimeType: "application/json",
+        responseJsonSchema: finalResponseJsonSchema(),
+      },
+      options.generationSettings,
+      options.model,
+    ),
+  };
+
+  const finalizeResponse = await generateWithTrace(
+    client,
+    trace,
+    { purpose: "finalize", detail: "request_final_response" },
+    finalizeRequest,
+  );
+  appendThoughtTrace(trace, "finalize", finalizeResponse.thoughts ?? []);
+  appendUsageTrace(trace, "finalize", finalizeResponse.usage);
+  const finalText = parseFinalResponseText(finalizeResponse.text);
+
+  return {
+    strategy: "select-then-fill",
+    finalText,
+    toolCalls,
+    trace,
+    history: [...history, ...buildTurnHistory(userPrompt, toolCalls, finalText)],
+  };
+}
+
+function appendThoughtTrace(
+  trace: RunnerTraceStep[],
+  step: string,
+  thoughts: string[],
+): void {
+  for (const thought of thoughts) {
+    appendTraceStep(trace, {
+      kind: "thought",
+      detail: `${step}_thought`,
+      data: { text: thought },
+    });
+  }
+}
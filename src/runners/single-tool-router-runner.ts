@@ -4,6 +4,7 @@ import {
   createPartFromFunctionCall,
   createPartFromFunctionResponse,
   createUserContent,
+  type Content,
   type FunctionDeclaration,
   type GenerateContentParameters,
 } from "@google/genai";
@@ -12,28 +13,66 @@ import { z } from "zod";
 import type {
   JsonObject,
   ModelClient,
+  RepairTier,
   RunnerResult,
   RunnerTraceStep,
 } from "../contracts";
 import type { GenerationSettings } from "../generation-settings";
 import { applyGenerationSettings, doesNotSupportThinking } from "../generation-settings";
+import {
+  coercionRepair,
+  previousRoundLines,
+  provenanceFields,
+  repairFailedError,
+  repairUntilValid,
+  validationErrorInfo,
+  type FailedRepairRound,
+} from "../core/arg-repair";
+import { appendReply } from "../core/chat-history";
+import type { RunEventListener } from "../core/events";
 import {
   buildFinalResponsePrompt,
+  buildScratchpadFinalResponsePrompt,
   finalResponseJsonSchema,
   parseFinalResponseText,
 } from "../core/intents";
 import {
-  parseJsonWithRepair,
+  isJsonObject,
+  needsJsonRepair,
   parseObjectWithRepair,
   toJsonObject,
 } from "../core/json-utils";
 import { extractFirstModelFunctionCallContent } from "../core/response-utils";
+import {
+  executeToolCalls,
+  toolOutcome,
+  toolResponse,
+  toToolCallRecord,
+  type ResolvedToolCall,
+} from "../core/tool-execution";
+import { appendTraceStep, generateWithTrace } from "../core/trace";
+import { appendUsageTrace } from "../core/usage";
+import {
+  DispatchPayloadError,
+  EmptyResponseError,
+  throwIfAborted,
+  UnknownToolError,
+} from "../errors";
 import { ToolRegistry } from "../tool-registry";
 
 export interface SingleToolRouterRunnerOptions {
   model: string;
   maxTurns?: number;
   generationSettings?: GenerationSettings;
+  concurrentToolCalls?: boolean;
+  /** LLM repair rounds per call before giving up on its args; defaults to 1. */
+  maxRepairRounds?: number;
+  /** Answer calls whose args stay invalid with the validation error instead of failing the run. */
+  returnValidationErrors?: boolean;
+  signal?: AbortSignal;
+  onEvent?: RunEventListener;
+  /** Earlier chat turns; the prompt is appended as the next user message. */
+  history?: Content[];
 }
 
 const DISPATCH_TOOL_NAME = "dispatch_tool";
@@ -51,20 +90,22 @@ export async function runSingleToolRouterRunner(
 ): Promise<RunnerResult> {
   const trace: RunnerTraceStep[] = [];
   const toolCalls: RunnerResult["toolCalls"] = [];
-  const dispatchDeclaration = createDispatchDeclaration(registry);
   const maxTurns = options.maxTurns ?? 4;
-  const contents = [createUserContent(userPrompt)];
+  const concurrentToolCalls = options.concurrentToolCalls ?? false;
+  const contents = [...(options.history ?? []), createUserContent(userPrompt)];
   const fcMode = doesNotSupportThinking(options.model)
     ? FunctionCallingConfigMode.ANY
     : FunctionCallingConfigMode.VALIDATED;
 
   for (let turn = 0; turn < maxTurns; turn += 1) {
+    throwIfAborted(options.signal);
     const request: GenerateContentParameters = {
       model: options.model,
       contents,
       config: applyGenerationSettings(
         {
-        tools: [{ functionDeclarations: [dispatchDeclaration] }],
+        // Rebuilt per turn: a widened registry adds tools to the enum.
+        tools: [{ functionDeclarations: [createDispatchDeclaration(registry)] }],
         toolConfig: {
           functionCallingConfig: {
             mode: fcMode,
@@ -77,28 +118,29 @@ export async function runSingleToolRouterRunner(
       ),
     };
 
-    trace.push({ kind: "llm", detail: `turn_${turn}_request_dispatch` });
-    const response = await client.generateContent(request);
+    const response = await generateWithTrace(
+      client,
+      trace,
+      { purpose: "intent", detail: `turn_${turn}_request_dispatch` },
+      request,
+    );
     appendThoughtTrace(trace, `turn_${turn}`, response.thoughts ?? []);
-    const functionCall = response.functionCalls[0];
+    appendUsageTrace(trace, `turn_${turn}`, response.usage);
+    const functionCalls = response.functionCalls;
 
-    if (!functionCall) {
+    if (functionCalls.length === 0) {
       if (response.text.trim().length > 0) {
         return {
           strategy: "single-tool-router",
           finalText: response.text,
           toolCalls,
           trace,
+          history: appendReply(contents, response.text),
         };
       }
 
       if (toolCalls.length === 0) {
-        return {
-          strategy: "single-tool-router",
-          finalText: "Model did not provide a dispatch tool call.",
-          toolCalls,
-          trace,
-        };
+        throw new EmptyResponseError("Model did not provide a dispatch tool call.");
       }
 
       const lastCall = toolCalls[toolCalls.length - 1];
@@ -106,103 +148,156 @@ export async function runSingleToolRouterRunner(
         throw new Error("Expected at least one tool call before finalization.");
       }
 
-      trace.push({ kind: "llm", detail: "finalize_after_dispatch_with_json" });
-      const finalize = await client.generateContent({
-        model: options.model,
-        contents: buildFinalResponsePrompt(
-          userPrompt,
-          lastCall.toolName,
-          lastCall.args,
-          lastCall.result,
-        ),
-        config: applyGenerationSettings(
-          {
-          responseMimeType: "application/json",
-          responseJsonSchema: finalResponseJsonSchema(),
-          },
-          options.generationSettings,
-          options.model,
-        ),
-      });
+      const finalize = await generateWithTrace(
+        client,
+        trace,
+        { purpose: "finalize", detail: "finalize_after_dispatch_with_json" },
+        {
+          model: options.model,
+          contents:
+            toolCalls.length === 1
+              ? buildFinalResponsePrompt(
+                  userPrompt,
+                  lastCall.toolName,
+                  lastCall.args,
+                  toolOutcome(lastCall),
+                )
+              : buildScratchpadFinalResponsePrompt(userPrompt, toolCalls),
+          config: applyGenerationSettings(
+            {
+            responseMimeType: "application/json",
+            responseJsonSchema: finalResponseJsonSchema(),
+            },
+            options.generationSettings,
+            options.model,
+          ),
+        },
+      );
       appendThoughtTrace(trace, "finalize", finalize.thoughts ?? []);
+      appendUsageTrace(trace, "finalize", finalize.usage);
 
+      const finalText = parseFinalResponseText(finalize.text);
       return {
         strategy: "single-tool-router",
-        finalText: parseFinalResponseText(finalize.text),
+        finalText,
         toolCalls,
         trace,
+        history: appendReply(contents, finalText),
       };
     }
 
-    const dispatchPayload = dispatchArgsSchema.safeParse(functionCall.args);
-    if (!dispatchPayload.success) {
-      throw new Error(
-        `dispatch_tool args are invalid: ${dispatchPayload.error.issues
-          .map((issue) => issue.message)
-          .join("; ")}`,
+    const resolvedCalls: ResolvedToolCall[] = [];
+    for (const [index, call] of functionCalls.entries()) {
+      const dispatchPayload = dispatchArgsSchema.safeParse(call.args);
+      if (!dispatchPayload.success) {
+        throw new DispatchPayloadError(
+          `dispatch_tool args are invalid: ${dispatchPayload.error.issues
+            .map((issue) => issue.message)
+            .join("; ")}`,
+        );
+      }
+
+      const { toolName, argumentsJson } = dispatchPayload.data;
+      if (!registry.resolve(toolName)) {
+        throw new UnknownToolError(toolName);
+      }
+      const maybeArgs = parseDispatchArguments(argumentsJson);
+      const resolved = await resolveDispatchToolArgs(
+        client,
+        registry,
+        userPrompt,
+        toolName,
+        argumentsJson,
+        maybeArgs,
+        trace,
+        options,
       );
+      resolvedCalls.push({
+        callId: call.id ?? `dispatch_call_${turn}_${index}`,
+        toolName,
+        ...resolved,
+      });
     }
 
-    const { toolName, argumentsJson } = dispatchPayload.data;
-    const maybeArgs = parseObjectWithRepair(
-      argumentsJson,
-      "dispatch argumentsJson",
-    );
-    const validated = await resolveDispatchToolArgs(
-      client,
+    if (resolvedCalls.length > 1) {
+      appendTraceStep(trace, {
+        kind: "tool",
+        detail: `turn_${turn}_parallel_dispatch_calls`,
+        data: { count: resolvedCalls.length, concurrent: concurrentToolCalls },
+      });
+    }
+
+    const executed = await executeToolCalls(
       registry,
-      userPrompt,
-      toolName,
-      maybeArgs,
-      options.model,
-      trace,
-      options.generationSettings,
+      resolvedCalls,
+      concurrentToolCalls,
+      options.signal,
+      options.onEvent,
     );
+    toolCalls.push(...executed.map(toToolCallRecord));
 
-    const toolResult = await registry.execute(toolName, validated.args, {
-      now: new Date(),
-    });
-    toolCalls.push({
-      toolName,
-      args: validated.args,
-      result: toolResult,
-      repaired: validated.repaired,
-    });
-
-    const callId = functionCall.id ?? `dispatch_call_${turn}`;
     const modelFunctionCallContent =
       extractFirstModelFunctionCallContent(response.raw) ??
       createModelContent(
-        createPartFromFunctionCall(DISPATCH_TOOL_NAME, dispatchPayload.data),
+        functionCalls.map((call) =>
+          createPartFromFunctionCall(
+            DISPATCH_TOOL_NAME,
+            toJsonObject(call.args, "dispatch_tool args"),
+          ),
+        ),
       );
 
     contents.push(modelFunctionCallContent);
     contents.push(
       createUserContent(
-        createPartFromFunctionResponse(callId, DISPATCH_TOOL_NAME, {
-          toolName,
-          result: toolResult,
-        }),
+        executed.map((call) =>
+          createPartFromFunctionResponse(call.callId, DISPATCH_TOOL_NAME, {
+            toolName: call.toolName,
+            ...toolResponse(call),
+          }),
+        ),
       ),
     );
   }
 
   const lastCall = toolCalls[toolCalls.length - 1];
+  const finalText =
+    toolCalls.length > 1
+      ? JSON.stringify(
+          toolCalls.map((call) => ({ toolName: call.toolName, ...toolResponse(call) })),
+          null,
+          2,
+        )
+      : lastCall
+        ? JSON.stringify(toolOutcome(lastCall), null, 2)
+        : "No result.";
   return {
     strategy: "single-tool-router",
-    finalText: lastCall ? JSON.stringify(lastCall.result, null, 2) : "No result.",
+    finalText,
     toolCalls,
     trace,
+    history: appendReply(contents, finalText),
   };
 }
 
+function parseDispatchArguments(argumentsJson: string): JsonObject {
+  try {
+    return parseObjectWithRepair(argumentsJson, "dispatch argumentsJson");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new DispatchPayloadError(`dispatch argumentsJson is invalid: ${message}`, {
+      cause: error,
+    });
+  }
+}
+
 function appendThoughtTrace(
   trace: RunnerTraceStep[],
   step: string,
   thoughts: string[],
 ): void {
   for (const thought of thoughts) {
-    trace.push({
+    appendTraceStep(trace, {
       kind: "thought",
       detail: `${step}_thought`,
       data: { text: thought },
@@ -240,37 +335,77 @@ async function resolveDispatchToolArgs(
   registry: ToolRegistry,
   userPrompt: string,
   toolName: string,
+  argumentsJson: string,
   argsCandidate: JsonObject,
-  model: string,
   trace: RunnerTraceStep[],
-  generationSettings: GenerationSettings | undefined,
-): Promise<{ args: JsonObject; repaired: boolean }> {
+  options: SingleToolRouterRunnerOptions,
+): Promise<Omit<ResolvedToolCall, "callId" | "toolName">> {
+  const jsonTiers: RepairTier[] = needsJsonRepair(argumentsJson) ? ["jsonrepair"] : [];
   const validation = registry.validateArgs(toolName, argsCandidate);
   if (validation.ok) {
-    return { args: validation.args, repaired: false };
+    const repaired = coercionRepair(trace, toolName, validation);
+    return {
+      args: validation.args,
+      repaired,
+      ...provenanceFields({
+        rawArgs: argumentsJson,
+        parsedArgs: argsCandidate,
+        args: validation.args,
+        tiers: repaired ? [...jsonTiers, "deterministic"] : jsonTiers,
+        ...(validation.rawIssues ? { failure: { issues: validation.rawIssues } } : {}),
+      }),
+    };
   }
 
-  trace.push({
+  appendTraceStep(trace, {
     kind: "repair",
     detail: "dispatch_args_invalid_attempting_llm_repair",
     data: { toolName, reason: validation.error },
   });
-  const repairedArgs = await repairDispatchArgsWithLlm(
-    client,
+  const outcome = await repairUntilValid(
     registry,
-    userPrompt,
     toolName,
-    argsCandidate,
-    model,
-    trace,
-    generationSettings,
+    { args: argsCandidate, error: validation.error, issues: validation.issues },
+    { maxRounds: options.maxRepairRounds ?? 1, trace, onEvent: options.onEvent },
+    (previous) =>
+      repairDispatchArgsWithLlm(
+        client,
+        registry,
+        userPrompt,
+        toolName,
+        argsCandidate,
+        previous,
+        options.model,
+        trace,
+        options.generationSettings,
+      ),
   );
-  const repairedValidation = registry.validateArgs(toolName, repairedArgs);
-  if (!repairedValidation.ok) {
-    throw new Error(`Tool args validation failed: ${repairedValidation.error}`);
+  if (outcome.ok) {
+    return {
+      args: outcome.args,
+      repaired: "llm",
+      ...provenanceFields({
+        rawArgs: argumentsJson,
+        parsedArgs: argsCandidate,
+        args: outcome.args,
+        tiers: [...jsonTiers, "llm", ...(outcome.coerced ? (["deterministic"] as const) : [])],
+        failure: validation,
+        repairModel: options.model,
+      }),
+      repairRounds: outcome.rounds,
+    };
   }
 
-  return { args: repairedValidation.args, repaired: true };
+  const error = repairFailedError(toolName, outcome);
+  if (!options.returnValidationErrors) {
+    throw error;
+  }
+  return {
+    args: isJsonObject(outcome.failure.args) ? outcome.failure.args : argsCandidate,
+    repaired: false,
+    ...(outcome.rounds > 0 ? { repairRounds: outcome.rounds } : {}),
+    validationError: validationErrorInfo(error),
+  };
 }
 
 async function repairDispatchArgsWithLlm(
@@ -279,29 +414,37 @@ async function repairDispatchArgsWithLlm(
   userPrompt: string,
   toolName: string,
   brokenArgs: JsonObject,
+  previous: FailedRepairRound | undefined,
   model: string,
   trace: RunnerTraceStep[],
   generationSettings: GenerationSettings | undefined,
-): Promise<JsonObject> {
-  const response = await client.generateContent({
-    model,
-    contents: [
-      "Repair these tool args so they exactly satisfy the tool JSON schema.",
-      "Return only JSON for the repaired args object.",
-      `Tool: ${toolName}`,
-      `Schema: ${JSON.stringify(registry.getArgsJsonSchema(toolName))}`,
-      `User request: ${userPrompt}`,
-      `Broken args: ${JSON.stringify(brokenArgs)}`,
-    ].join("\n"),
-    config: applyGenerationSettings(
-      {
-        responseMimeType: "application/json",
-        responseJsonSchema: registry.getArgsJsonSchema(toolName),
-      },
-      generationSettings,
+): Promise<string> {
+  const response = await generateWithTrace(
+    client,
+    trace,
+    { purpose: "repair", detail: "repair_dispatch_args" },
+    {
       model,
-    ),
-  });
+      contents: [
+        "Repair these tool args so they exactly satisfy the tool JSON schema.",
+        "Return only JSON for the repaired args object.",
+        `Tool: ${toolName}`,
+        `Schema: ${JSON.stringify(registry.getArgsJsonSchema(toolName))}`,
+        `User request: ${userPrompt}`,
+        `Broken args: ${JSON.stringify(brokenArgs)}`,
+        ...(previous ? previousRoundLines(previous) : []),
+      ].join("\n"),
+      config: applyGenerationSettings(
+        {
+          responseMimeType: "application/json",
+          responseJsonSchema: registry.getArgsJsonSchema(toolName),
+        },
+        generationSettings,
+        model,
+      ),
+    },
+  );
   appendThoughtTrace(trace, "repair", response.thoughts ?? []);
-  return toJsonObject(parseJsonWithRepair(response.text), "Repaired dispatch args");
+  appendUsageTrace(trace, "repair", response.usage);
+  return response.text;
 }
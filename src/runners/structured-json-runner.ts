@@ -1,21 +1,40 @@
-import type { GenerateContentParameters } from "@google/genai";
+import type { Content, GenerateContentParameters } from "@google/genai";
 
 import type { ModelClient, RunnerResult, RunnerTraceStep } from "../contracts";
 import type { GenerationSettings } from "../generation-settings";
 import { applyGenerationSettings } from "../generation-settings";
+import {
+  EmptyResponseError,
+  IntentParseError,
+  ToolArgsValidationError,
+  throwIfAborted,
+  UnknownToolError,
+} from "../errors";
 import { ToolRegistry } from "../tool-registry";
+import { coercionRepair, provenanceFields } from "../core/arg-repair";
+import { buildTurnHistory, renderTranscript } from "../core/chat-history";
+import type { RunEventListener } from "../core/events";
 import {
   buildFinalResponsePrompt,
+  buildScratchpadFinalResponsePrompt,
   buildToolSelectionPrompt,
   finalResponseJsonSchema,
   parseFinalResponseText,
   parseToolIntentText,
   toolIntentJsonSchema,
 } from "../core/intents";
+import { toolOutcome, tryExecuteTool } from "../core/tool-execution";
+import { appendTraceStep, generateWithTrace } from "../core/trace";
+import { appendUsageTrace } from "../core/usage";
 
 export interface StructuredJsonRunnerOptions {
   model: string;
+  maxTurns?: number;
   generationSettings?: GenerationSettings;
+  signal?: AbortSignal;
+  onEvent?: RunEventListener;
+  /** Earlier chat turns, rendered into the planner prompt as a transcript. */
+  history?: Content[];
 }
 
 export async function runStructuredJsonRunner(
@@ -26,75 +45,117 @@ export async function runStructuredJsonRunner(
 ): Promise<RunnerResult> {
   const trace: RunnerTraceStep[] = [];
   const toolCalls: RunnerResult["toolCalls"] = [];
+  const maxTurns = Math.max(1, options.maxTurns ?? 1);
+  const history = options.history ?? [];
+  const transcript = renderTranscript(history);
 
-  const request: GenerateContentParameters = {
-    model: options.model,
-    contents: buildToolSelectionPrompt(userPrompt, registry),
-    config: applyGenerationSettings(
-      {
-      responseMimeType: "application/json",
-      responseJsonSchema: toolIntentJsonSchema(),
-      },
-      options.generationSettings,
-      options.model,
-    ),
-  };
+  for (let turn = 0; turn < maxTurns; turn += 1) {
+    throwIfAborted(options.signal);
+    const request: GenerateContentParameters = {
+      model: options.model,
+      contents: buildToolSelectionPrompt(userPrompt, registry, toolCalls, transcript),
+      config: applyGenerationSettings(
+        {
+        responseMimeType: "application/json",
+        responseJsonSchema: toolIntentJsonSchema(),
+        },
+        options.generationSettings,
+        options.model,
+      ),
+    };
 
-  trace.push({ kind: "llm", detail: "request_tool_intent" });
-  const response = await client.generateContent(request);
-  appendThoughtTrace(trace, "intent", response.thoughts ?? []);
-  trace.push({
-    kind: "llm",
-    detail: "received_tool_intent",
-    data: { textLength: response.text.length },
-  });
+    const response = await generateWithTrace(
+      client,
+      trace,
+      { purpose: "intent", detail: "request_tool_intent", data: { turn } },
+      request,
+    );
+    const intentStep = turn === 0 ? "intent" : `turn_${turn}_intent`;
+    appendThoughtTrace(trace, intentStep, response.thoughts ?? []);
+    appendUsageTrace(trace, intentStep, response.usage);
+    appendTraceStep(trace, {
+      kind: "llm",
+      detail: "received_tool_intent",
+      data: { turn, textLength: response.text.length },
+    });
 
-  const intent = parseToolIntentText(response.text);
-  trace.push({
-    kind: "intent",
-    detail: "parsed_intent",
-    data: { action: intent.action },
-  });
+    const intent = parseToolIntentText(response.text);
+    appendTraceStep(trace, {
+      kind: "intent",
+      detail: "parsed_intent",
+      data: { turn, action: intent.action },
+    });
 
-  if (intent.action === "respond") {
-    if (!intent.response) {
-      throw new Error("Missing response for action=respond");
+    if (intent.action === "respond") {
+      if (!intent.response) {
+        throw new EmptyResponseError("Missing response for action=respond");
+      }
+      return {
+        strategy: "structured-json",
+        finalText: intent.response,
+        toolCalls,
+        trace,
+        history: [...history, ...buildTurnHistory(userPrompt, toolCalls, intent.response)],
+      };
     }
-    return {
-      strategy: "structured-json",
-      finalText: intent.response,
-      toolCalls,
-      trace,
-    };
-  }
 
-  if (!intent.toolName || !intent.args) {
-    throw new Error("Missing toolName/args for action=call_tool");
-  }
+    if (!intent.toolName || !intent.args) {
+      throw new IntentParseError("Missing toolName/args for action=call_tool");
+    }
+    if (!registry.resolve(intent.toolName)) {
+      throw new UnknownToolError(intent.toolName);
+    }
 
-  const validation = registry.validateArgs(intent.toolName, intent.args);
-  if (!validation.ok) {
-    throw new Error(`Tool args validation failed: ${validation.error}`);
+    const validation = registry.validateArgs(intent.toolName, intent.args);
+    if (!validation.ok) {
+      throw new ToolArgsValidationError(
+        intent.toolName,
+        `Tool args validation failed: ${validation.error}`,
+        validation.issues,
+      );
+    }
+
+    const repaired = coercionRepair(trace, intent.toolName, validation);
+    // A failed tool lands in the scratchpad so a later turn can retry with other args.
+    const { result, error } = await tryExecuteTool(
+      registry,
+      intent.toolName,
+      validation.args,
+      { now: new Date(), signal: options.signal },
+      options.onEvent,
+    );
+    toolCalls.push({
+      toolName: intent.toolName,
+      args: validation.args,
+      result,
+      repaired,
+      ...provenanceFields({
+        rawArgs: intent.args,
+        parsedArgs: intent.args,
+        args: validation.args,
+        tiers: repaired ? ["deterministic"] : [],
+        ...(validation.rawIssues ? { failure: { issues: validation.rawIssues } } : {}),
+      }),
+      ...(error ? { error } : {}),
+    });
   }
 
-  const result = await registry.execute(intent.toolName, validation.args, {
-    now: new Date(),
-  });
-  toolCalls.push({
-    toolName: intent.toolName,
-    args: validation.args,
-    result,
-    repaired: false,
-  });
+  const lastCall = toolCalls[toolCalls.length - 1];
+  if (!lastCall) {
+    throw new Error("Expected at least one tool call before finalization.");
+  }
 
   const finalizeRequest: GenerateContentParameters = {
     model: options.model,
-    contents: buildFinalResponsePrompt(
-      userPrompt,
-      intent.toolName,
-      validation.args,
-      result,
-    ),
+    contents:
+      toolCalls.length === 1
+        ? buildFinalResponsePrompt(
+            userPrompt,
+            lastCall.toolName,
+            lastCall.args,
+            toolOutcome(lastCall),
+          )
+        : buildScratchpadFinalResponsePrompt(userPrompt, toolCalls),
     config: applyGenerationSettings(
       {
       responseMimeType: "application/json",
@@ -105,9 +166,14 @@ export async function runStructuredJsonRunner(
     ),
   };
 
-  trace.push({ kind: "llm", detail: "request_final_response" });
-  const finalizeResponse = await client.generateContent(finalizeRequest);
+  const finalizeResponse = await generateWithTrace(
+    client,
+    trace,
+    { purpose: "finalize", detail: "request_final_response" },
+    finalizeRequest,
+  );
   appendThoughtTrace(trace, "finalize", finalizeResponse.thoughts ?? []);
+  appendUsageTrace(trace, "finalize", finalizeResponse.usage);
   const finalText = parseFinalResponseText(finalizeResponse.text);
 
   return {
@@ -115,6 +181,7 @@ export async function runStructuredJsonRunner(
     finalText,
     toolCalls,
     trace,
+    history: [...history, ...buildTurnHistory(userPrompt, toolCalls, finalText)],
   };
 }
 
@@ -124,7 +191,7 @@ function appendThoughtTrace(
   thoughts: string[],
 ): void {
   for (const thought of thoughts) {
-    trace.push({
+    appendTraceStep(trace, {
       kind: "thought",
       detail: `${step}_thought`,
       data: { text: thought },
@@ -0,0 +1,433 @@
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { FunctionCallingConfigMode, type Content } from "@google/genai";
+import { z } from "zod";
+
+import type { ModelClient, RunnerResult } from "./contracts";
+import type { RunEventListener } from "./core/events";
+import type { GenerationSettings } from "./generation-settings";
+import { runHybridRepairRunner } from "./runners/hybrid-repair-runner";
+import { runSelectThenFillRunner } from "./runners/select-then-fill-runner";
+import { runSingleToolRouterRunner } from "./runners/single-tool-router-runner";
+import { runStructuredJsonRunner } from "./runners/structured-json-runner";
+import type { ToolRegistry } from "./tool-registry";
+
+export type Strategy = string;
+
+export type StrategyOptionValue = string | number | boolean;
+export type StrategyOptionValues = Record<string, StrategyOptionValue | undefined>;
+export type StrategyOptionsById = Record<Strategy, StrategyOptionValues>;
+
+interface StrategyOptionBase {
+  key: string;
+  label: string;
+  description: string;
+  /** CLI flag name without leading dashes, e.g. `router-max-turns`. */
+  cliFlag?: string;
+}
+
+export interface IntegerStrategyOption extends StrategyOptionBase {
+  type: "integer";
+  min: number;
+  /** Leave unset for no upper bound (e.g. turn caps). */
+  max?: number;
+  default: number;
+}
+
+export interface BooleanStrategyOption extends StrategyOptionBase {
+  type: "boolean";
+  default: boolean;
+}
+
+export interface StringStrategyOption extends StrategyOptionBase {
+  type: "string";
+  default?: string;
+}
+
+export type StrategyOptionSpec =
+  | IntegerStrategyOption
+  | BooleanStrategyOption
+  | StringStrategyOption;
+
+export interface StrategyRunContext {
+  client: ModelClient;
+  /** Check tool names with `registry.resolve` so retrieval can widen the set. */
+  registry: ToolRegistry;
+  prompt: string;
+  model: string;
+  generationSettings: GenerationSettings;
+  options: StrategyOptionValues;
+  /** Fires when the run is cancelled; `client` already carries it on every call. */
+  signal?: AbortSignal;
+  /** Live events for repairs and tool runs; `client` already reports model chunks. */
+  onEvent?: RunEventListener;
+  /** Earlier chat turns to continue from; return the extended `history` on the result. */
+  history?: Content[];
+}
+
+export interface StrategyDefinition {
+  id: Strategy;
+  description: string;
+  options: StrategyOptionSpec[];
+  run: (context: StrategyRunContext) => Promise<RunnerResult>;
+}
+
+export class StrategyRegistry {
+  private readonly strategies = new Map<Strategy, StrategyDefinition>();
+
+  public register(definition: StrategyDefinition): void {
+    if (this.strategies.has(definition.id)) {
+      throw new Error(`Strategy already registered: ${definition.id}`);
+    }
+    this.strategies.set(definition.id, definition);
+  }
+
+  public has(id: string): boolean {
+    return this.strategies.has(id);
+  }
+
+  public get(id: string): StrategyDefinition {
+    const definition = this.strategies.get(id);
+    if (!definition) {
+      throw new Error(
+        `Unknown strategy: ${id}. Expected one of: ${this.ids().join(", ")}.`,
+      );
+    }
+    return definition;
+  }
+
+  public ids(): Strategy[] {
+    return [...this.strategies.keys()];
+  }
+
+  public list(): StrategyDefinition[] {
+    return [...this.strategies.values()];
+  }
+}
+
+export const BUILTIN_STRATEGY_IDS = [
+  "structured-json",
+  "single-tool-router",
+  "hybrid-repair",
+  "select-then-fill",
+] as const;
+
+export function createBuiltinStrategyRegistry(): StrategyRegistry {
+  const registry = new StrategyRegistry();
+
+  registry.register({
+    id: "structured-json",
+    description: "Strict JSON intents via responseJsonSchema; no native function calling.",
+    options: [
+      {
+        key: "maxTurns",
+        label: "Structured Max Turns",
+        description: "structured-json max intent turns",
+        type: "integer",
+        min: 1,
+        default: 1,
+        cliFlag: "structured-max-turns",
+      },
+    ],
+    run: (context) =>
+      runStructuredJsonRunner(context.client, context.registry, context.prompt, {
+        model: context.model,
+        maxTurns: optionNumber(context.options, "maxTurns"),
+        generationSettings: context.generationSettings,
+        signal: context.signal,
+        onEvent: context.onEvent,
+        history: context.history,
+      }),
+  });
+
+  registry.register({
+    id: "single-tool-router",
+    description: "Native function calling through one dispatch_tool with JSON-string args.",
+    options: [
+      {
+        key: "maxTurns",
+        label: "Router Max Turns",
+        description: "single-tool-router max loop turns",
+        type: "integer",
+        min: 1,
+        default: 4,
+        cliFlag: "router-max-turns",
+      },
+      concurrentToolCallsOption(),
+      ...argRepairOptions(),
+    ],
+    run: (context) =>
+      runSingleToolRouterRunner(context.client, context.registry, context.prompt, {
+        model: context.model,
+        maxTurns: optionNumber(context.options, "maxTurns"),
+        generationSettings: context.generationSettings,
+        concurrentToolCalls: optionBoolean(context.options, "concurrentToolCalls"),
+        maxRepairRounds: optionNumber(context.options, "repairRounds"),
+        returnValidationErrors: optionBoolean(context.options, "returnValidationErrors"),
+        signal: context.signal,
+        onEvent: context.onEvent,
+        history: context.history,
+      }),
+  });
+
+  registry.register({
+    id: "hybrid-repair",
+    description: "Native per-tool function calling with LLM args repair and intent fallback.",
+    options: [
+      {
+        key: "maxTurns",
+        label: "Hybrid Max Turns",
+        description: "hybrid-repair max loop turns",
+        type: "integer",
+        min: 1,
+        default: 3,
+        cliFlag: "hybrid-max-turns",
+      },
+      {
+        key: "repairModel",
+        label: "Repair Model",
+        description: "Hybrid repair model override",
+        type: "string",
+        cliFlag: "repair-model",
+      },
+      concurrentToolCallsOption(),
+      ...argRepairOptions(),
+    ],
+    run: (context) =>
+      runHybridRepairRunner(context.client, context.registry, context.prompt, {
+        model: context.model,
+        repairModel: optionString(context.options, "repairModel"),
+        maxTurns: optionNumber(context.options, "maxTurns"),
+        functionCallingMode: FunctionCallingConfigMode.VALIDATED,
+        generationSettings: context.generationSettings,
+        concurrentToolCalls: optionBoolean(context.options, "concurrentToolCalls"),
+        maxRepairRounds: optionNumber(context.options, "repairRounds"),
+        returnValidationErrors: optionBoolean(context.options, "returnValidationErrors"),
+        signal: context.signal,
+        onEvent: context.onEvent,
+        history: context.history,
+      }),
+  });
+
+  registry.register({
+    id: "select-then-fill",
+    description: "Picks a tool name from an enum, then fills args against that tool's schema alone.",
+    options: [
+      {
+        key: "maxTurns",
+        label: "Select-Fill Max Turns",
+        description: "select-then-fill max select/fill turns",
+        type: "integer",
+        min: 1,
+        default: 3,
+        cliFlag: "select-fill-max-turns",
+      },
+    ],
+    run: (context) =>
+      runSelectThenFillRunner(context.client, context.registry, context.prompt, {
+        model: context.model,
+        maxTurns: optionNumber(context.options, "maxTurns"),
+        generationSettings: context.generationSettings,
+        signal: context.signal,
+        onEvent: context.onEvent,
+        history: context.history,
+      }),
+  });
+
+  return registry;
+}
+
+/** Shared registry used by the CLI, TUI, and benchmark unless one is passed explicitly. */
+export const defaultStrategyRegistry = createBuiltinStrategyRegistry();
+
+export function defaultStrategyOptions(
+  registry: StrategyRegistry = defaultStrategyRegistry,
+): StrategyOptionsById {
+  const output: StrategyOptionsById = {};
+  for (const definition of registry.list()) {
+    output[definition.id] = Object.fromEntries(
+      definition.options.map((option) => [option.key, option.default]),
+    );
+  }
+  return output;
+}
+
+export function parseStrategyOptions(
+  definition: StrategyDefinition,
+  raw: StrategyOptionValues | undefined,
+): StrategyOptionValues {
+  const parsed = strategyOptionsSchema(definition).safeParse(raw ?? {});
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid options for strategy ${definition.id}: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "root"}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Reads every option's `--<cliFlag>` from `args`, so private strategies get CLI
+ * flags too. Integers outside the option's range are rejected, not dropped.
+ */
+export function parseStrategyOptionFlags(
+  args: string[],
+  registry: StrategyRegistry = defaultStrategyRegistry,
+): StrategyOptionsById {
+  const output: StrategyOptionsById = {};
+
+  for (const definition of registry.list()) {
+    const values: StrategyOptionValues = {};
+    for (const option of definition.options) {
+      if (!option.cliFlag) {
+        continue;
+      }
+      const raw = flagValue(args, option.cliFlag);
+      if (option.type === "integer") {
+        values[option.key] = raw === undefined ? undefined : parseIntegerFlag(option, raw);
+      } else if (option.type === "boolean") {
+        values[option.key] = args.includes(`--${option.cliFlag}`)
+          ? true
+          : parseBooleanFlag(raw, option.default);
+      } else {
+        values[option.key] = raw;
+      }
+    }
+    output[definition.id] = values;
+  }
+
+  return output;
+}
+
+/**
+ * Load private strategies from outside `src/`. Each module must export
+ * `registerStrategies(registry)` (or a default function with that signature).
+ */
+export async function loadStrategyModules(
+  paths: string[],
+  registry: StrategyRegistry = defaultStrategyRegistry,
+): Promise<void> {
+  for (const path of paths) {
+    const module = (await import(pathToFileURL(resolve(path)).href)) as {
+      registerStrategies?: unknown;
+      default?: unknown;
+    };
+    const register = module.registerStrategies ?? module.default;
+    if (typeof register !== "function") {
+      throw new Error(
+        `Strategy module ${path} must export registerStrategies(registry).`,
+      );
+    }
+    await register(registry);
+  }
+}
+
+export function optionNumber(
+  options: StrategyOptionValues,
+  key: string,
+): number | undefined {
+  const value = options[key];
+  return typeof value === "number" ? value : undefined;
+}
+
+export function optionBoolean(
+  options: StrategyOptionValues,
+  key: string,
+): boolean | undefined {
+  const value = options[key];
+  return typeof value === "boolean" ? value : undefined;
+}
+
+export function optionString(
+  options: StrategyOptionValues,
+  key: string,
+): string | undefined {
+  const value = options[key];
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function strategyOptionsSchema(
+  definition: StrategyDefinition,
+): z.ZodType<StrategyOptionValues> {
+  const shape: Record<string, z.ZodType<StrategyOptionValue | undefined>> = {};
+  for (const option of definition.options) {
+    if (option.type === "integer") {
+      const value = z.number().int().min(option.min);
+      shape[option.key] = (option.max === undefined ? value : value.max(option.max)).default(
+        option.default,
+      );
+    } else if (option.type === "boolean") {
+      shape[option.key] = z.boolean().default(option.default);
+    } else {
+      shape[option.key] = option.default === undefined
+        ? z.string().optional()
+        : z.string().default(option.default);
+    }
+  }
+  return z.object(shape);
+}
+
+function flagValue(args: string[], flag: string): string | undefined {
+  const prefix = `--${flag}=`;
+  return args.find((item) => item.startsWith(prefix))?.slice(prefix.length);
+}
+
+function parseIntegerFlag(option: IntegerStrategyOption, raw: string): number {
+  const value = Number(raw);
+  const range = option.max === undefined ? `>= ${option.min}` : `${option.min}-${option.max}`;
+  if (
+    raw.trim().length === 0 ||
+    !Number.isInteger(value) ||
+    value < option.min ||
+    (option.max !== undefined && value > option.max)
+  ) {
+    throw new Error(`--${option.cliFlag}=<n> expects an integer ${range}, got '${raw}'.`);
+  }
+  return value;
+}
+
+function parseBooleanFlag(raw: string | undefined, defaultValue: boolean): boolean {
+  const normalized = raw?.toLowerCase();
+  if (normalized === "true" || normalized === "1" || normalized === "yes") {
+    return true;
+  }
+  if (normalized === "false" || normalized === "0" || normalized === "no") {
+    return false;
+  }
+  return defaultValue;
+}
+
+function concurrentToolCallsOption(): BooleanStrategyOption {
+  return {
+    key: "concurrentToolCalls",
+    label: "Concurrent Tools",
+    description: "Execute parallel function calls concurrently",
+    type: "boolean",
+    default: false,
+    cliFlag: "concurrent-tools",
+  };
+}
+
+function argRepairOptions(): StrategyOptionSpec[] {
+  return [
+    {
+      key: "repairRounds",
+      label: "Repair Rounds",
+      description: "LLM repair rounds per call before its args are given up on",
+      type: "integer",
+      min: 0,
+      max: 5,
+      default: 1,
+      cliFlag: "repair-rounds",
+    },
+    {
+      key: "returnValidationErrors",
+      label: "Return Validation Errors",
+      description: "Send still-invalid args back to the model instead of failing",
+      type: "boolean",
+      default: false,
+      cliFlag: "return-validation-errors",
+    },
+  ];
+}
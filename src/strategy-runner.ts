@@ -1,11 +1,17 @@
-import { FunctionCallingConfigMode } from "@google/genai";
+import type { Content } from "@google/genai";
 
 import type {
   ModelClient,
   RunnerResult,
-  RunnerTraceStep,
-  ToolCallRecord,
+  TokenUsage,
 } from "./contracts";
+import { withAbortSignal } from "./core/abort";
+import { withRunEvents, type RunEvent, type RunEventListener } from "./core/events";
+import { formatArgsDiff } from "./core/json-diff";
+import { summarizeLlmCalls, type LlmCallSummary } from "./core/trace";
+import { addUsage, emptyUsage, UsageTrackingModelClient } from "./core/usage";
+import { retrieveTools, type ToolRetrieval } from "./core/tool-retrieval";
+import { classifyError, isRecoverableError, throwIfAborted } from "./errors";
 import { createDemoToolRegistry } from "./demo-tools";
 import { resolveEnvSettings } from "./env";
 import {
@@ -17,31 +23,57 @@ import {
   MODEL_CATALOG_FALLBACK,
   normalizeRunnableModel,
 } from "./model-catalog";
-import { runHybridRepairRunner } from "./runners/hybrid-repair-runner";
-import { runSingleToolRouterRunner } from "./runners/single-tool-router-runner";
-import { runStructuredJsonRunner } from "./runners/structured-json-runner";
+import {
+  BUILTIN_STRATEGY_IDS,
+  defaultStrategyRegistry,
+  parseStrategyOptions,
+  type Strategy,
+  type StrategyDefinition,
+  type StrategyOptionsById,
+  type StrategyOptionValues,
+  type StrategyRegistry,
+} from "./strategy-registry";
+import type { ToolRegistry } from "./tool-registry";
 
-export const STRATEGIES = [
-  "structured-json",
-  "single-tool-router",
-  "hybrid-repair",
-] as const;
+/** Out-of-set tools a retrieval-limited run may pull in before the error stands. */
+const MAX_RETRIEVAL_WIDENINGS = 3;
 
-export type Strategy = (typeof STRATEGIES)[number];
+/** @deprecated Use `defaultStrategyRegistry.ids()`, which includes registered strategies. */
+export const STRATEGIES = BUILTIN_STRATEGY_IDS;
 
 export interface StrategyRunConfig {
   strategy: Strategy;
   prompt: string;
   model: string;
+  /** Per-strategy options keyed by strategy id; missing values use the declared defaults. */
+  strategyOptions?: StrategyOptionsById;
+  strategyRegistry?: StrategyRegistry;
+  /** @deprecated Use `strategyOptions["hybrid-repair"].repairModel`. */
   repairModel?: string;
+  /** @deprecated Use `strategyOptions["structured-json"].maxTurns`. */
+  structuredMaxTurns?: number;
+  /** @deprecated Use `strategyOptions["single-tool-router"].maxTurns`. */
   routerMaxTurns?: number;
+  /** @deprecated Use `strategyOptions["hybrid-repair"].maxTurns`. */
   hybridMaxTurns?: number;
+  /** @deprecated Use `strategyOptions[strategy].concurrentToolCalls`. */
+  concurrentToolCalls?: boolean;
   maxRetries?: number;
   logs?: boolean;
   verbose?: boolean;
   generationSettings?: GenerationSettings;
   logger?: (line: string) => void;
   client?: ModelClient;
+  /** Cancels the run: in-flight model calls, retry waits, runner loops, and tools. */
+  signal?: AbortSignal;
+  /** Receives live events; model calls stream when the client supports it. */
+  onEvent?: RunEventListener;
+  /** Earlier chat turns; see `ChatSession`. */
+  history?: Content[];
+  /** Tools the strategy may call; defaults to the demo tools. */
+  toolRegistry?: ToolRegistry;
+  /** Expose only the `k` tools most relevant to the prompt; see `rankTools`. */
+  toolTopK?: number;
 }
 
 export interface PlaygroundResult extends RunnerResult {
@@ -49,10 +81,37 @@ export interface PlaygroundResult extends RunnerResult {
   usedStrategy: Strategy;
   attempts: number;
   durationMs: number;
+  /** Tokens across every LLM call of every attempt, including failed ones. */
+  usage: TokenUsage;
+  /** LLM call count, client retries, and latency per call purpose for the final attempt. */
+  llmCalls: LlmCallSummary;
+  /** Set when `toolTopK` limited the tools the final attempt saw. */
+  toolRetrieval?: ToolRetrieval;
   errors?: string[];
   verboseNotes?: string[];
 }
 
+/** Thrown by `runStrategy` once every attempt failed; carries what the attempts cost. */
+export class StrategyRunError extends Error {
+  public readonly attempts: number;
+  public readonly usage: TokenUsage;
+  public readonly errors: string[];
+
+  public constructor(
+    message: string,
+    attempts: number,
+    usage: TokenUsage,
+    errors: string[],
+    options?: { cause?: unknown },
+  ) {
+    super(message, options);
+    this.name = "StrategyRunError";
+    this.attempts = attempts;
+    this.usage = usage;
+    this.errors = errors;
+  }
+}
+
 export function getDefaultModel(): string {
   return normalizeRunnableModel(process.env.GEMINI_MODEL) ?? MODEL_CATALOG_FALLBACK;
 }
@@ -80,10 +139,18 @@ export async function runStrategy(config: StrategyRunConfig): Promise<Playground
   const runLogs = Boolean(config.logs);
   const runVerbose = Boolean(config.verbose);
   const generationSettings = config.generationSettings ?? defaultGenerationSettings();
+  // Fail fast on unknown strategies and bad options instead of spending retries on them.
+  const definition = (config.strategyRegistry ?? defaultStrategyRegistry).get(config.strategy);
+  const options = parseStrategyOptions(definition, resolveStrategyOptions(config));
 
   let lastError: unknown;
+  let attemptsMade = 0;
   const errors: string[] = [];
   const startedAt = Date.now();
+  let usage = emptyUsage();
+  const recordUsage = (attemptUsage: TokenUsage): void => {
+    usage = addUsage(usage, attemptUsage);
+  };
 
   for (let attempt = 1; attempt <= maxRetries + 1; attempt += 1) {
     if (runLogs) {
@@ -92,11 +159,19 @@ export async function runStrategy(config: StrategyRunConfig): Promise<Playground
       );
     }
 
+    attemptsMade = attempt;
+    config.onEvent?.({ type: "attempt_started", attempt, maxAttempts: maxRetries + 1 });
     try {
-      const result = await runStrategyOnce({
-        ...config,
-        generationSettings,
-      });
+      throwIfAborted(config.signal);
+      const result = await runStrategyOnce(
+        {
+          ...config,
+          generationSettings,
+        },
+        definition,
+        options,
+        recordUsage,
+      );
 
       const durationMs = Date.now() - startedAt;
       const verboseNotes = runVerbose
@@ -110,12 +185,29 @@ export async function runStrategy(config: StrategyRunConfig): Promise<Playground
 
       if (runLogs && runVerbose) {
         logger(
-          `[verbose] attempts=${attempt} toolCalls=${result.toolCalls.length} traceSteps=${result.trace.length} finalTextLength=${result.finalText.length}`,
+          `[verbose] attempts=${attempt} toolCalls=${result.toolCalls.length} traceSteps=${result.trace.length} finalTextLength=${result.finalText.length} totalTokens=${usage.totalTokens}`,
         );
+        const llmCalls = result.trace.filter((step) => step.kind === "llm" && step.data?.purpose);
+        for (const step of llmCalls) {
+          logger(
+            `[llm] ${step.detail} purpose=${step.data?.purpose} latencyMs=${step.data?.latencyMs} retries=${step.data?.retries}`,
+          );
+        }
         for (const [index, call] of result.toolCalls.entries()) {
           logger(
-            `[tool] #${index + 1} name=${call.toolName} repaired=${call.repaired} args=${safeOneLineJson(call.args)} result=${safeOneLineJson(call.result)}`,
+            `[tool] #${index + 1} name=${call.toolName} repaired=${call.repaired}${call.repairRounds ? ` rounds=${call.repairRounds}` : ""} args=${safeOneLineJson(call.args)} ${call.error ? `error=${safeOneLineJson(call.error)}` : `result=${safeOneLineJson(call.result)}`}`,
           );
+          if (call.repair) {
+            logger(
+              `[repair] #${index + 1} tiers=${call.repair.tiers.join(">")}${call.repair.repairModel ? ` repairModel=${call.repair.repairModel}` : ""} raw=${safeOneLineJson(call.repair.rawArgs)}`,
+            );
+            for (const error of call.repair.validationErrors) {
+              logger(`[repair]   invalid ${error}`);
+            }
+            for (const line of formatArgsDiff(call.repair.diff)) {
+              logger(`[repair]   ${line}`);
+            }
+          }
         }
         const thoughtSteps = result.trace.filter((step) => step.kind === "thought");
         for (const step of thoughtSteps) {
@@ -129,6 +221,8 @@ export async function runStrategy(config: StrategyRunConfig): Promise<Playground
         ...result,
         attempts: attempt,
         durationMs,
+        usage,
+        llmCalls: summarizeLlmCalls(result.trace),
         errors: errors.length > 0 ? errors : undefined,
         verboseNotes,
       };
@@ -142,66 +236,181 @@ export async function runStrategy(config: StrategyRunConfig): Promise<Playground
       if (attempt > maxRetries) {
         break;
       }
+      if (!isRecoverableError(error)) {
+        if (runLogs) {
+          logger(`[error] not retrying ${classifyError(error)} failure`);
+        }
+        break;
+      }
     }
   }
 
   const lastMessage =
     lastError instanceof Error ? lastError.message : String(lastError);
-  throw new Error(
-    `Run failed after ${maxRetries + 1} attempt(s): ${lastMessage}`,
+  throw new StrategyRunError(
+    `Run failed after ${attemptsMade} attempt(s): ${lastMessage}`,
+    attemptsMade,
+    usage,
+    errors,
+    { cause: lastError },
   );
 }
 
+/**
+ * `runStrategy` as an async iterator: yields events as they happen and returns
+ * the result, or throws `StrategyRunError`, once the run settles. Stopping the
+ * iteration early (`break`, `return()`) aborts the run.
+ */
+export async function* streamStrategy(
+  config: StrategyRunConfig,
+): AsyncGenerator<RunEvent, PlaygroundResult> {
+  const queue: RunEvent[] = [];
+  let wake: (() => void) | undefined;
+  let settled = false;
+
+  const controller = new AbortController();
+  const forwardAbort = (): void => controller.abort(config.signal?.reason);
+  if (config.signal?.aborted) {
+    forwardAbort();
+  } else {
+    config.signal?.addEventListener("abort", forwardAbort, { once: true });
+  }
+
+  const run = runStrategy({
+    ...config,
+    signal: controller.signal,
+    onEvent: (event) => {
+      config.onEvent?.(event);
+      queue.push(event);
+      wake?.();
+    },
+  });
+  // The outcome itself is surfaced by `await run` below.
+  void run
+    .catch(() => undefined)
+    .then(() => {
+      settled = true;
+      wake?.();
+    });
+
+  try {
+    while (true) {
+      const event = queue.shift();
+      if (event) {
+        yield event;
+        continue;
+      }
+      if (settled) {
+        return await run;
+      }
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+      wake = undefined;
+    }
+  } finally {
+    config.signal?.removeEventListener("abort", forwardAbort);
+    if (!settled) {
+      controller.abort();
+    }
+  }
+}
+
 async function runStrategyOnce(
   config: StrategyRunConfig & { generationSettings: GenerationSettings },
+  definition: StrategyDefinition,
+  options: StrategyOptionValues,
+  recordUsage: (usage: TokenUsage) => void,
 ): Promise<PlaygroundResult> {
-  const client =
-    config.client ?? new GoogleModelClient(await resolveApiKeyFromEnv());
-  const registry = createDemoToolRegistry();
+  const client = new UsageTrackingModelClient(
+    withAbortSignal(
+      withRunEvents(
+        config.client ?? new GoogleModelClient(await resolveApiKeyFromEnv()),
+        config.onEvent,
+      ),
+      config.signal,
+    ),
+  );
+  const tools = config.toolRegistry ?? createDemoToolRegistry();
+  const retrieval =
+    config.toolTopK === undefined ? undefined : retrieveTools(tools, config.prompt, config.toolTopK);
+  if (retrieval && config.logs) {
+    config.logger?.(`[retrieval] k=${retrieval.k} selected=${retrieval.selected.join(",")}`);
+  }
 
-  if (config.strategy === "structured-json") {
-    const result = await runStructuredJsonRunner(
+  // A tool outside the top k that the model asks for joins the set mid-run.
+  const registry = retrieval
+    ? tools.subset(retrieval.selected, {
+        maxWidenings: MAX_RETRIEVAL_WIDENINGS,
+        onWiden: (name) => {
+          retrieval.widened.push(name);
+          if (config.logs) {
+            config.logger?.(`[retrieval] widened with ${name}`);
+          }
+        },
+      })
+    : tools;
+
+  try {
+    const result = await definition.run({
       client,
       registry,
-      config.prompt,
-      { model: config.model, generationSettings: config.generationSettings },
-    );
-    return withMeta(result, config.strategy, config.model);
+      prompt: config.prompt,
+      model: config.model,
+      generationSettings: config.generationSettings,
+      options,
+      signal: config.signal,
+      onEvent: config.onEvent,
+      history: config.history,
+    });
+    return withMeta(withRetrievalTrace(result, retrieval), config.strategy, config.model, retrieval);
+  } finally {
+    recordUsage(client.usage());
   }
+}
 
-  if (config.strategy === "single-tool-router") {
-    const result = await runSingleToolRouterRunner(
-      client,
-      registry,
-      config.prompt,
+/** Options for `config.strategy`: deprecated top-level fields, overridden by `strategyOptions`. */
+function resolveStrategyOptions(config: StrategyRunConfig): StrategyOptionValues {
+  const legacy: StrategyOptionsById = {
+    "structured-json": { maxTurns: config.structuredMaxTurns },
+    "single-tool-router": {
+      maxTurns: config.routerMaxTurns,
+      concurrentToolCalls: config.concurrentToolCalls,
+    },
+    "hybrid-repair": {
+      maxTurns: config.hybridMaxTurns,
+      repairModel: config.repairModel,
+      concurrentToolCalls: config.concurrentToolCalls,
+    },
+  };
+  const explicit = Object.entries(config.strategyOptions?.[config.strategy] ?? {}).filter(
+    ([, value]) => value !== undefined,
+  );
+  return { ...legacy[config.strategy], ...Object.fromEntries(explicit) };
+}
+
+function withRetrievalTrace(result: RunnerResult, retrieval: ToolRetrieval | undefined): RunnerResult {
+  if (!retrieval) {
+    return result;
+  }
+  return {
+    ...result,
+    trace: [
       {
-        model: config.model,
-        maxTurns: config.routerMaxTurns,
-        generationSettings: config.generationSettings,
+        kind: "retrieval",
+        detail: "tool_retrieval",
+        data: { k: retrieval.k, selected: retrieval.selected, widened: retrieval.widened },
       },
-    );
-    return withMeta(result, config.strategy, config.model);
-  }
-
-  const result = await runHybridRepairRunner(client, registry, config.prompt, {
-    model: config.model,
-    repairModel: config.repairModel,
-    maxTurns: config.hybridMaxTurns,
-    functionCallingMode: FunctionCallingConfigMode.VALIDATED,
-    generationSettings: config.generationSettings,
-  });
-  return withMeta(result, config.strategy, config.model);
+      ...result.trace,
+    ],
+  };
 }
 
 function withMeta(
-  result: {
-    strategy: Strategy;
-    finalText: string;
-    toolCalls: ToolCallRecord[];
-    trace: RunnerTraceStep[];
-  },
+  result: RunnerResult,
   strategy: Strategy,
   model: string,
+  toolRetrieval: ToolRetrieval | undefined,
 ): PlaygroundResult {
   return {
     ...result,
@@ -210,6 +419,9 @@ function withMeta(
     usedStrategy: strategy,
     attempts: 1,
     durationMs: 0,
+    usage: emptyUsage(),
+    llmCalls: summarizeLlmCalls(result.trace),
+    ...(toolRetrieval ? { toolRetrieval } : {}),
   };
 }
 
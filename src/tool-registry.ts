@@ -6,21 +6,35 @@ import type {
   ToolDefinition,
   ToolExecutionContext,
 } from "./contracts";
+import { coerceToSchema } from "./core/arg-coercion";
 
-interface ValidationSuccess {
+export interface ValidationSuccess {
   ok: true;
   args: JsonObject;
+  /** Fixes the deterministic coercer needed; absent when the args validated as given. */
+  coercions?: string[];
+  /** Why the args as given failed; set together with `coercions`. */
+  rawIssues?: z.core.$ZodIssue[];
 }
 
 interface ValidationFailure {
   ok: false;
   error: string;
+  /** Schema issues; empty when the tool itself is unknown. */
+  issues: z.core.$ZodIssue[];
 }
 
 export type ValidationResult = ValidationSuccess | ValidationFailure;
 
+export interface SubsetWidening {
+  /** Tools a run may pull in from the parent registry. */
+  maxWidenings: number;
+  onWiden?: (name: string) => void;
+}
+
 export class ToolRegistry {
   private readonly tools = new Map<string, ToolDefinition>();
+  private widening?: SubsetWidening & { parent: ToolRegistry; used: number };
 
   public register<Args extends JsonObject>(tool: ToolDefinition<Args>): void {
     this.tools.set(tool.name, tool as ToolDefinition);
@@ -34,6 +48,42 @@ export class ToolRegistry {
     return [...this.tools.keys()];
   }
 
+  /**
+   * A registry holding only `names`, in this registry's order; unknown names are
+   * ignored. With `widening`, `resolve` may pull in other tools from this one.
+   */
+  public subset(names: string[], widening?: SubsetWidening): ToolRegistry {
+    const wanted = new Set(names);
+    const subset = new ToolRegistry();
+    for (const [name, tool] of this.tools) {
+      if (wanted.has(name)) {
+        subset.tools.set(name, tool);
+      }
+    }
+    if (widening) {
+      subset.widening = { ...widening, parent: this, used: 0 };
+    }
+    return subset;
+  }
+
+  /**
+   * `has` for runners about to call `name`: a widening subset first adds a
+   * missing tool from its parent, while its budget lasts.
+   */
+  public resolve(name: string): boolean {
+    if (this.tools.has(name)) {
+      return true;
+    }
+    const tool = this.widening?.parent.tools.get(name);
+    if (!this.widening || !tool || this.widening.used >= this.widening.maxWidenings) {
+      return false;
+    }
+    this.widening.used += 1;
+    this.tools.set(name, tool);
+    this.widening.onWiden?.(name);
+    return true;
+  }
+
   public getArgsJsonSchema(name: string): unknown {
     const tool = this.tools.get(name);
     if (!tool) {
@@ -73,14 +123,29 @@ export class ToolRegistry {
     });
   }
 
+  /**
+   * Validates against the tool schema. Args that fail are retried once through
+   * the schema-guided coercer; failures report the issues of the args as given.
+   */
   public validateArgs(name: string, raw: unknown): ValidationResult {
     const tool = this.tools.get(name);
     if (!tool) {
-      return { ok: false, error: `Unknown tool: ${name}` };
+      return { ok: false, error: `Unknown tool: ${name}`, issues: [] };
     }
 
     const parsed = tool.argsSchema.safeParse(raw);
     if (!parsed.success) {
+      const coerced = coerceToSchema(this.getArgsJsonSchema(name), raw);
+      const retried =
+        coerced.changes.length > 0 ? tool.argsSchema.safeParse(coerced.value) : undefined;
+      if (retried?.success) {
+        return {
+          ok: true,
+          args: retried.data,
+          coercions: coerced.changes,
+          rawIssues: parsed.error.issues,
+        };
+      }
       return {
         ok: false,
         error: parsed.error.issues
@@ -89,6 +154,7 @@ export class ToolRegistry {
             return `${path}: ${issue.message}`;
           })
           .join("; "),
+        issues: parsed.error.issues,
       };
     }
 
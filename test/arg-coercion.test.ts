@@ -0,0 +1,72 @@
+import { describe, expect, it } from "bun:test";
+
+import { coerceToSchema, editDistance } from "../src/core/arg-coercion";
+import { createDemoToolRegistry } from "../src/demo-tools";
+
+describe("coerceToSchema", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      numbers: { type: "array", items: { type: "number" } },
+      order: { type: "string", enum: ["asc", "desc"] },
+      startDate: { type: "string" },
+      dedupe: { type: "boolean" },
+    },
+  };
+
+  it("fixes numbers, arrays, enum case, and key spelling", () => {
+    const result = coerceToSchema(schema, {
+      numbrs: "3, 1.5,2",
+      order: "DESC",
+      start_date: "2026-01-01",
+      dedupe: "true",
+    });
+
+    expect(result.value).toEqual({
+      numbers: [3, 1.5, 2],
+      order: "desc",
+      startDate: "2026-01-01",
+      dedupe: true,
+    });
+    expect(result.changes).toContain("numbrs: key -> numbers");
+    expect(result.changes).toContain('numbers.0: "3" -> 3');
+    expect(result.changes).toContain('order: "DESC" -> "desc"');
+  });
+
+  it("wraps a single value and leaves what it cannot fix", () => {
+    expect(coerceToSchema(schema, { numbers: "7" }).value).toEqual({ numbers: [7] });
+    expect(coerceToSchema(schema, { numbers: ["seven"], colour: "red" })).toEqual({
+      value: { numbers: ["seven"], colour: "red" },
+      changes: [],
+    });
+  });
+
+  it("measures edit distance", () => {
+    expect(editDistance("numbrs", "numbers")).toBe(1);
+    expect(editDistance("", "abc")).toBe(3);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+  });
+});
+
+describe("ToolRegistry.validateArgs coercion", () => {
+  it("reports coercions only when the args needed them", () => {
+    const registry = createDemoToolRegistry();
+
+    expect(registry.validateArgs("sum_numbers", { numbers: [1, 2] })).toEqual({
+      ok: true,
+      args: { numbers: [1, 2] },
+    });
+    expect(registry.validateArgs("sort_numbers", { Numbers: "3,1", order: "Desc" })).toMatchObject({
+      ok: true,
+      args: { numbers: [3, 1], order: "desc" },
+      coercions: [
+        "Numbers: key -> numbers",
+        'numbers: split "3,1" on commas',
+        'numbers.0: "3" -> 3',
+        'numbers.1: "1" -> 1',
+        'order: "Desc" -> "desc"',
+      ],
+    });
+    expect(registry.validateArgs("sum_numbers", { numbers: ["x"] }).ok).toBe(false);
+  });
+});
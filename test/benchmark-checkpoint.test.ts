@@ -0,0 +1,67 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { runBenchmark } from "../src/benchmark";
+import { readCheckpoint } from "../src/benchmark-checkpoint";
+import { PROMPT_PRESETS } from "../src/prompt-presets";
+import { StrategyRegistry } from "../src/strategy-registry";
+import { MockModelClient } from "./test-helpers";
+
+function countingRegistry(prompts: string[]): StrategyRegistry {
+  const registry = new StrategyRegistry();
+  registry.register({
+    id: "counting",
+    description: "Records which prompts ran.",
+    options: [],
+    run: async (context) => {
+      prompts.push(context.prompt);
+      return { strategy: "counting", finalText: "ok", toolCalls: [], trace: [] };
+    },
+  });
+  return registry;
+}
+
+describe("benchmark checkpoint", () => {
+  it("appends every record and resumes only the missing cells", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "gemini-tools-fix-checkpoint-"));
+    try {
+      const checkpointPath = join(dir, "bench.jsonl");
+      const presets = PROMPT_PRESETS.slice(0, 3);
+      const firstRun: string[] = [];
+      const config = {
+        models: ["test-model"],
+        strategies: ["counting"],
+        presets,
+        iterations: 1,
+        client: new MockModelClient([]),
+        checkpointPath,
+      };
+
+      await runBenchmark({ ...config, strategyRegistry: countingRegistry(firstRun) });
+      const lines = readFileSync(checkpointPath, "utf8").trim().split("\n");
+      expect(lines).toHaveLength(3);
+
+      // Simulate a crash after the first record, mid-way through writing the second.
+      writeFileSync(checkpointPath, `${lines[0]}\n${lines[1]?.slice(0, 20)}`);
+      expect(readCheckpoint(checkpointPath)).toHaveLength(1);
+
+      const resumedRun: string[] = [];
+      const result = await runBenchmark({
+        ...config,
+        strategyRegistry: countingRegistry(resumedRun),
+        resumeRecords: readCheckpoint(checkpointPath),
+      });
+
+      expect(resumedRun).toEqual(presets.slice(1).map((preset) => preset.prompt));
+      expect(result.records.map((record) => record.presetId)).toEqual(
+        presets.map((preset) => preset.id),
+      );
+      expect(result.aggregates[0]?.totalRuns).toBe(3);
+      expect(readCheckpoint(checkpointPath)).toHaveLength(3);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "bun:test";
+
+import {
+  buildAggregates,
+  buildComparisons,
+  buildPairwiseComparisons,
+  type BenchmarkResult,
+  type BenchmarkRunRecord,
+} from "../src/benchmark";
+import { compareBenchmarkResults } from "../src/benchmark-compare";
+import {
+  bootstrapInterval,
+  normalCdf,
+  twoProportionZTest,
+  wilsonInterval,
+} from "../src/core/stats";
+
+function runs(
+  count: number,
+  overrides: Partial<BenchmarkRunRecord> & { failures?: number },
+): BenchmarkRunRecord[] {
+  const { failures = 0, ...rest } = overrides;
+  return Array.from({ length: count }, (_, index) => ({
+    model: "test-model",
+    strategy: "hybrid-repair",
+    presetId: "preset-a",
+    iteration: index + 1,
+    success: index >= failures,
+    durationMs: 100,
+    attempts: 1,
+    toolCalls: 1,
+    repairedCalls: 0,
+    ...rest,
+  }));
+}
+
+function result(records: BenchmarkRunRecord[]): BenchmarkResult {
+  const aggregates = buildAggregates(records);
+  return {
+    startedAt: "",
+    finishedAt: "",
+    totalRuns: records.length,
+    records,
+    aggregates,
+    comparisons: buildComparisons(aggregates),
+    pairwise: buildPairwiseComparisons(records),
+  };
+}
+
+describe("stats", () => {
+  it("computes the normal CDF and a two-proportion z-test", () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+
+    const test = twoProportionZTest(45, 50, 30, 50);
+    expect(test.delta).toBeCloseTo(-0.3, 6);
+    expect(test.z).toBeCloseTo(-3.464, 2);
+    expect(test.pValue).toBeLessThan(0.001);
+    expect(twoProportionZTest(5, 5, 5, 5).pValue).toBe(1);
+  });
+
+  it("computes Wilson and seeded bootstrap intervals", () => {
+    const wilson = wilsonInterval(8, 10);
+    expect(wilson.low).toBeCloseTo(0.4902, 3);
+    expect(wilson.high).toBeCloseTo(0.9433, 3);
+    expect(wilsonInterval(0, 0)).toEqual({ low: 0, high: 0 });
+    expect(wilsonInterval(2, 2).high).toBe(1);
+
+    const values = [100, 120, 130, 150, 400];
+    const mean = (sample: number[]) => sample.reduce((a, b) => a + b, 0) / sample.length;
+    const interval = bootstrapInterval(values, mean);
+    expect(interval.low).toBeGreaterThanOrEqual(100);
+    expect(interval.low).toBeLessThan(180);
+    expect(interval.high).toBeGreaterThan(180);
+    expect(interval.high).toBeLessThanOrEqual(400);
+    expect(bootstrapInterval(values, mean)).toEqual(interval);
+  });
+});
+
+describe("compareBenchmarkResults", () => {
+  it("flags significant drops but not noise from a single iteration", () => {
+    const baseline = result([
+      ...runs(40, { failures: 2 }),
+      ...runs(1, { presetId: "preset-b" }),
+    ]);
+    const candidate = result([
+      ...runs(40, { failures: 16 }),
+      ...runs(1, { presetId: "preset-b", success: false }),
+      ...runs(1, { presetId: "preset-new" }),
+    ]);
+
+    const report = compareBenchmarkResults(baseline, candidate);
+
+    expect(report.passed).toBe(false);
+    const cellA = report.cells.find((row) => row.presetId === "preset-a");
+    expect(cellA?.regressions).toEqual(["success"]);
+    expect(cellA?.success.delta).toBeCloseTo(-0.35, 6);
+    const cellB = report.cells.find((row) => row.presetId === "preset-b");
+    expect(cellB?.success.delta).toBe(-1);
+    expect(cellB?.regressions).toEqual([]);
+    expect(report.strategies).toHaveLength(1);
+    expect(report.strategies[0]?.baselineRuns).toBe(41);
+    expect(report.newInCandidate).toEqual(["test-model/hybrid-repair/preset-new"]);
+  });
+
+  it("checks correctness and the optional latency threshold", () => {
+    const baseline = result(runs(30, { correct: true, durationMs: 100 }));
+    const candidate = result(
+      runs(30, { durationMs: 180 }).map((record, index) => ({ ...record, correct: index >= 15 })),
+    );
+
+    expect(compareBenchmarkResults(baseline, candidate).strategies[0]?.regressions).toEqual([
+      "correctness",
+    ]);
+    const withLatency = compareBenchmarkResults(baseline, candidate, {
+      maxLatencyIncrease: 0.5,
+      maxCorrectnessDrop: 0.6,
+    });
+    expect(withLatency.strategies[0]?.regressions).toEqual(["latency"]);
+    expect(withLatency.strategies[0]?.deltaDurationMs).toBe(80);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "bun:test";
+
+import {
+  buildAggregates,
+  buildComparisons,
+  buildPairwiseComparisons,
+  type BenchmarkResult,
+  type BenchmarkRunRecord,
+} from "../src/benchmark";
+import { parseReportFormat, renderBenchmarkReport } from "../src/reports/benchmark-report";
+
+function record(overrides: Partial<BenchmarkRunRecord>): BenchmarkRunRecord {
+  return {
+    model: "test-model",
+    strategy: "structured-json",
+    presetId: "preset-a",
+    iteration: 1,
+    success: true,
+    durationMs: 100,
+    attempts: 1,
+    toolCalls: 1,
+    repairedCalls: 0,
+    ...overrides,
+  };
+}
+
+function fixture(): BenchmarkResult {
+  const records = [
+    record({ correct: true }),
+    record({ strategy: "hybrid-repair", correct: false, expectationFailures: ["missing tool calls: sum_numbers"] }),
+    record({ presetId: "preset-b", success: false, error: 'bad "json", <oops>' }),
+    record({ strategy: "hybrid-repair", presetId: "preset-b", durationMs: 250 }),
+  ];
+  const aggregates = buildAggregates(records);
+  return {
+    startedAt: "2026-01-01T00:00:00.000Z",
+    finishedAt: "2026-01-01T00:01:00.000Z",
+    totalRuns: records.length,
+    records,
+    aggregates,
+    comparisons: buildComparisons(aggregates),
+    pairwise: buildPairwiseComparisons(records),
+  };
+}
+
+describe("benchmark reports", () => {
+  it("rejects unknown formats", () => {
+    expect(parseReportFormat("junit")).toBe("junit");
+    expect(() => parseReportFormat("pdf")).toThrow("Unknown report format");
+  });
+
+  it("renders CSV sections with quoted fields", () => {
+    const csv = renderBenchmarkReport(fixture(), "csv");
+    expect(csv).toContain("# aggregates\nstrategy,model,totalRuns,successRate");
+    expect(csv).toContain("# records\n");
+    expect(csv).toContain('"bad ""json"", <oops>"');
+  });
+
+  it("renders Markdown tables", () => {
+    const md = renderBenchmarkReport(fixture(), "md");
+    expect(md).toContain("## Comparisons");
+    expect(md).toContain("| model | strategy | presetId |");
+    expect(md).toContain("| test-model | hybrid-repair | preset-b | 1 | true |");
+  });
+
+  it("renders a self-contained HTML page with a heatmap", () => {
+    const html = renderBenchmarkReport(fixture(), "html");
+    expect(html).toContain('<table id="heatmap">');
+    expect(html).toContain('<table class="sortable" id="records">');
+    expect(html).toContain("bad &quot;json&quot;, &lt;oops&gt;");
+    expect(html).not.toMatch(/<(script|link)[^>]+(src|href)=/);
+    // preset-b × structured-json failed its only run.
+    expect(html).toContain('style="background: hsl(0, 70%, 75%)" title="0/1 succeeded">0%</td>');
+  });
+
+  it("renders one JUnit testcase per strategy/preset cell", () => {
+    const xml = renderBenchmarkReport(fixture(), "junit");
+    expect(xml).toContain('<testsuites name="benchmark" tests="4" failures="2"');
+    expect(xml).toContain('<testsuite name="test-model" tests="4" failures="2"');
+    expect(xml).toContain('name="hybrid-repair / preset-a"');
+    expect(xml).toContain("missing tool calls: sum_numbers</failure>");
+    expect(xml).toContain('name="hybrid-repair / preset-b" time="0.250"/>');
+  });
+
+  it("keeps one JUnit testcase per k in a tool-top-k sweep", () => {
+    const records = [
+      record({ toolTopK: 1, success: false, error: "unknown tool" }),
+      record({ toolTopK: 3 }),
+    ];
+    const xml = renderBenchmarkReport({ ...fixture(), records }, "junit");
+
+    expect(xml).toContain('<testsuites name="benchmark" tests="2" failures="1"');
+    expect(xml).toContain(
+      '<testcase classname="test-model.structured-json@k1" name="structured-json@k1 / preset-a" time="0.100">',
+    );
+    expect(xml).toContain(
+      '<testcase classname="test-model.structured-json@k3" name="structured-json@k3 / preset-a" time="0.100"/>',
+    );
+  });
+});
@@ -1,7 +1,19 @@
 import { describe, expect, it } from "bun:test";
 
 import type { BenchmarkRunRecord } from "../src/benchmark";
-import { buildAggregates, buildComparisons } from "../src/benchmark";
+import {
+  buildAggregates,
+  buildComparisons,
+  buildPairwiseComparisons,
+  describeSignificantComparisons,
+  describeSignificantPairs,
+  runBenchmark,
+} from "../src/benchmark";
+import { benchmarkCellKey } from "../src/benchmark-checkpoint";
+import { throwIfAborted } from "../src/errors";
+import { PROMPT_PRESETS } from "../src/prompt-presets";
+import { StrategyRegistry } from "../src/strategy-registry";
+import { MockModelClient } from "./test-helpers";
 
 function record(overrides: Partial<BenchmarkRunRecord>): BenchmarkRunRecord {
   return {
@@ -27,6 +39,7 @@ describe("benchmark aggregates", () => {
         success: true,
         toolCalls: 2,
         repairedCalls: 1,
+        repairRounds: 2,
         attempts: 1,
       }),
       record({
@@ -66,10 +79,128 @@ describe("benchmark aggregates", () => {
     expect(row.avgToolCalls).toBe(1);
     expect(row.avgRepairedCalls).toBe(0.33);
     expect(row.repairRate).toBe(0.33);
+    expect(row.avgRepairRounds).toBe(2);
     expect(row.toolUseRate).toBe(0.67);
     expect(row.avgAttempts).toBe(1.33);
   });
 
+  it("scores correctness only over runs with expectations", () => {
+    const aggregates = buildAggregates([
+      record({ correct: true }),
+      record({ correct: false, expectationFailures: ["missing tool calls: sum_numbers"] }),
+      record({ success: false, correct: false }),
+      record({ presetId: "unscored" }),
+    ]);
+
+    const row = aggregates[0];
+    expect(row?.scoredRuns).toBe(3);
+    expect(row?.correctRuns).toBe(1);
+    expect(row?.correctnessRate).toBeCloseTo(1 / 3, 5);
+    expect(row?.successRate).toBe(0.75);
+  });
+
+  it("averages token usage and divides total cost by successful and correct runs", () => {
+    const usage = { promptTokens: 100, outputTokens: 20, thoughtTokens: 10, totalTokens: 130 };
+    const aggregates = buildAggregates([
+      record({ usage, costUsd: 0.002, correct: true }),
+      record({ usage, costUsd: 0.002, correct: false }),
+      record({ usage, costUsd: 0.002, success: false, correct: false }),
+    ]);
+
+    const row = aggregates[0];
+    expect(row?.avgPromptTokens).toBe(100);
+    expect(row?.avgTotalTokens).toBe(130);
+    expect(row?.tokensPerSuccess).toBe(195);
+    expect(row?.totalCostUsd).toBe(0.006);
+    expect(row?.costPerSuccessUsd).toBe(0.003);
+    expect(row?.costPerCorrectUsd).toBe(0.006);
+
+    const unpriced = buildAggregates([record({ usage, success: false })])[0];
+    expect(unpriced?.tokensPerSuccess).toBeUndefined();
+    expect(unpriced?.totalCostUsd).toBeUndefined();
+  });
+
+  it("counts failed runs per failure category", () => {
+    const [row] = buildAggregates([
+      record({ success: false, errorCategory: "unknown_tool" }),
+      record({ success: false, errorCategory: "unknown_tool" }),
+      record({ success: false, errorCategory: "timeout" }),
+      record({ success: false }),
+      record({}),
+    ]);
+
+    expect(row?.failureCategories).toEqual({ unknown_tool: 2, timeout: 1, unknown: 1 });
+  });
+
+  it("attaches confidence intervals and pairwise significance", () => {
+    const records = [
+      ...Array.from({ length: 30 }, (_, index) =>
+        record({ strategy: "hybrid-repair", iteration: index + 1, durationMs: 100 + index }),
+      ),
+      ...Array.from({ length: 30 }, (_, index) =>
+        record({ strategy: "structured-json", iteration: index + 1, success: index < 12 }),
+      ),
+    ];
+
+    const aggregates = buildAggregates(records);
+    const hybrid = aggregates.find((row) => row.strategy === "hybrid-repair");
+    expect(hybrid?.successRateCi.high).toBe(1);
+    expect(hybrid?.successRateCi.low).toBeGreaterThan(0.85);
+    expect(hybrid?.avgDurationMsCi.low).toBeLessThanOrEqual(hybrid?.avgDurationMs ?? 0);
+    expect(hybrid?.avgDurationMsCi.high).toBeGreaterThanOrEqual(hybrid?.avgDurationMs ?? 0);
+    expect(hybrid?.correctnessRateCi).toBeUndefined();
+
+    const comparisons = buildComparisons(aggregates);
+    const structured = comparisons.find((row) => row.strategy === "structured-json");
+    expect(structured?.baselineStrategy).toBe("hybrid-repair");
+    expect(structured?.significant).toBe(true);
+    expect(structured?.successPValue).toBeLessThan(0.001);
+    expect(describeSignificantComparisons(comparisons)).toEqual([
+      `hybrid-repair beats structured-json on test-model at 95% confidence (p=${structured?.successPValue})`,
+    ]);
+  });
+
+  it("tests every strategy pair per model/preset cell and per model", () => {
+    const records = ["preset-a", "preset-b"].flatMap((presetId) => [
+      ...Array.from({ length: 20 }, (_, index) =>
+        record({ strategy: "hybrid-repair", presetId, iteration: index + 1 }),
+      ),
+      ...Array.from({ length: 20 }, (_, index) =>
+        record({
+          strategy: "single-tool-router",
+          presetId,
+          iteration: index + 1,
+          success: index < 17,
+        }),
+      ),
+      ...Array.from({ length: 20 }, (_, index) =>
+        record({ strategy: "structured-json", presetId, iteration: index + 1, success: index < 4 }),
+      ),
+    ]);
+
+    const pairs = buildPairwiseComparisons(records);
+
+    // 3 pairs in each of 2 preset cells, plus 3 for the model rollup.
+    expect(pairs).toHaveLength(9);
+    const routerVsStructured = pairs.find(
+      (row) =>
+        row.presetId === "preset-a" &&
+        row.strategy === "single-tool-router" &&
+        row.otherStrategy === "structured-json",
+    );
+    expect(routerVsStructured).toMatchObject({ successRate: 0.85, otherSuccessRate: 0.2, significant: true });
+    const rollup = pairs.filter((row) => row.presetId === undefined);
+    expect(rollup.map((row) => [row.strategy, row.otherStrategy])).toEqual([
+      ["hybrid-repair", "structured-json"],
+      ["single-tool-router", "structured-json"],
+      ["hybrid-repair", "single-tool-router"],
+    ]);
+    expect(rollup.find((row) => row.otherStrategy === "single-tool-router")?.runs).toBe(40);
+    expect(describeSignificantPairs(rollup)).toContain(
+      `single-tool-router beats structured-json on test-model at 95% confidence (p=${rollup[1]?.successPValue})`,
+    );
+  });
+
   it("builds per-model comparisons against best strategy", () => {
     const aggregates = buildAggregates([
       record({
@@ -120,3 +251,136 @@ describe("benchmark aggregates", () => {
     expect(hybrid?.deltaSuccessRate).toBeGreaterThan(0);
   });
 });
+
+describe("runBenchmark", () => {
+  it("runs concurrently but keeps records in matrix order and logs every start", async () => {
+    const registry = new StrategyRegistry();
+    registry.register({
+      id: "sleepy",
+      description: "Finishes faster for later presets.",
+      options: [],
+      run: async (context) => {
+        await new Promise((resolve) => setTimeout(resolve, context.prompt.length % 7));
+        return { strategy: "sleepy", finalText: "ok", toolCalls: [], trace: [] };
+      },
+    });
+    const lines: string[] = [];
+
+    const result = await runBenchmark({
+      models: ["model-a", "model-b"],
+      strategies: ["sleepy"],
+      presets: PROMPT_PRESETS.slice(0, 3),
+      iterations: 2,
+      concurrency: 4,
+      modelConcurrency: { "model-a": 1 },
+      logs: true,
+      strategyRegistry: registry,
+      client: new MockModelClient([]),
+      logger: (line) => lines.push(line),
+    });
+
+    expect(result.records.map((item) => `${item.model}/${item.presetId}/${item.iteration}`)).toEqual(
+      ["model-a", "model-b"].flatMap((model) =>
+        PROMPT_PRESETS.slice(0, 3).flatMap((preset) => [
+          `${model}/${preset.id}/1`,
+          `${model}/${preset.id}/2`,
+        ]),
+      ),
+    );
+    expect(lines.filter((line) => line.startsWith("[bench]"))).toHaveLength(12);
+  });
+
+  it("stops on abort and returns only the runs that finished", async () => {
+    const controller = new AbortController();
+    let runs = 0;
+    const registry = new StrategyRegistry();
+    registry.register({
+      id: "cancelling",
+      description: "Cancels the benchmark during its second run.",
+      options: [],
+      run: async (context) => {
+        runs += 1;
+        if (runs === 2) {
+          controller.abort();
+          throwIfAborted(context.signal);
+        }
+        return { strategy: "cancelling", finalText: "ok", toolCalls: [], trace: [] };
+      },
+    });
+
+    const result = await runBenchmark({
+      models: ["model-a"],
+      strategies: ["cancelling"],
+      presets: PROMPT_PRESETS.slice(0, 3),
+      iterations: 1,
+      maxRetries: 2,
+      strategyRegistry: registry,
+      client: new MockModelClient([]),
+      signal: controller.signal,
+    });
+
+    expect(runs).toBe(2);
+    expect(result.aborted).toBe(true);
+    expect(result.records.map((item) => item.presetId)).toEqual(
+      PROMPT_PRESETS.slice(0, 1).map((preset) => preset.id),
+    );
+  });
+
+  it("sweeps tool retrieval k and scores whether required tools made the cut", async () => {
+    const exposed: string[] = [];
+    const registry = new StrategyRegistry();
+    registry.register({
+      id: "tool-lister",
+      description: "Records which tools it was given.",
+      options: [],
+      run: async (context) => {
+        exposed.push(context.registry.names().join(","));
+        return { strategy: "tool-lister", finalText: "ok", toolCalls: [], trace: [] };
+      },
+    });
+    const presets = PROMPT_PRESETS.filter((preset) =>
+      ["sum-and-uppercase", "temp-conversion"].includes(preset.id),
+    );
+
+    const result = await runBenchmark({
+      models: ["model-a"],
+      strategies: ["tool-lister"],
+      presets,
+      iterations: 1,
+      toolTopK: [1, 3],
+      strategyRegistry: registry,
+      client: new MockModelClient([]),
+    });
+
+    expect(exposed[0]?.split(",")).toHaveLength(1);
+    expect(exposed[2]?.split(",")).toHaveLength(3);
+    expect(result.records.map((item) => [item.toolTopK, item.presetId, item.retrievalHit])).toEqual([
+      [1, "sum-and-uppercase", false],
+      [1, "temp-conversion", true],
+      [3, "sum-and-uppercase", true],
+      [3, "temp-conversion", true],
+    ]);
+    expect(result.aggregates.map((row) => [row.toolTopK, row.retrievalRecall])).toEqual([
+      [1, 0.5],
+      [3, 1],
+    ]);
+    expect(benchmarkCellKey(record({}))).toBe('["test-model","structured-json","preset-a",1]');
+    expect(benchmarkCellKey(record({ toolTopK: 3 }))).toBe(
+      '["test-model","structured-json","preset-a",1,3]',
+    );
+  });
+
+  it("rates recovery from tool errors only over runs that hit one", () => {
+    const [row] = buildAggregates([
+      record({ toolErrors: 2, recoveredToolErrors: 1 }),
+      record({ toolErrors: 1, recoveredToolErrors: 1 }),
+      record({}),
+      record({}),
+    ]);
+    const [clean] = buildAggregates([record({})]);
+
+    expect(row?.avgToolErrors).toBe(0.75);
+    expect(row?.toolErrorRecoveryRate).toBe(0.67);
+    expect(clean?.toolErrorRecoveryRate).toBeUndefined();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  RecordingModelClient,
+  ReplayModelClient,
+  hashModelRequest,
+  readCassette,
+} from "../src/cassette-client";
+import { createTestToolRegistry } from "../src/demo-tools";
+import { runStructuredJsonRunner } from "../src/runners/structured-json-runner";
+import { MockModelClient } from "./test-helpers";
+
+function mockResponses() {
+  return [
+    {
+      text: '{"action":"call_tool","toolName":"sum_numbers","args":{"numbers":[1,2,3]}}',
+      functionCalls: [],
+      raw: {},
+    },
+    {
+      text: '{"action":"respond","response":"Total is 6"}',
+      functionCalls: [],
+      raw: {},
+    },
+  ];
+}
+
+describe("cassette clients", () => {
+  it("hashes requests independently of key order", () => {
+    const a = hashModelRequest({
+      model: "test-model",
+      contents: "hello",
+      config: { responseMimeType: "application/json", temperature: 0 },
+    });
+    const b = hashModelRequest({
+      config: { temperature: 0, responseMimeType: "application/json" },
+      contents: "hello",
+      model: "test-model",
+    });
+
+    expect(a).toBe(b);
+  });
+
+  it("replays a recorded run without calling the model", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "gemini-tools-fix-cassette-"));
+    try {
+      const recorder = new RecordingModelClient(new MockModelClient(mockResponses()), dir);
+      const recorded = await runStructuredJsonRunner(
+        recorder,
+        createTestToolRegistry(),
+        "Add 1, 2, and 3",
+        { model: "test-model" },
+      );
+
+      expect(readCassette(dir)).toHaveLength(2);
+
+      const replayed = await runStructuredJsonRunner(
+        ReplayModelClient.fromDir(dir),
+        createTestToolRegistry(),
+        "Add 1, 2, and 3",
+        { model: "test-model" },
+      );
+
+      expect(replayed.finalText).toBe(recorded.finalText);
+      expect(replayed.toolCalls).toEqual(recorded.toolCalls);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("fails clearly when a request was never recorded", async () => {
+    const replay = new ReplayModelClient([]);
+
+    await expect(
+      replay.generateContent({ model: "test-model", contents: "unseen" }),
+    ).rejects.toThrow("No recorded response");
+  });
+});
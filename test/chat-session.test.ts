@@ -0,0 +1,83 @@
+import { describe, expect, it } from "bun:test";
+import type { Content } from "@google/genai";
+
+import { ChatSession, describeToolCall } from "../src/chat-session";
+import { MockModelClient } from "./test-helpers";
+
+describe("chat session", () => {
+  it("carries native tool turns into the next hybrid-repair request", async () => {
+    const client = new MockModelClient([
+      {
+        text: "",
+        functionCalls: [{ id: "call_1", name: "sum_numbers", args: { numbers: [1, 2, 3] } }],
+        raw: {},
+      },
+      { text: "The sum is 6.", functionCalls: [], raw: {} },
+      { text: "Doubled, that is 12.", functionCalls: [], raw: {} },
+    ]);
+    const session = new ChatSession({ strategy: "hybrid-repair", model: "test-model", client });
+
+    await session.send("Add 1 2 3");
+    const second = await session.send("Now double it");
+
+    expect(second.finalText).toBe("Doubled, that is 12.");
+    const contents = client.calls[2]?.contents as Content[];
+    expect(contents.map((content) => content.role)).toEqual([
+      "user",
+      "model",
+      "user",
+      "model",
+      "user",
+    ]);
+    expect(contents[2]?.parts?.[0]?.functionResponse?.response).toEqual({ result: { total: 6 } });
+    expect(contents[3]?.parts?.[0]?.text).toBe("The sum is 6.");
+    expect(contents[4]?.parts?.[0]?.text).toBe("Now double it");
+    expect(session.history()).toHaveLength(6);
+    expect(session.turns().map((turn) => turn.prompt)).toEqual(["Add 1 2 3", "Now double it"]);
+  });
+
+  it("renders earlier structured-json turns into the planner prompt", async () => {
+    const client = new MockModelClient([
+      {
+        text: '{"action":"call_tool","toolName":"sum_numbers","args":{"numbers":[2,3]}}',
+        functionCalls: [],
+        raw: {},
+      },
+      { text: '{"action":"respond","response":"Total is 5"}', functionCalls: [], raw: {} },
+      { text: '{"action":"respond","response":"It was 5"}', functionCalls: [], raw: {} },
+    ]);
+    const session = new ChatSession({ strategy: "structured-json", model: "test-model", client });
+
+    await session.send("Add 2 and 3");
+    await session.send("What was the total?");
+
+    const plannerPrompt = String(client.calls[2]?.contents);
+    expect(plannerPrompt).toContain("User: Add 2 and 3");
+    expect(plannerPrompt).toContain('Assistant called sum_numbers({"numbers":[2,3]})');
+    expect(plannerPrompt).toContain('Tool sum_numbers returned {"result":{"total":5}}');
+    expect(plannerPrompt).toContain("Assistant: Total is 5");
+  });
+
+  it("keeps the history unchanged when a turn fails and clears it on reset", async () => {
+    const client = new MockModelClient([
+      { text: '{"action":"respond","response":"hi"}', functionCalls: [], raw: {} },
+      { text: "not json", functionCalls: [], raw: {} },
+    ]);
+    const session = new ChatSession({ strategy: "structured-json", model: "test-model", client });
+
+    await session.send("Say hi");
+    const before = session.history();
+    await expect(session.send("Again")).rejects.toThrow();
+
+    expect(session.history()).toEqual(before);
+    session.reset();
+    expect(session.history()).toEqual([]);
+    expect(session.turns()).toEqual([]);
+  });
+
+  it("describes tool calls on one line", () => {
+    expect(
+      describeToolCall({ toolName: "sum_numbers", args: { numbers: [1, 2] }, result: 3, repaired: "llm" }),
+    ).toBe('sum_numbers {"numbers":[1,2]} -> 3 (llm repair)');
+  });
+});
@@ -18,4 +18,16 @@ describe("cli help", () => {
     expect(stdout).toContain("Usage (single run):");
     expect(stdout).toContain("--list-models");
   });
+
+  it("rejects out-of-range strategy option flags instead of dropping them", () => {
+    const result = Bun.spawnSync({
+      cmd: ["bun", "run", "index.ts", "hybrid-repair", "Add 1 and 2", "--repair-rounds=9"],
+      cwd: process.cwd(),
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr.toString()).toContain("--repair-rounds=<n> expects an integer 0-5, got '9'.");
+  });
 });
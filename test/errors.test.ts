@@ -0,0 +1,48 @@
+import { describe, expect, it } from "bun:test";
+
+import {
+  classifyError,
+  DispatchPayloadError,
+  isRecoverableError,
+  RateLimitError,
+  ToolExecutionError,
+} from "../src/errors";
+import { toModelTransportError } from "../src/gemini-client";
+import { StrategyRunError } from "../src/strategy-runner";
+
+describe("errors", () => {
+  it("classifies typed errors by category, including through a retry wrapper", () => {
+    expect(classifyError(new DispatchPayloadError("bad payload"))).toBe("dispatch_payload_invalid");
+
+    const wrapped = new StrategyRunError(
+      "Run failed after 2 attempt(s)",
+      2,
+      { promptTokens: 0, outputTokens: 0, thoughtTokens: 0, totalTokens: 0 },
+      [],
+      { cause: new ToolExecutionError("sum_numbers", new Error("boom")) },
+    );
+    expect(classifyError(wrapped)).toBe("tool_execution_error");
+  });
+
+  it("falls back to message matching for untyped transport errors", () => {
+    expect(classifyError(new Error("Gemini request timed out after 45000ms"))).toBe("timeout");
+    expect(classifyError(new Error('{"error":{"code":429,"status":"RESOURCE_EXHAUSTED"}}'))).toBe(
+      "rate_limited",
+    );
+    expect(classifyError("something else")).toBe("unknown");
+  });
+
+  it("maps SDK failures onto transport errors and only retries recoverable ones", () => {
+    const limited = toModelTransportError(
+      new Error('{"error":{"code":429,"message":"Please retry in 2.5s.","status":"RESOURCE_EXHAUSTED"}}'),
+    );
+    expect(limited).toBeInstanceOf(RateLimitError);
+    expect((limited as RateLimitError).retryAfterMs).toBe(2_500);
+
+    const badRequest = toModelTransportError(new Error('{"error":{"code":400,"status":"INVALID_ARGUMENT"}}'));
+    expect(badRequest.status).toBe(400);
+    expect(isRecoverableError(badRequest)).toBe(false);
+    expect(isRecoverableError(new ToolExecutionError("sum_numbers", "boom"))).toBe(false);
+    expect(isRecoverableError(new Error("transient failure"))).toBe(true);
+  });
+});
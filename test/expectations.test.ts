@@ -0,0 +1,65 @@
+import { describe, expect, it } from "bun:test";
+
+import type { ToolCallRecord } from "../src/contracts";
+import { evaluateExpectations, matchesExpectedValue } from "../src/expectations";
+
+function call(toolName: string, args: Record<string, unknown>, result: unknown): ToolCallRecord {
+  return { toolName, args, result, repaired: false };
+}
+
+describe("preset expectations", () => {
+  it("matches partial and exact values with numeric tolerance", () => {
+    expect(matchesExpectedValue({ value: 35.001, unit: "C" }, { value: 35 }, "partial", 0.01)).toBe(
+      true,
+    );
+    expect(matchesExpectedValue({ value: 35, unit: "C" }, { value: 35 }, "exact")).toBe(false);
+    expect(matchesExpectedValue({ numbers: [1, 2] }, { numbers: [1, 2, 3] })).toBe(false);
+  });
+
+  it("passes when tools, args, results, and final text all line up", () => {
+    const outcome = evaluateExpectations(
+      {
+        requiredTools: ["multiply_numbers", "to_uppercase"],
+        toolOrder: "ordered",
+        toolArgs: [{ toolName: "multiply_numbers", args: { numbers: [3, 4, 5] } }],
+        toolResults: [{ toolName: "multiply_numbers", result: { product: 60 } }],
+        finalText: [
+          { type: "number", value: 60 },
+          { type: "contains", value: "SHIPPED", caseSensitive: true },
+          { type: "regex", pattern: "product\\s+is", flags: "i" },
+        ],
+      },
+      {
+        finalText: "The product is 60 and the word is SHIPPED.",
+        toolCalls: [
+          call("multiply_numbers", { numbers: [3, 4, 5] }, { product: 60 }),
+          call("to_uppercase", { text: "shipped" }, { transformed: "SHIPPED" }),
+        ],
+      },
+    );
+
+    expect(outcome).toEqual({ passed: true, failures: [] });
+  });
+
+  it("reports every failed check", () => {
+    const outcome = evaluateExpectations(
+      {
+        requiredTools: ["multiply_numbers", "to_uppercase"],
+        toolOrder: "ordered",
+        toolResults: [{ toolName: "multiply_numbers", result: { product: 60 } }],
+        finalText: [{ type: "number", value: 1234 }],
+      },
+      {
+        finalText: "Total: 1,235",
+        toolCalls: [
+          call("to_uppercase", { text: "shipped" }, { transformed: "SHIPPED" }),
+          call("multiply_numbers", { numbers: [3, 4] }, { product: 12 }),
+        ],
+      },
+    );
+
+    expect(outcome.passed).toBe(false);
+    expect(outcome.failures).toHaveLength(3);
+    expect(outcome.failures[0]).toContain("out of order");
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "bun:test";
+
+import type { ModelClient, ModelResult } from "../src/contracts";
+import { runWorkerPool } from "../src/core/worker-pool";
+import { RateLimitError } from "../src/errors";
+import {
+  FaultInjectingModelClient,
+  parseFaultProfile,
+} from "../src/fault-injection";
+import { MockModelClient } from "./test-helpers";
+
+function sumCall(): ModelResult {
+  return {
+    text: "",
+    functionCalls: [{ id: "call_1", name: "sum_numbers", args: { numbers: [1, 2] } }],
+    raw: {},
+  };
+}
+
+describe("fault injection", () => {
+  it("parses fault profiles", () => {
+    expect(parseFaultProfile("truncate:0.2, alias-keys:0.1,rate-limit")).toEqual({
+      truncate: 0.2,
+      "alias-keys": 0.1,
+      "rate-limit": 1,
+    });
+    expect(() => parseFaultProfile("explode:0.5")).toThrow("Unknown fault");
+    expect(() => parseFaultProfile("truncate:2")).toThrow("between 0 and 1");
+  });
+
+  it("injects the same faults for the same seed", async () => {
+    const run = async (): Promise<string[]> => {
+      const inner = new MockModelClient(
+        Array.from({ length: 6 }, () => ({
+          text: '{"action":"respond","response":"ok"}',
+          functionCalls: [],
+          raw: {},
+        })),
+      );
+      const client = new FaultInjectingModelClient(inner, {
+        profile: { truncate: 0.5, "markdown-fence": 0.5 },
+        seed: 42,
+      });
+      const texts: string[] = [];
+      for (let index = 0; index < 6; index += 1) {
+        texts.push((await client.generateContent({ model: "m", contents: "x" })).text);
+      }
+      return texts;
+    };
+
+    expect(await run()).toEqual(await run());
+  });
+
+  it("places faults by request, not by arrival order under concurrency", async () => {
+    const echo: ModelClient = {
+      generateContent: async (request) => {
+        const prompt = String(request.contents);
+        // Later runs answer faster, so concurrent requests arrive out of order.
+        await new Promise((resolve) => setTimeout(resolve, 8 - Number(prompt.split(":")[1])));
+        return { text: `{"action":"respond","response":"${prompt}"}`, functionCalls: [], raw: {} };
+      },
+    };
+    const run = async (concurrency: number): Promise<string[]> => {
+      const client = new FaultInjectingModelClient(echo, {
+        profile: { truncate: 0.3, "markdown-fence": 0.3 },
+        seed: 7,
+      });
+      const runs = await runWorkerPool(
+        Array.from({ length: 8 }, (_, index) => index),
+        { concurrency },
+        async (index) => {
+          const first = await client.generateContent({ model: "m", contents: `run:${index}:1` });
+          const second = await client.generateContent({ model: "m", contents: `run:${index}:2` });
+          return [first.text, second.text];
+        },
+      );
+      return runs.flat();
+    };
+
+    const sequential = await run(1);
+    expect(await run(4)).toEqual(sequential);
+    expect(sequential.some((text) => text.startsWith("```") || !text.endsWith("}"))).toBe(true);
+  });
+
+  it("throws typed rate-limit errors for rate-limit faults", async () => {
+    const client = new FaultInjectingModelClient(new MockModelClient([sumCall()]), {
+      profile: { "rate-limit": 1 },
+    });
+
+    const error = await client.generateContent({ model: "m", contents: "x" }).catch((caught) => caught);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).message).toContain("RESOURCE_EXHAUSTED");
+    expect((error as RateLimitError).retryAfterMs).toBe(1_000);
+    expect(client.injectedCounts()).toEqual({ "rate-limit": 1 });
+  });
+
+  it("corrupts native and dispatch function-call args", async () => {
+    const inner = new MockModelClient([
+      sumCall(),
+      {
+        text: "",
+        functionCalls: [
+          {
+            id: "call_1",
+            name: "dispatch_tool",
+            args: { toolName: "convert_temperature", argumentsJson: '{"fromUnit":"F"}' },
+          },
+        ],
+        raw: {},
+      },
+    ]);
+    const client = new FaultInjectingModelClient(inner, {
+      profile: { "stringify-numbers": 1, "alias-keys": 1 },
+    });
+
+    const native = await client.generateContent({ model: "m", contents: "x" });
+    expect(native.functionCalls[0]?.args).toEqual({ numbersValue: ["1", "2"] });
+
+    const dispatch = await client.generateContent({ model: "m", contents: "x" });
+    expect(dispatch.functionCalls[0]?.args).toEqual({
+      toolName: "convert_temperature",
+      argumentsJson: '{"from_unit":"F"}',
+    });
+  });
+});
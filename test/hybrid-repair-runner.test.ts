@@ -1,8 +1,10 @@
 import { describe, expect, it } from "bun:test";
+import type { Content } from "@google/genai";
 
 import { createTestToolRegistry } from "../src/demo-tools";
+import { MaxTurnsExceededError, ToolArgsValidationError, UnknownToolError } from "../src/errors";
 import { runHybridRepairRunner } from "../src/runners/hybrid-repair-runner";
-import { MockModelClient } from "./test-helpers";
+import { MockModelClient, registryWithDivide } from "./test-helpers";
 
 describe("hybrid-repair runner", () => {
   it("repairs invalid function-call args via structured repair step", async () => {
@@ -14,7 +16,7 @@ describe("hybrid-repair runner", () => {
             id: "call_1",
             name: "sum_numbers",
             args: {
-              numbers: ["1", "2", "3"],
+              numbers: ["one", "two", "three"],
             },
           },
         ],
@@ -41,8 +43,16 @@ describe("hybrid-repair runner", () => {
 
     expect(result.finalText).toBe("The sum is 6.");
     expect(result.toolCalls.length).toBe(1);
-    expect(result.toolCalls[0]?.repaired).toBe(true);
+    expect(result.toolCalls[0]?.repaired).toBe("llm");
     expect(result.toolCalls[0]?.args).toEqual({ numbers: [1, 2, 3] });
+    expect(
+      result.trace
+        .filter((step) => step.kind === "llm" && step.data?.purpose)
+        .map((step) => step.data?.purpose),
+    ).toEqual(["intent", "repair", "intent"]);
+    expect(result.trace.every((step) => (step.endedAt ?? 0) >= (step.startedAt ?? Infinity))).toBe(
+      true,
+    );
   });
 
   it("reuses raw function-call content in subsequent turn context", async () => {
@@ -102,4 +112,237 @@ describe("hybrid-repair runner", () => {
 
     expect(followUpContents[1]).toBe(rawModelContent);
   });
+
+  it("executes every parallel function call and answers each call id", async () => {
+    const client = new MockModelClient([
+      {
+        text: "",
+        functionCalls: [
+          { id: "call_a", name: "sum_numbers", args: { numbers: [1, 2] } },
+          { id: "call_b", name: "to_uppercase", args: { text: "done" } },
+        ],
+        raw: {},
+      },
+      {
+        text: "Sum is 3 and DONE.",
+        functionCalls: [],
+        raw: {},
+      },
+    ]);
+
+    const result = await runHybridRepairRunner(
+      client,
+      createTestToolRegistry(),
+      "Add 1 and 2, uppercase done",
+      { model: "test-model", maxTurns: 2, concurrentToolCalls: true },
+    );
+
+    expect(result.finalText).toBe("Sum is 3 and DONE.");
+    expect(result.toolCalls.map((call) => call.callId)).toEqual(["call_a", "call_b"]);
+    expect(result.toolCalls[1]?.result).toEqual({ transformed: "DONE" });
+
+    const followUpContents = client.calls[1]?.contents;
+    if (!Array.isArray(followUpContents)) {
+      throw new Error("Expected follow-up contents to be a Content[] array.");
+    }
+    const responseParts = (followUpContents as Content[])[2]?.parts ?? [];
+    expect(responseParts.map((part) => part.functionResponse?.id)).toEqual([
+      "call_a",
+      "call_b",
+    ]);
+  });
+
+  it("finalizes from every parallel call result, not just the last one", async () => {
+    const client = new MockModelClient([
+      {
+        text: "",
+        functionCalls: [
+          { id: "call_a", name: "sum_numbers", args: { numbers: [1, 2] } },
+          { id: "call_b", name: "to_uppercase", args: { text: "done" } },
+        ],
+        raw: {},
+      },
+      { text: "", functionCalls: [], raw: {} },
+      { text: '{"action":"respond","response":"3 and DONE"}', functionCalls: [], raw: {} },
+    ]);
+
+    const result = await runHybridRepairRunner(
+      client,
+      createTestToolRegistry(),
+      "Add 1 and 2, uppercase done",
+      { model: "test-model", maxTurns: 2 },
+    );
+
+    expect(result.finalText).toBe("3 and DONE");
+    const finalizePrompt = String(client.calls[2]?.contents);
+    expect(finalizePrompt).toContain('"total":3');
+    expect(finalizePrompt).toContain('"transformed":"DONE"');
+  });
+
+  it("throws typed errors for unknown tools and exhausted turns", async () => {
+    const unknown = runHybridRepairRunner(
+      new MockModelClient([
+        { text: "", functionCalls: [{ id: "call_1", name: "launch_rocket", args: {} }], raw: {} },
+      ]),
+      createTestToolRegistry(),
+      "Launch",
+      { model: "test-model", maxTurns: 1 },
+    );
+    await expect(unknown).rejects.toBeInstanceOf(UnknownToolError);
+
+    const exhausted = runHybridRepairRunner(
+      new MockModelClient([
+        {
+          text: "",
+          functionCalls: [{ id: "call_1", name: "sum_numbers", args: { numbers: [1, 2] } }],
+          raw: {},
+        },
+      ]),
+      createTestToolRegistry(),
+      "Add 1 and 2",
+      { model: "test-model", maxTurns: 1 },
+    );
+    await expect(exhausted).rejects.toBeInstanceOf(MaxTurnsExceededError);
+  });
+
+  it("sends a tool error back to the model and lets it retry with other args", async () => {
+    const client = new MockModelClient([
+      {
+        text: "",
+        functionCalls: [{ id: "call_1", name: "divide", args: { a: 1, b: 0 } }],
+        raw: {},
+      },
+      {
+        text: "",
+        functionCalls: [{ id: "call_2", name: "divide", args: { a: 1, b: 4 } }],
+        raw: {},
+      },
+      { text: "1 / 4 = 0.25", functionCalls: [], raw: {} },
+    ]);
+
+    const result = await runHybridRepairRunner(
+      client,
+      registryWithDivide(),
+      "Divide 1 by 4",
+      { model: "test-model", maxTurns: 3 },
+    );
+
+    expect(result.finalText).toBe("1 / 4 = 0.25");
+    expect(result.toolCalls[0]?.error).toEqual({ message: "b must not be zero", type: "RangeError" });
+    expect(result.toolCalls[0]?.result).toBeUndefined();
+    expect(result.toolCalls[1]?.error).toBeUndefined();
+    // contents[0] is the prompt and contents[1] the first function call.
+    const contents = client.calls[1]?.contents as Content[];
+    expect(contents[2]?.parts?.[0]?.functionResponse?.response).toEqual({
+      error: { message: "b must not be zero", type: "RangeError" },
+    });
+  });
+
+  it("spends further repair rounds on the previous attempt and its issue paths", async () => {
+    const client = new MockModelClient([
+      {
+        text: "",
+        functionCalls: [{ id: "call_1", name: "sum_numbers", args: { numbers: ["one", "two"] } }],
+        raw: {},
+      },
+      { text: '{"numbers":["one",2]}', functionCalls: [], raw: {} },
+      { text: '{"numbers":[1,2]}', functionCalls: [], raw: {} },
+      { text: "The sum is 3.", functionCalls: [], raw: {} },
+    ]);
+
+    const result = await runHybridRepairRunner(
+      client,
+      createTestToolRegistry(),
+      "Add 1 and 2",
+      { model: "test-model", maxTurns: 2, maxRepairRounds: 2 },
+    );
+
+    expect(result.finalText).toBe("The sum is 3.");
+    expect(result.toolCalls[0]).toMatchObject({ repaired: "llm", repairRounds: 2 });
+    const secondRepair = String(client.calls[2]?.contents);
+    expect(secondRepair).toContain('Your previous repair was still invalid: {"numbers":["one",2]}');
+    expect(secondRepair).toContain("- numbers.0: ");
+
+    const exhausted = runHybridRepairRunner(
+      new MockModelClient([
+        {
+          text: "",
+          functionCalls: [{ id: "call_1", name: "sum_numbers", args: { numbers: ["one"] } }],
+          raw: {},
+        },
+      ]),
+      createTestToolRegistry(),
+      "Add 1",
+      { model: "test-model", maxRepairRounds: 0 },
+    );
+    await expect(exhausted).rejects.toBeInstanceOf(ToolArgsValidationError);
+  });
+
+  it("counts a repair round that returns non-JSON and keeps spending the budget", async () => {
+    const client = new MockModelClient([
+      {
+        text: "",
+        functionCalls: [{ id: "call_1", name: "sum_numbers", args: { numbers: ["one", "two"] } }],
+        raw: {},
+      },
+      { text: "Sorry, I cannot help with that.", functionCalls: [], raw: {} },
+      { text: '{"numbers":[1,2]}', functionCalls: [], raw: {} },
+      { text: "The sum is 3.", functionCalls: [], raw: {} },
+    ]);
+
+    const result = await runHybridRepairRunner(
+      client,
+      createTestToolRegistry(),
+      "Add 1 and 2",
+      { model: "test-model", maxTurns: 2, maxRepairRounds: 2 },
+    );
+
+    expect(result.finalText).toBe("The sum is 3.");
+    expect(result.toolCalls[0]).toMatchObject({ repaired: "llm", repairRounds: 2 });
+    expect(result.trace.some((step) => step.detail === "repaired_args_unparsable")).toBe(true);
+    expect(String(client.calls[2]?.contents)).toContain("- root: Repair output did not parse");
+
+    const returned = await runHybridRepairRunner(
+      new MockModelClient([
+        {
+          text: "",
+          functionCalls: [{ id: "call_1", name: "sum_numbers", args: { numbers: ["one"] } }],
+          raw: {},
+        },
+        { text: "no json", functionCalls: [], raw: {} },
+        { text: "Could not add that.", functionCalls: [], raw: {} },
+      ]),
+      createTestToolRegistry(),
+      "Add one",
+      { model: "test-model", maxTurns: 2, maxRepairRounds: 1, returnValidationErrors: true },
+    );
+    expect(returned.toolCalls[0]).toMatchObject({ repairRounds: 1 });
+    expect(returned.toolCalls[0]?.error?.type).toBe("ToolArgsValidationError");
+  });
+
+  it("coerces numeric strings without calling the repair model", async () => {
+    const client = new MockModelClient([
+      {
+        text: "",
+        functionCalls: [{ id: "call_1", name: "sum_numbers", args: { numbers: ["1", "2"] } }],
+        raw: {},
+      },
+      { text: "The sum is 3.", functionCalls: [], raw: {} },
+    ]);
+
+    const result = await runHybridRepairRunner(
+      client,
+      createTestToolRegistry(),
+      "Add 1 and 2",
+      { model: "test-model" },
+    );
+
+    expect(result.toolCalls[0]).toMatchObject({ repaired: "deterministic", args: { numbers: [1, 2] } });
+    expect(result.toolCalls[0]?.repairRounds).toBeUndefined();
+    expect(result.trace.find((step) => step.detail === "args_coerced")?.data?.changes).toEqual([
+      'numbers.0: "1" -> 1',
+      'numbers.1: "2" -> 2',
+    ]);
+    expect(client.calls).toHaveLength(2);
+  });
 });
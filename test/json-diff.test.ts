@@ -0,0 +1,34 @@
+import { describe, expect, it } from "bun:test";
+
+import { diffJson, formatArgsDiff } from "../src/core/json-diff";
+
+describe("diffJson", () => {
+  it("reports added, removed, and changed paths", () => {
+    const diff = diffJson(
+      { nums: [1, 2], order: "DESC", nested: { a: "1" } },
+      { numbers: [1, 2], order: "desc", nested: { a: 1 } },
+    );
+
+    expect(diff).toEqual([
+      { path: "nums", kind: "removed", before: [1, 2] },
+      { path: "order", kind: "changed", before: "DESC", after: "desc" },
+      { path: "nested.a", kind: "changed", before: "1", after: 1 },
+      { path: "numbers", kind: "added", after: [1, 2] },
+    ]);
+    expect(formatArgsDiff(diff)).toEqual([
+      "- nums: [1,2]",
+      '~ order: "DESC" -> "desc"',
+      '~ nested.a: "1" -> 1',
+      "+ numbers: [1,2]",
+    ]);
+  });
+
+  it("diffs arrays by index and whole values at the root", () => {
+    expect(diffJson({ xs: ["1"] }, { xs: [1, 2] })).toEqual([
+      { path: "xs.0", kind: "changed", before: "1", after: 1 },
+      { path: "xs.1", kind: "added", after: 2 },
+    ]);
+    expect(diffJson("3", [3])).toEqual([{ path: "root", kind: "changed", before: "3", after: [3] }]);
+    expect(diffJson({ a: 1 }, { a: 1 })).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { loadPromptPresets, readPresetDir, readPresetFile } from "../src/preset-loader";
+import { PROMPT_PRESETS } from "../src/prompt-presets";
+
+function withTempDir(run: (dir: string) => void): void {
+  const dir = mkdtempSync(join(tmpdir(), "gemini-tools-fix-presets-"));
+  try {
+    run(dir);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+describe("preset loader", () => {
+  it("loads JSON and nested YAML presets and merges them after the bundled set", () => {
+    withTempDir((dir) => {
+      writeFileSync(
+        join(dir, "sum.json"),
+        JSON.stringify([
+          {
+            id: "qa-sum",
+            title: "QA Sum",
+            prompt: "Add 1 and 2 using a tool.",
+            recommendedStrategy: "hybrid-repair",
+            expectations: { requiredTools: ["sum_numbers"], finalText: [{ type: "number", value: 3 }] },
+          },
+        ]),
+      );
+      mkdirSync(join(dir, "text"));
+      writeFileSync(
+        join(dir, "text", "upper.yaml"),
+        [
+          "presets:",
+          "  - id: qa-upper",
+          "    title: QA Upper",
+          "    prompt: Uppercase the word ok.",
+          "    recommendedStrategy: single-tool-router",
+          "    expectations:",
+          "      finalText:",
+          "        - type: contains",
+          "          value: OK",
+          "          caseSensitive: true",
+        ].join("\n"),
+      );
+
+      const bundledCount = PROMPT_PRESETS.length;
+      const presets = loadPromptPresets({ dirs: [dir] });
+
+      expect(presets.slice(bundledCount).map((preset) => preset.id)).toEqual([
+        "qa-sum",
+        "qa-upper",
+      ]);
+      expect(presets.at(-1)?.description).toBe("");
+      expect(PROMPT_PRESETS).toHaveLength(bundledCount);
+      expect(presets.at(-1)?.expectations?.finalText?.[0]).toEqual({
+        type: "contains",
+        value: "OK",
+        caseSensitive: true,
+      });
+    });
+  });
+
+  it("rejects invalid definitions and duplicate ids", () => {
+    withTempDir((dir) => {
+      const invalid = join(dir, "invalid.json");
+      writeFileSync(invalid, JSON.stringify({ id: "broken", title: "Broken" }));
+      expect(() => readPresetFile(invalid)).toThrow("Invalid preset file");
+
+      const duplicate = join(dir, "duplicate.yml");
+      writeFileSync(
+        duplicate,
+        "id: sum-and-uppercase\ntitle: Dup\nprompt: Add numbers.\nrecommendedStrategy: structured-json\n",
+      );
+      expect(() => loadPromptPresets({ files: [duplicate] })).toThrow(
+        "Duplicate preset id: sum-and-uppercase",
+      );
+    });
+  });
+
+  it("rejects regex expectations that do not compile at load time", () => {
+    withTempDir((dir) => {
+      const preset = (pattern: string, flags?: string) => ({
+        id: "qa-regex",
+        title: "QA Regex",
+        prompt: "Say ok.",
+        recommendedStrategy: "structured-json",
+        expectations: { finalText: [{ type: "regex", pattern, flags }] },
+      });
+      const badPattern = join(dir, "bad-pattern.json");
+      writeFileSync(badPattern, JSON.stringify(preset("(ok")));
+      const badFlags = join(dir, "bad-flags.json");
+      writeFileSync(badFlags, JSON.stringify(preset("ok", "q")));
+      const valid = join(dir, "valid.json");
+      writeFileSync(valid, JSON.stringify(preset("^ok$", "i")));
+
+      expect(() => readPresetFile(badPattern)).toThrow("Invalid regular expression");
+      expect(() => readPresetFile(badFlags)).toThrow("Invalid regular expression");
+      expect(readPresetFile(valid)).toHaveLength(1);
+    });
+  });
+
+  it("reports a missing preset directory by name", () => {
+    withTempDir((dir) => {
+      const missing = join(dir, "missing");
+      expect(() => readPresetDir(missing)).toThrow(`Preset directory not found: ${missing}`);
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { estimateCostUsd, loadPriceTable, priceForModel } from "../src/pricing";
+
+describe("pricing", () => {
+  it("bills thought tokens at the output rate", () => {
+    const cost = estimateCostUsd(
+      { promptTokens: 1_000_000, outputTokens: 200_000, thoughtTokens: 300_000, totalTokens: 1_500_000 },
+      { inputPerMillionUsd: 0.3, outputPerMillionUsd: 2.5 },
+    );
+    expect(cost).toBeCloseTo(0.3 + 0.5 * 2.5, 8);
+  });
+
+  it("matches model ids with or without the models/ prefix", () => {
+    const table = { "gemini-2.5-flash": { inputPerMillionUsd: 1, outputPerMillionUsd: 2 } };
+    expect(priceForModel(table, "models/gemini-2.5-flash")).toEqual(table["gemini-2.5-flash"]);
+    expect(priceForModel(table, "gemini-2.5-pro")).toBeUndefined();
+    expect(priceForModel(undefined, "gemini-2.5-flash")).toBeUndefined();
+  });
+
+  it("loads a price table and rejects malformed entries", () => {
+    const dir = mkdtempSync(join(tmpdir(), "prices-"));
+    const good = join(dir, "prices.json");
+    writeFileSync(
+      good,
+      JSON.stringify({ "gemini-2.5-flash": { inputPerMillionUsd: 0.3, outputPerMillionUsd: 2.5 } }),
+    );
+    expect(loadPriceTable(good)["gemini-2.5-flash"]?.outputPerMillionUsd).toBe(2.5);
+
+    const bad = join(dir, "bad.json");
+    writeFileSync(bad, JSON.stringify({ "gemini-2.5-flash": { inputPerMillionUsd: -1 } }));
+    expect(() => loadPriceTable(bad)).toThrow(/Invalid price table/);
+  });
+});
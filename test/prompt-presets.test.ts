@@ -1,5 +1,6 @@
 import { describe, expect, it } from "bun:test";
 
+import { createDemoToolRegistry } from "../src/demo-tools";
 import { PROMPT_PRESETS } from "../src/prompt-presets";
 
 describe("prompt presets", () => {
@@ -16,5 +17,19 @@ describe("prompt presets", () => {
       expect(preset.title.length).toBeGreaterThan(3);
     }
   });
-});
 
+  it("declares expectations against registered demo tools", () => {
+    const registry = createDemoToolRegistry();
+    for (const preset of PROMPT_PRESETS) {
+      const tools = [
+        ...(preset.expectations?.requiredTools ?? []),
+        ...(preset.expectations?.toolArgs ?? []).map((item) => item.toolName),
+        ...(preset.expectations?.toolResults ?? []).map((item) => item.toolName),
+      ];
+      expect(tools.length).toBeGreaterThan(0);
+      for (const tool of tools) {
+        expect(registry.has(tool)).toBe(true);
+      }
+    }
+  });
+});
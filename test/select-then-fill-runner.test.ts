@@ -0,0 +1,130 @@
+import { describe, expect, it } from "bun:test";
+
+import { summarizeLlmCalls } from "../src/core/trace";
+import { createTestToolRegistry } from "../src/demo-tools";
+import {
+  classifyError,
+  ToolArgsParseError,
+  ToolArgsValidationError,
+  UnknownToolError,
+} from "../src/errors";
+import { runSelectThenFillRunner } from "../src/runners/select-then-fill-runner";
+import { defaultStrategyOptions } from "../src/strategy-registry";
+import { MockModelClient } from "./test-helpers";
+
+function reply(text: string) {
+  return { text, functionCalls: [], raw: {} };
+}
+
+describe("select-then-fill runner", () => {
+  it("picks a tool from the enum, then fills args against that tool's schema only", async () => {
+    const client = new MockModelClient([
+      reply('{"toolName":"sum_numbers"}'),
+      reply('{"numbers":[1,2,3]}'),
+      reply('{"toolName":"respond","response":"Total is 6"}'),
+    ]);
+
+    const result = await runSelectThenFillRunner(
+      client,
+      createTestToolRegistry(),
+      "Add 1, 2, and 3",
+      { model: "test-model", maxTurns: 3 },
+    );
+
+    expect(result.finalText).toBe("Total is 6");
+    expect(result.toolCalls.map((call) => [call.toolName, call.args, call.result])).toEqual([
+      ["sum_numbers", { numbers: [1, 2, 3] }, { total: 6 }],
+    ]);
+    const choiceSchema = client.calls[0]?.config?.responseJsonSchema as {
+      properties: { toolName: { enum: string[] } };
+    };
+    expect(choiceSchema.properties.toolName.enum).toEqual([
+      "respond",
+      "sum_numbers",
+      "multiply_numbers",
+      "to_uppercase",
+    ]);
+    expect(String(client.calls[0]?.contents)).not.toContain("argsSchema");
+    expect(client.calls[1]?.config?.responseJsonSchema).toEqual(
+      createTestToolRegistry().getArgsJsonSchema("sum_numbers"),
+    );
+    expect(String(client.calls[2]?.contents)).toContain('"total": 6');
+    expect(
+      result.trace.filter((step) => step.kind === "llm").map((step) => step.data?.purpose),
+    ).toEqual(["intent", "fill", "intent"]);
+    expect(summarizeLlmCalls(result.trace).latencyMs).toHaveProperty("fill");
+  });
+
+  it("finalizes after the last turn and coerces filled args", async () => {
+    const client = new MockModelClient([
+      reply('{"toolName":"to_uppercase"}'),
+      reply('{"Text":"shipped"}'),
+      reply('{"action":"respond","response":"SHIPPED"}'),
+    ]);
+
+    const result = await runSelectThenFillRunner(
+      client,
+      createTestToolRegistry(),
+      "Uppercase shipped",
+      { model: "test-model", maxTurns: 1 },
+    );
+
+    expect(result.finalText).toBe("SHIPPED");
+    expect(result.toolCalls[0]?.repaired).toBe("deterministic");
+    expect(result.trace.filter((step) => step.kind === "llm").map((step) => step.detail)).toEqual([
+      "request_tool_choice",
+      "request_tool_args",
+      "request_final_response",
+    ]);
+  });
+
+  it("falls back to the registry's default turn cap", async () => {
+    const pick = [reply('{"toolName":"sum_numbers"}'), reply('{"numbers":[1]}')];
+    const client = new MockModelClient([
+      ...pick,
+      ...pick,
+      ...pick,
+      reply('{"action":"respond","response":"done"}'),
+    ]);
+
+    const result = await runSelectThenFillRunner(
+      client,
+      createTestToolRegistry(),
+      "Keep adding",
+      { model: "test-model" },
+    );
+
+    const defaults = defaultStrategyOptions()["select-then-fill"];
+    expect(result.toolCalls).toHaveLength(defaults?.maxTurns as number);
+    expect(result.finalText).toBe("done");
+  });
+
+  it("fails tool choice and args with different categories", async () => {
+    const unknown = await runSelectThenFillRunner(
+      new MockModelClient([reply('{"toolName":"delete_everything"}')]),
+      createTestToolRegistry(),
+      "Do it",
+      { model: "test-model" },
+    ).catch((caught: unknown) => caught);
+    const invalid = await runSelectThenFillRunner(
+      new MockModelClient([reply('{"toolName":"sum_numbers"}'), reply('{"numbers":"lots"}')]),
+      createTestToolRegistry(),
+      "Add some numbers",
+      { model: "test-model" },
+    ).catch((caught: unknown) => caught);
+
+    expect(unknown).toBeInstanceOf(UnknownToolError);
+    expect(classifyError(unknown)).toBe("unknown_tool");
+    expect(invalid).toBeInstanceOf(ToolArgsValidationError);
+    expect(classifyError(invalid)).toBe("args_invalid_after_repair");
+
+    const unparsable = await runSelectThenFillRunner(
+      new MockModelClient([reply('{"toolName":"sum_numbers"}'), reply("no args here")]),
+      createTestToolRegistry(),
+      "Add some numbers",
+      { model: "test-model" },
+    ).catch((caught: unknown) => caught);
+    expect(unparsable).toBeInstanceOf(ToolArgsParseError);
+    expect(classifyError(unparsable)).toBe("invalid_args_json");
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, expect, it } from "bun:test";
+import type { Content } from "@google/genai";
 
 import { createTestToolRegistry } from "../src/demo-tools";
 import { runSingleToolRouterRunner } from "../src/runners/single-tool-router-runner";
@@ -40,6 +41,40 @@ describe("single-tool-router runner", () => {
     expect(result.toolCalls[0]?.args).toEqual({ numbers: [2, 4, 8] });
   });
 
+  it("adds a widened tool to the dispatch enum on the next turn", async () => {
+    const client = new MockModelClient([
+      {
+        text: "",
+        functionCalls: [
+          {
+            id: "call_1",
+            name: "dispatch_tool",
+            args: { toolName: "sum_numbers", argumentsJson: '{"numbers":[1,2]}' },
+          },
+        ],
+        raw: {},
+      },
+      { text: "The total is 3.", functionCalls: [], raw: {} },
+    ]);
+    const registry = createTestToolRegistry().subset(["to_uppercase"], { maxWidenings: 1 });
+
+    const result = await runSingleToolRouterRunner(client, registry, "Add 1 and 2", {
+      model: "test-model",
+    });
+
+    const dispatchEnum = (index: number): unknown =>
+      (
+        client.calls[index]?.config?.tools?.[0] as {
+          functionDeclarations: Array<{
+            parametersJsonSchema: { properties: { toolName: { enum: string[] } } };
+          }>;
+        }
+      ).functionDeclarations[0]?.parametersJsonSchema.properties.toolName.enum;
+    expect(result.toolCalls[0]?.result).toEqual({ total: 3 });
+    expect(dispatchEnum(0)).toEqual(["to_uppercase"]);
+    expect(dispatchEnum(1)).toEqual(["to_uppercase", "sum_numbers"]);
+  });
+
   it("supports multiple dispatch turns", async () => {
     const client = new MockModelClient([
       {
@@ -187,7 +222,187 @@ describe("single-tool-router runner", () => {
 
     expect(result.finalText).toBe("The total is 14.");
     expect(result.toolCalls.length).toBe(1);
-    expect(result.toolCalls[0]?.repaired).toBe(true);
+    expect(result.toolCalls[0]?.repaired).toBe("llm");
     expect(result.toolCalls[0]?.args).toEqual({ numbers: [2, 4, 8] });
+    expect(result.toolCalls[0]?.repair).toEqual({
+      rawArgs: '{"nums":[2,4,8]}',
+      tiers: ["llm"],
+      repairModel: "test-model",
+      validationErrors: ["numbers: Invalid input: expected array, received undefined"],
+      diff: [
+        { path: "nums", kind: "removed", before: [2, 4, 8] },
+        { path: "numbers", kind: "added", after: [2, 4, 8] },
+      ],
+    });
+  });
+
+  it("finalizes and exits on max turns with every parallel call result", async () => {
+    const parallelDispatch = {
+      text: "",
+      functionCalls: [
+        {
+          id: "call_1",
+          name: "dispatch_tool",
+          args: { toolName: "sum_numbers", argumentsJson: '{"numbers":[1,2]}' },
+        },
+        {
+          id: "call_2",
+          name: "dispatch_tool",
+          args: { toolName: "to_uppercase", argumentsJson: '{"text":"done"}' },
+        },
+      ],
+      raw: {},
+    };
+    const client = new MockModelClient([
+      parallelDispatch,
+      { text: "", functionCalls: [], raw: {} },
+      { text: '{"action":"respond","response":"3 and DONE"}', functionCalls: [], raw: {} },
+    ]);
+
+    const finalized = await runSingleToolRouterRunner(
+      client,
+      createTestToolRegistry(),
+      "Add 1 and 2, uppercase done",
+      { model: "test-model", maxTurns: 2 },
+    );
+
+    expect(finalized.finalText).toBe("3 and DONE");
+    const finalizePrompt = String(client.calls[2]?.contents);
+    expect(finalizePrompt).toContain('"total":3');
+    expect(finalizePrompt).toContain('"transformed":"DONE"');
+
+    const exhausted = await runSingleToolRouterRunner(
+      new MockModelClient([parallelDispatch]),
+      createTestToolRegistry(),
+      "Add 1 and 2, uppercase done",
+      { model: "test-model", maxTurns: 1 },
+    );
+
+    expect(JSON.parse(exhausted.finalText)).toEqual([
+      { toolName: "sum_numbers", result: { total: 3 } },
+      { toolName: "to_uppercase", result: { transformed: "DONE" } },
+    ]);
+  });
+
+  it("dispatches every parallel call in a single turn", async () => {
+    const client = new MockModelClient([
+      {
+        text: "",
+        functionCalls: [
+          {
+            id: "call_1",
+            name: "dispatch_tool",
+            args: { toolName: "sum_numbers", argumentsJson: '{"numbers":[1,2]}' },
+          },
+          {
+            id: "call_2",
+            name: "dispatch_tool",
+            args: { toolName: "multiply_numbers", argumentsJson: '{"numbers":[3,4]}' },
+          },
+        ],
+        raw: {},
+      },
+      {
+        text: "Sum 3, product 12.",
+        functionCalls: [],
+        raw: {},
+      },
+    ]);
+
+    const result = await runSingleToolRouterRunner(
+      client,
+      createTestToolRegistry(),
+      "Add 1 and 2, multiply 3 and 4",
+      { model: "test-model" },
+    );
+
+    expect(result.finalText).toBe("Sum 3, product 12.");
+    expect(result.toolCalls.map((call) => call.result)).toEqual([
+      { total: 3 },
+      { product: 12 },
+    ]);
+
+    const followUpContents = client.calls[1]?.contents;
+    if (!Array.isArray(followUpContents)) {
+      throw new Error("Expected follow-up contents to be a Content[] array.");
+    }
+    const contents = followUpContents as Content[];
+    expect(contents[1]?.parts).toHaveLength(2);
+    expect(contents[2]?.parts).toHaveLength(2);
+  });
+
+  it("returns still-invalid args to the model when returnValidationErrors is set", async () => {
+    const client = new MockModelClient([
+      {
+        text: "",
+        functionCalls: [
+          {
+            id: "call_1",
+            name: "dispatch_tool",
+            args: { toolName: "sum_numbers", argumentsJson: '{"nums":[1,2]}' },
+          },
+        ],
+        raw: {},
+      },
+      {
+        text: "",
+        functionCalls: [
+          {
+            id: "call_2",
+            name: "dispatch_tool",
+            args: { toolName: "sum_numbers", argumentsJson: '{"numbers":[1,2]}' },
+          },
+        ],
+        raw: {},
+      },
+      { text: "The total is 3.", functionCalls: [], raw: {} },
+    ]);
+
+    const result = await runSingleToolRouterRunner(
+      client,
+      createTestToolRegistry(),
+      "Add 1 and 2",
+      { model: "test-model", maxRepairRounds: 0, returnValidationErrors: true },
+    );
+
+    expect(result.finalText).toBe("The total is 3.");
+    expect(result.toolCalls.map((call) => call.error?.type)).toEqual([
+      "ToolArgsValidationError",
+      undefined,
+    ]);
+    expect(result.toolCalls[0]?.result).toBeUndefined();
+    const contents = client.calls[1]?.contents as Content[];
+    const response = contents[2]?.parts?.[0]?.functionResponse?.response;
+    expect(JSON.stringify(response)).toContain("numbers: ");
+  });
+
+  it("records jsonrepair and coercion as the repair tiers", async () => {
+    const result = await runSingleToolRouterRunner(
+      new MockModelClient([
+        {
+          text: "",
+          functionCalls: [
+            {
+              id: "call_1",
+              name: "dispatch_tool",
+              args: { toolName: "sum_numbers", argumentsJson: "{numbers: ['1', 2]}" },
+            },
+          ],
+          raw: {},
+        },
+        { text: "The total is 3.", functionCalls: [], raw: {} },
+      ]),
+      createTestToolRegistry(),
+      "Add 1 and 2",
+      { model: "test-model" },
+    );
+
+    expect(result.toolCalls[0]?.repaired).toBe("deterministic");
+    expect(result.toolCalls[0]?.repair).toMatchObject({
+      rawArgs: "{numbers: ['1', 2]}",
+      tiers: ["jsonrepair", "deterministic"],
+      diff: [{ path: "numbers.0", kind: "changed", before: "1", after: 1 }],
+    });
+    expect(result.toolCalls[0]?.repair?.repairModel).toBeUndefined();
   });
 });
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  createBuiltinStrategyRegistry,
+  defaultStrategyOptions,
+  loadStrategyModules,
+  parseStrategyOptionFlags,
+  parseStrategyOptions,
+  StrategyRegistry,
+} from "../src/strategy-registry";
+import { runStrategy, STRATEGIES } from "../src/strategy-runner";
+import { MockModelClient } from "./test-helpers";
+
+describe("strategy registry", () => {
+  it("registers the built-in strategies with option defaults", () => {
+    const registry = createBuiltinStrategyRegistry();
+
+    expect(registry.ids()).toEqual([
+      "structured-json",
+      "single-tool-router",
+      "hybrid-repair",
+      "select-then-fill",
+    ]);
+    expect(defaultStrategyOptions(registry)["single-tool-router"]).toEqual({
+      maxTurns: 4,
+      concurrentToolCalls: false,
+      repairRounds: 1,
+      returnValidationErrors: false,
+    });
+  });
+
+  it("rejects duplicate ids and out-of-range options", () => {
+    const registry = createBuiltinStrategyRegistry();
+    const definition = registry.get("hybrid-repair");
+
+    expect(() => registry.register(definition)).toThrow("already registered");
+    expect(() => parseStrategyOptions(definition, { maxTurns: 0 })).toThrow(
+      "Invalid options for strategy hybrid-repair",
+    );
+    expect(() => parseStrategyOptions(definition, { repairRounds: 6 })).toThrow(
+      "Invalid options for strategy hybrid-repair",
+    );
+    expect(parseStrategyOptions(definition, { maxTurns: 50 }).maxTurns).toBe(50);
+    expect(parseStrategyOptions(definition, {})).toEqual({
+      maxTurns: 3,
+      concurrentToolCalls: false,
+      repairRounds: 1,
+      returnValidationErrors: false,
+    });
+  });
+
+  it("parses CLI strategy flags against the option specs", () => {
+    const registry = createBuiltinStrategyRegistry();
+
+    const options = parseStrategyOptionFlags(
+      ["--repair-rounds=0", "--router-max-turns=50", "--concurrent-tools", "--repair-model=m"],
+      registry,
+    );
+
+    expect(options["single-tool-router"]).toMatchObject({
+      maxTurns: 50,
+      repairRounds: 0,
+      concurrentToolCalls: true,
+    });
+    expect(options["hybrid-repair"]).toMatchObject({ repairRounds: 0, repairModel: "m" });
+    expect(options["structured-json"]).toEqual({ maxTurns: undefined });
+    expect(() => parseStrategyOptionFlags(["--repair-rounds=6"], registry)).toThrow(
+      "--repair-rounds=<n> expects an integer 0-5, got '6'.",
+    );
+    expect(() => parseStrategyOptionFlags(["--hybrid-max-turns=0"], registry)).toThrow(
+      "--hybrid-max-turns=<n> expects an integer >= 1, got '0'.",
+    );
+    expect(() => parseStrategyOptionFlags(["--repair-rounds=1.5"], registry)).toThrow(
+      "expects an integer 0-5",
+    );
+  });
+
+  it("maps the deprecated run config fields onto strategy options", async () => {
+    const seen: unknown[] = [];
+    const registry = new StrategyRegistry();
+    registry.register({
+      ...createBuiltinStrategyRegistry().get("hybrid-repair"),
+      run: async (context) => {
+        seen.push(context.options);
+        return { strategy: "hybrid-repair", finalText: "ok", toolCalls: [], trace: [] };
+      },
+    });
+
+    await runStrategy({
+      strategy: "hybrid-repair",
+      prompt: "hello",
+      model: "test-model",
+      strategyRegistry: registry,
+      hybridMaxTurns: 7,
+      repairModel: "repair-model",
+      concurrentToolCalls: true,
+      strategyOptions: { "hybrid-repair": { maxTurns: undefined, repairRounds: 2 } },
+      client: new MockModelClient([]),
+    });
+
+    expect(seen).toEqual([
+      {
+        maxTurns: 7,
+        repairModel: "repair-model",
+        concurrentToolCalls: true,
+        repairRounds: 2,
+        returnValidationErrors: false,
+      },
+    ]);
+    expect(STRATEGIES).toContain("hybrid-repair");
+  });
+
+  it("rejects invalid options once, before any attempt starts", async () => {
+    const events: string[] = [];
+    const error = await runStrategy({
+      strategy: "single-tool-router",
+      prompt: "hello",
+      model: "test-model",
+      maxRetries: 3,
+      strategyOptions: { "single-tool-router": { repairRounds: 9 } },
+      client: new MockModelClient([]),
+      onEvent: (event) => events.push(event.type),
+    }).catch((caught: unknown) => caught);
+
+    expect(String(error)).toContain("Invalid options for strategy single-tool-router");
+    expect(events).toEqual([]);
+  });
+
+  it("runs a custom strategy through runStrategy", async () => {
+    const registry = new StrategyRegistry();
+    registry.register({
+      id: "echo",
+      description: "Echoes the prompt.",
+      options: [
+        {
+          key: "suffix",
+          label: "Suffix",
+          description: "Appended to the prompt",
+          type: "string",
+          default: "!",
+        },
+      ],
+      run: async (context) => ({
+        strategy: "echo",
+        finalText: `${context.prompt}${String(context.options.suffix)}`,
+        toolCalls: [],
+        trace: [],
+      }),
+    });
+
+    const result = await runStrategy({
+      strategy: "echo",
+      prompt: "hello",
+      model: "test-model",
+      strategyRegistry: registry,
+      strategyOptions: { echo: { suffix: "?" } },
+      client: new MockModelClient([]),
+    });
+
+    expect(result.finalText).toBe("hello?");
+    expect(result.usedStrategy).toBe("echo");
+  });
+
+  it("loads private strategies from modules outside src", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "gemini-tools-fix-strategy-"));
+    try {
+      const path = join(dir, "private-strategy.ts");
+      await writeFile(
+        path,
+        [
+          "export function registerStrategies(registry) {",
+          "  registry.register({",
+          '    id: "private-noop",',
+          '    description: "Private strategy.",',
+          "    options: [],",
+          '    run: async () => ({ strategy: "private-noop", finalText: "ok", toolCalls: [], trace: [] }),',
+          "  });",
+          "}",
+        ].join("\n"),
+        "utf8",
+      );
+
+      const registry = new StrategyRegistry();
+      await loadStrategyModules([path], registry);
+      expect(registry.ids()).toEqual(["private-noop"]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
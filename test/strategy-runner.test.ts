@@ -1,8 +1,13 @@
 import { describe, expect, it } from "bun:test";
 import type { GenerateContentParameters } from "@google/genai";
 
-import type { ModelClient, ModelResult } from "../src/contracts";
-import { runStrategy } from "../src/strategy-runner";
+import type { ModelClient, ModelResult, ModelStreamChunk } from "../src/contracts";
+import type { RunEvent } from "../src/core/events";
+import { createTestToolRegistry } from "../src/demo-tools";
+import { classifyError, ToolExecutionError } from "../src/errors";
+import { StrategyRegistry } from "../src/strategy-registry";
+import { runStrategy, StrategyRunError, streamStrategy } from "../src/strategy-runner";
+import { MockModelClient } from "./test-helpers";
 
 class FlakyStructuredClient implements ModelClient {
   private calls = 0;
@@ -36,6 +41,28 @@ class FlakyStructuredClient implements ModelClient {
   }
 }
 
+/** Streams each canned response: thoughts first, then text in two halves, then calls. */
+class StreamingMockClient extends MockModelClient {
+  public async *generateContentStream(
+    request: GenerateContentParameters,
+  ): AsyncGenerator<ModelStreamChunk, ModelResult> {
+    const result = await this.generateContent(request);
+    for (const thought of result.thoughts ?? []) {
+      yield { text: "", thought, functionCalls: [] };
+    }
+    const half = Math.ceil(result.text.length / 2);
+    for (const text of [result.text.slice(0, half), result.text.slice(half)]) {
+      if (text.length > 0) {
+        yield { text, thought: "", functionCalls: [] };
+      }
+    }
+    if (result.functionCalls.length > 0) {
+      yield { text: "", thought: "", functionCalls: result.functionCalls };
+    }
+    return result;
+  }
+}
+
 describe("strategy runner", () => {
   it("retries and succeeds when maxRetries is set", async () => {
     const result = await runStrategy({
@@ -52,5 +79,245 @@ describe("strategy runner", () => {
     expect(result.attempts).toBe(2);
     expect(result.toolCalls.length).toBe(1);
   });
-});
 
+  it("sums token usage across every attempt, failed ones included", async () => {
+    const usage = { promptTokens: 50, outputTokens: 5, thoughtTokens: 2, totalTokens: 57 };
+    const result = await runStrategy({
+      strategy: "structured-json",
+      prompt: "Add 2,3,4",
+      model: "test-model",
+      maxRetries: 1,
+      client: new MockModelClient([
+        { text: "not json at all", functionCalls: [], raw: {}, usage },
+        {
+          text: '{"action":"respond","response":"Total is 9"}',
+          functionCalls: [],
+          raw: {},
+          usage,
+        },
+      ]),
+    });
+
+    expect(result.attempts).toBe(2);
+    expect(result.usage).toEqual({
+      promptTokens: 100,
+      outputTokens: 10,
+      thoughtTokens: 4,
+      totalTokens: 114,
+    });
+    expect(result.trace.filter((step) => step.kind === "usage")).toHaveLength(1);
+  });
+
+  it("reports attempts and usage on the error when every attempt fails", async () => {
+    const usage = { promptTokens: 10, outputTokens: 1, thoughtTokens: 0, totalTokens: 11 };
+    const error = await runStrategy({
+      strategy: "structured-json",
+      prompt: "Add 2,3,4",
+      model: "test-model",
+      maxRetries: 1,
+      client: new MockModelClient([
+        { text: "nope", functionCalls: [], raw: {}, usage },
+        { text: "nope", functionCalls: [], raw: {}, usage },
+      ]),
+    }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(StrategyRunError);
+    expect((error as StrategyRunError).attempts).toBe(2);
+    expect((error as StrategyRunError).usage.totalTokens).toBe(22);
+  });
+
+  it("does not retry failures that are not recoverable", async () => {
+    let runs = 0;
+    const registry = new StrategyRegistry();
+    registry.register({
+      id: "broken-tool",
+      description: "Always fails inside a tool.",
+      options: [],
+      run: async () => {
+        runs += 1;
+        throw new ToolExecutionError("sum_numbers", new Error("disk on fire"));
+      },
+    });
+
+    const error = await runStrategy({
+      strategy: "broken-tool",
+      prompt: "Add 2,3,4",
+      model: "test-model",
+      maxRetries: 3,
+      strategyRegistry: registry,
+      client: new MockModelClient([]),
+    }).catch((caught: unknown) => caught);
+
+    expect(runs).toBe(1);
+    expect((error as StrategyRunError).attempts).toBe(1);
+  });
+
+  it("exposes only the top-k tools and widens the set mid-run when the model asks for another", async () => {
+    const client = new MockModelClient([
+      {
+        text: '{"action":"call_tool","toolName":"to_uppercase","args":{"text":"hello"}}',
+        functionCalls: [],
+        raw: {},
+      },
+      {
+        text: '{"action":"call_tool","toolName":"sum_numbers","args":{"numbers":[1,2]}}',
+        functionCalls: [],
+        raw: {},
+      },
+      { text: '{"action":"respond","response":"HELLO 3"}', functionCalls: [], raw: {} },
+    ]);
+
+    const result = await runStrategy({
+      strategy: "structured-json",
+      prompt: "Uppercase hello",
+      model: "test-model",
+      strategyOptions: { "structured-json": { maxTurns: 3 } },
+      toolRegistry: createTestToolRegistry(),
+      toolTopK: 1,
+      client,
+    });
+
+    expect(String(client.calls[0]?.contents)).not.toContain("sum_numbers");
+    expect(client.calls).toHaveLength(3);
+    expect(result.finalText).toBe("HELLO 3");
+    expect(result.attempts).toBe(1);
+    expect(result.toolCalls.map((call) => [call.toolName, call.result])).toEqual([
+      ["to_uppercase", { transformed: "HELLO" }],
+      ["sum_numbers", { total: 3 }],
+    ]);
+    expect(result.toolRetrieval).toEqual({ k: 1, selected: ["to_uppercase"], widened: ["sum_numbers"] });
+    expect(result.trace[0]).toMatchObject({ kind: "retrieval", detail: "tool_retrieval" });
+  });
+
+  it("passes the abort signal to model calls and does not retry a cancelled run", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const client = new MockModelClient([
+      { text: '{"action":"respond","response":"hi"}', functionCalls: [], raw: {} },
+    ]);
+
+    const error = await runStrategy({
+      strategy: "structured-json",
+      prompt: "Say hi",
+      model: "test-model",
+      maxRetries: 2,
+      client,
+      signal: controller.signal,
+    }).catch((caught: unknown) => caught);
+
+    expect(classifyError(error)).toBe("aborted");
+    expect((error as StrategyRunError).attempts).toBe(1);
+    expect(client.calls).toHaveLength(0);
+  });
+
+  it("streams thought, text, function call, repair, and tool events in order", async () => {
+    const stream = streamStrategy({
+      strategy: "hybrid-repair",
+      prompt: "Add 1 2 3",
+      model: "test-model",
+      client: new StreamingMockClient([
+        {
+          text: "",
+          thoughts: ["Need to add."],
+          functionCalls: [{ id: "call_1", name: "sum_numbers", args: { numbers: ["one", "two", "three"] } }],
+          raw: {},
+        },
+        { text: '{"numbers":[1,2,3]}', functionCalls: [], raw: {} },
+        { text: "The sum is 6.", functionCalls: [], raw: {} },
+      ]),
+    });
+
+    const events: RunEvent[] = [];
+    let next = await stream.next();
+    while (!next.done) {
+      events.push(next.value);
+      next = await stream.next();
+    }
+
+    expect(next.value.finalText).toBe("The sum is 6.");
+    expect(events.map((event) => event.type)).toEqual([
+      "attempt_started",
+      "thought_chunk",
+      "function_call",
+      "repair_started",
+      "text_chunk",
+      "text_chunk",
+      "tool_executed",
+      "text_chunk",
+      "text_chunk",
+    ]);
+    expect(events.find((event) => event.type === "tool_executed")).toMatchObject({
+      toolName: "sum_numbers",
+      args: { numbers: [1, 2, 3] },
+    });
+  });
+
+  it("emits whole responses as single chunks when the client cannot stream", async () => {
+    const events: RunEvent[] = [];
+    await runStrategy({
+      strategy: "structured-json",
+      prompt: "Say hi",
+      model: "test-model",
+      client: new MockModelClient([
+        { text: '{"action":"respond","response":"hi"}', functionCalls: [], raw: {} },
+      ]),
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(events).toEqual([
+      { type: "attempt_started", attempt: 1, maxAttempts: 1 },
+      { type: "text_chunk", text: '{"action":"respond","response":"hi"}' },
+    ]);
+  });
+
+  it("aborts the run when the consumer stops iterating early", async () => {
+    const signals: AbortSignal[] = [];
+    const hangingClient: ModelClient = {
+      generateContent: (_request, options) =>
+        new Promise<ModelResult>((_resolve, reject) => {
+          const signal = options?.signal;
+          if (signal) {
+            signals.push(signal);
+            signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+          }
+        }),
+    };
+    const outer = new AbortController();
+
+    for await (const event of streamStrategy({
+      strategy: "structured-json",
+      prompt: "Say hi",
+      model: "test-model",
+      client: hangingClient,
+      signal: outer.signal,
+    })) {
+      if (event.type === "attempt_started") {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        break;
+      }
+    }
+
+    expect(signals).toHaveLength(1);
+    expect(signals[0]?.aborted).toBe(true);
+    expect(outer.signal.aborted).toBe(false);
+  });
+
+  it("throws the run error from the stream once the events are drained", async () => {
+    const stream = streamStrategy({
+      strategy: "structured-json",
+      prompt: "Say hi",
+      model: "test-model",
+      client: new MockModelClient([{ text: "nope", functionCalls: [], raw: {} }]),
+    });
+
+    const types: string[] = [];
+    const error = await (async () => {
+      for await (const event of stream) {
+        types.push(event.type);
+      }
+    })().catch((caught: unknown) => caught);
+
+    expect(types).toEqual(["attempt_started", "text_chunk"]);
+    expect(error).toBeInstanceOf(StrategyRunError);
+  });
+});
@@ -2,7 +2,7 @@ import { describe, expect, it } from "bun:test";
 
 import { createTestToolRegistry } from "../src/demo-tools";
 import { runStructuredJsonRunner } from "../src/runners/structured-json-runner";
-import { MockModelClient } from "./test-helpers";
+import { MockModelClient, registryWithDivide } from "./test-helpers";
 
 describe("structured-json runner", () => {
   it("repairs malformed JSON intent and executes tool", async () => {
@@ -30,5 +30,97 @@ describe("structured-json runner", () => {
     expect(result.toolCalls.length).toBe(1);
     expect(result.toolCalls[0]?.toolName).toBe("sum_numbers");
   });
-});
 
+  it("feeds the scratchpad back until the model responds", async () => {
+    const client = new MockModelClient([
+      {
+        text: '{"action":"call_tool","toolName":"multiply_numbers","args":{"numbers":[3,4,5]}}',
+        functionCalls: [],
+        raw: {},
+      },
+      {
+        text: '{"action":"call_tool","toolName":"to_uppercase","args":{"text":"shipped"}}',
+        functionCalls: [],
+        raw: {},
+      },
+      {
+        text: '{"action":"respond","response":"Product is 60 and SHIPPED."}',
+        functionCalls: [],
+        raw: {},
+      },
+    ]);
+
+    const result = await runStructuredJsonRunner(
+      client,
+      createTestToolRegistry(),
+      "Multiply 3, 4, 5 then uppercase shipped",
+      { model: "test-model", maxTurns: 4 },
+    );
+
+    expect(result.finalText).toBe("Product is 60 and SHIPPED.");
+    expect(result.toolCalls.map((call) => call.toolName)).toEqual([
+      "multiply_numbers",
+      "to_uppercase",
+    ]);
+    expect(String(client.calls[2]?.contents)).toContain('"product": 60');
+  });
+
+  it("finalizes from the scratchpad when turns run out", async () => {
+    const client = new MockModelClient([
+      {
+        text: '{"action":"call_tool","toolName":"sum_numbers","args":{"numbers":[1,2]}}',
+        functionCalls: [],
+        raw: {},
+      },
+      {
+        text: '{"action":"call_tool","toolName":"sum_numbers","args":{"numbers":[3,4]}}',
+        functionCalls: [],
+        raw: {},
+      },
+      {
+        text: '{"action":"respond","response":"Totals are 3 and 7"}',
+        functionCalls: [],
+        raw: {},
+      },
+    ]);
+
+    const result = await runStructuredJsonRunner(
+      client,
+      createTestToolRegistry(),
+      "Add 1+2 and 3+4",
+      { model: "test-model", maxTurns: 2 },
+    );
+
+    expect(result.finalText).toBe("Totals are 3 and 7");
+    expect(result.toolCalls).toHaveLength(2);
+    expect(String(client.calls[2]?.contents)).toContain("sequence of tool calls");
+  });
+
+  it("puts a failed tool call in the scratchpad for the next turn", async () => {
+    const client = new MockModelClient([
+      {
+        text: '{"action":"call_tool","toolName":"divide","args":{"a":1,"b":0}}',
+        functionCalls: [],
+        raw: {},
+      },
+      {
+        text: '{"action":"respond","response":"Cannot divide by zero."}',
+        functionCalls: [],
+        raw: {},
+      },
+    ]);
+
+    const result = await runStructuredJsonRunner(
+      client,
+      registryWithDivide(),
+      "Divide 1 by 0",
+      { model: "test-model", maxTurns: 2 },
+    );
+
+    expect(result.finalText).toBe("Cannot divide by zero.");
+    expect(result.toolCalls[0]?.error?.type).toBe("RangeError");
+    const prompt = String(client.calls[1]?.contents);
+    expect(prompt).toContain('"message": "b must not be zero"');
+    expect(prompt).toContain("retry with corrected args");
+  });
+});
@@ -1,6 +1,10 @@
 import type { GenerateContentParameters } from "@google/genai";
+import { z } from "zod";
 
-import type { ModelClient, ModelResult } from "../src/contracts";
+import type { ModelClient, ModelRequestOptions, ModelResult } from "../src/contracts";
+import { createTestToolRegistry } from "../src/demo-tools";
+import { throwIfAborted } from "../src/errors";
+import type { ToolRegistry } from "../src/tool-registry";
 
 export class MockModelClient implements ModelClient {
   private readonly responses: ModelResult[];
@@ -12,7 +16,9 @@ export class MockModelClient implements ModelClient {
 
   public async generateContent(
     request: GenerateContentParameters,
+    options?: ModelRequestOptions,
   ): Promise<ModelResult> {
+    throwIfAborted(options?.signal);
     this.calls.push(request);
     const next = this.responses.shift();
     if (!next) {
@@ -22,3 +28,19 @@ export class MockModelClient implements ModelClient {
   }
 }
 
+/** Test registry plus a `divide` tool that throws on a zero divisor. */
+export function registryWithDivide(): ToolRegistry {
+  const registry = createTestToolRegistry();
+  registry.register({
+    name: "divide",
+    description: "Divide a by b.",
+    argsSchema: z.object({ a: z.number(), b: z.number() }),
+    execute: ({ a, b }) => {
+      if (b === 0) {
+        throw new RangeError("b must not be zero");
+      }
+      return { quotient: a / b };
+    },
+  });
+  return registry;
+}
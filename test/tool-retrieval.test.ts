@@ -0,0 +1,59 @@
+import { describe, expect, it } from "bun:test";
+
+import { rankTools, retrieveTools, tokenize } from "../src/core/tool-retrieval";
+import { createDemoToolRegistry } from "../src/demo-tools";
+
+describe("tool retrieval", () => {
+  const registry = createDemoToolRegistry();
+
+  it("ranks the tool the prompt is about first", () => {
+    expect(rankTools(registry, "Convert 100 fahrenheit to celsius")[0]?.name).toBe(
+      "convert_temperature",
+    );
+    expect(rankTools(registry, "Sort these numbers descending: 3, 1, 2")[0]?.name).toBe(
+      "sort_numbers",
+    );
+    expect(rankTools(registry, "How many days between 2026-01-01 and 2026-03-01?")[0]?.name).toBe(
+      "days_between_dates",
+    );
+  });
+
+  it("keeps registry order among tools that score the same", () => {
+    const ranked = rankTools(registry, "zzz");
+    expect(ranked.every((tool) => tool.score === 0)).toBe(true);
+    expect(ranked.map((tool) => tool.name)).toEqual(registry.names());
+  });
+
+  it("selects the top k and starts with nothing widened", () => {
+    const retrieval = retrieveTools(registry, "Sum 1 and 2, then uppercase the result", 2);
+    expect(retrieval.selected).toHaveLength(2);
+    expect(retrieval.selected).toContain("sum_numbers");
+    expect(retrieval.selected).toContain("to_uppercase");
+    expect(retrieval.widened).toEqual([]);
+  });
+
+  it("tokenizes identifiers into stemmed words without stopwords", () => {
+    expect(tokenize("extractEmails from the user_records")).toEqual(["extract", "email", "user", "record"]);
+  });
+
+  it("builds a registry subset in registry order", () => {
+    const subset = registry.subset(["to_uppercase", "sum_numbers", "missing"]);
+    expect(subset.names()).toEqual(["sum_numbers", "to_uppercase"]);
+  });
+
+  it("widens a subset from its parent on resolve, within the budget", () => {
+    const widened: string[] = [];
+    const subset = registry.subset(["to_uppercase"], {
+      maxWidenings: 1,
+      onWiden: (name) => widened.push(name),
+    });
+
+    expect(subset.resolve("to_uppercase")).toBe(true);
+    expect(subset.resolve("missing")).toBe(false);
+    expect(subset.resolve("sum_numbers")).toBe(true);
+    expect(subset.resolve("multiply_numbers")).toBe(false);
+    expect(subset.names()).toEqual(["to_uppercase", "sum_numbers"]);
+    expect(widened).toEqual(["sum_numbers"]);
+    expect(registry.subset(["to_uppercase"]).resolve("sum_numbers")).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "bun:test";
+
+import type { RunnerTraceStep } from "../src/contracts";
+import { generateWithTrace, summarizeLlmCalls } from "../src/core/trace";
+import { MockModelClient } from "./test-helpers";
+
+describe("trace", () => {
+  it("records each LLM call with its purpose, latency, and client retries", async () => {
+    const trace: RunnerTraceStep[] = [];
+    const client = new MockModelClient([
+      { text: "a", functionCalls: [], raw: {}, retries: 2 },
+      { text: "b", functionCalls: [], raw: {} },
+    ]);
+
+    await generateWithTrace(client, trace, { purpose: "intent", detail: "turn_0" }, {
+      model: "test-model",
+      contents: "hi",
+    });
+    await generateWithTrace(client, trace, { purpose: "repair", detail: "repair" }, {
+      model: "test-model",
+      contents: "fix",
+    });
+
+    expect(trace.map((step) => step.data?.purpose)).toEqual(["intent", "repair"]);
+    expect(trace[0]?.data?.retries).toBe(2);
+    expect(trace[0]?.data?.latencyMs).toBe((trace[0]?.endedAt ?? 0) - (trace[0]?.startedAt ?? 0));
+  });
+
+  it("sums latency by purpose and ignores steps that are not timed calls", () => {
+    const summary = summarizeLlmCalls([
+      { kind: "llm", detail: "turn_0", data: { purpose: "intent", latencyMs: 120, retries: 1 } },
+      { kind: "llm", detail: "turn_1", data: { purpose: "intent", latencyMs: 80, retries: 0 } },
+      { kind: "llm", detail: "repair", data: { purpose: "repair", latencyMs: 40, retries: 0 } },
+      { kind: "llm", detail: "turn_1_text_response" },
+      { kind: "usage", detail: "turn_0_usage", data: { totalTokens: 10 } },
+    ]);
+
+    expect(summary).toEqual({
+      calls: 3,
+      retries: 1,
+      latencyMs: { intent: 200, fill: 0, repair: 40, finalize: 0, fallback: 0 },
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "bun:test";
+
+import { runWorkerPool } from "../src/core/worker-pool";
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("worker pool", () => {
+  it("keeps input order while respecting global and per-group caps", async () => {
+    const tasks = [
+      { group: "a", delay: 30 },
+      { group: "a", delay: 5 },
+      { group: "b", delay: 10 },
+      { group: "a", delay: 5 },
+      { group: "b", delay: 1 },
+    ];
+    const active = new Map<string, number>();
+    let peakTotal = 0;
+    let peakA = 0;
+    let total = 0;
+
+    const results = await runWorkerPool(
+      tasks,
+      {
+        concurrency: 3,
+        groupOf: (task) => task.group,
+        groupLimit: (group) => (group === "a" ? 1 : 3),
+      },
+      async (task, index) => {
+        total += 1;
+        active.set(task.group, (active.get(task.group) ?? 0) + 1);
+        peakTotal = Math.max(peakTotal, total);
+        peakA = Math.max(peakA, active.get("a") ?? 0);
+        await sleep(task.delay);
+        active.set(task.group, (active.get(task.group) ?? 1) - 1);
+        total -= 1;
+        return index;
+      },
+    );
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peakTotal).toBeLessThanOrEqual(3);
+    expect(peakTotal).toBeGreaterThan(1);
+    expect(peakA).toBe(1);
+  });
+
+  it("rejects with the first worker error after in-flight tasks settle", async () => {
+    let settled = 0;
+    const run = runWorkerPool([1, 2, 3], { concurrency: 2 }, async (task) => {
+      await sleep(task);
+      settled += 1;
+      if (task === 1) {
+        throw new Error("boom");
+      }
+      return task;
+    });
+
+    await expect(run).rejects.toThrow("boom");
+    expect(settled).toBe(2);
+  });
+});
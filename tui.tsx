@@ -1,21 +1,35 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { Box, Text, render, useApp, useInput } from "ink";
 
-import { runBenchmark, type BenchmarkResult } from "./src/benchmark";
+import {
+  describeSignificantPairs,
+  runBenchmark,
+  type BenchmarkResult,
+} from "./src/benchmark";
+import { ChatSession, describeToolCall } from "./src/chat-session";
+import type { RunEvent } from "./src/core/events";
+import { formatArgsDiff } from "./src/core/json-diff";
 import type { ReasoningEffort } from "./src/generation-settings";
 import { getModelOptions, probeModelAvailability } from "./src/model-catalog";
-import { PROMPT_PRESETS } from "./src/prompt-presets";
+import type { PromptPreset } from "./src/prompt-presets";
+import { loadPromptPresets } from "./src/preset-loader";
+import { formatFailureCategories } from "./src/reports/report-tables";
 import { createFileLogger } from "./src/run-logger";
 import {
-  STRATEGIES,
+  defaultStrategyOptions,
+  defaultStrategyRegistry,
+  loadStrategyModules,
+  type Strategy,
+  type StrategyOptionsById,
+} from "./src/strategy-registry";
+import {
   resolveDefaultModel,
   runStrategy,
   type PlaygroundResult,
-  type Strategy,
 } from "./src/strategy-runner";
 import { getMenuWindow } from "./src/tui-menu-window";
 
-type AppMode = "single" | "benchmark";
+type AppMode = "single" | "benchmark" | "chat";
 type Screen =
   | "mode"
   | "strategy"
@@ -24,7 +38,8 @@ type Screen =
   | "model"
   | "settings"
   | "running"
-  | "result";
+  | "result"
+  | "chat";
 
 type BenchmarkStrategyScope = "all" | Strategy;
 
@@ -35,13 +50,28 @@ interface RuntimeSettings {
   maxRetries: number;
   logs: boolean;
   verbose: boolean;
-  routerMaxTurns: number;
-  hybridMaxTurns: number;
+  strategyOptions: StrategyOptionsById;
   iterations: number;
+  concurrency: number;
   benchmarkStrategyScope: BenchmarkStrategyScope;
   benchmarkAllModels: boolean;
 }
 
+interface LiveRun {
+  attempt: number;
+  maxAttempts: number;
+  thought: string;
+  text: string;
+  steps: string[];
+}
+
+interface ChatEntry {
+  prompt: string;
+  toolCalls: string[];
+  reply?: string;
+  error?: string;
+}
+
 interface SelectionState {
   mode: AppMode;
   strategy: Strategy;
@@ -54,14 +84,20 @@ interface SelectionState {
 const CUSTOM_PROMPT_LABEL = "Custom prompt";
 const BENCHMARK_ALL_PRESETS_LABEL = "All presets";
 const MAX_VISIBLE_MENU_OPTIONS = 10;
+// Settings stepper cap for integer options without a declared max (turn caps).
+const INTEGER_OPTION_STEP_MAX = 12;
+const EMPTY_LIVE_RUN: LiveRun = { attempt: 0, maxAttempts: 0, thought: "", text: "", steps: [] };
 
-function App(): React.JSX.Element {
+function App(props: { presets: PromptPreset[] }): React.JSX.Element {
+  const { presets } = props;
   const { exit } = useApp();
   const [screen, setScreen] = useState<Screen>("mode");
+  const runAbortRef = useRef<AbortController | null>(null);
+  const chatSessionRef = useRef<ChatSession | null>(null);
 
   const [selection, setSelection] = useState<SelectionState>({
     mode: "single",
-    strategy: STRATEGIES[0],
+    strategy: defaultStrategyRegistry.ids()[0] ?? "structured-json",
     promptIndex: 0,
     customPrompt: "",
     model: "gemini-3-flash-preview",
@@ -72,9 +108,9 @@ function App(): React.JSX.Element {
       maxRetries: 1,
       logs: true,
       verbose: false,
-      routerMaxTurns: 4,
-      hybridMaxTurns: 4,
+      strategyOptions: tuiStrategyOptions(),
       iterations: 1,
+      concurrency: 1,
       benchmarkStrategyScope: "all",
       benchmarkAllModels: false,
     },
@@ -90,6 +126,10 @@ function App(): React.JSX.Element {
   const [benchmarkResult, setBenchmarkResult] = useState<BenchmarkResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [runLogs, setRunLogs] = useState<string[]>([]);
+  const [liveRun, setLiveRun] = useState<LiveRun>(EMPTY_LIVE_RUN);
+  const [chatEntries, setChatEntries] = useState<ChatEntry[]>([]);
+  const [chatInput, setChatInput] = useState("");
+  const [chatBusy, setChatBusy] = useState(false);
   const [runLogFilePath, setRunLogFilePath] = useState<string | null>(null);
   const [runningStartedRuns, setRunningStartedRuns] = useState(0);
   const [runningTotalRuns, setRunningTotalRuns] = useState(0);
@@ -127,35 +167,85 @@ function App(): React.JSX.Element {
     }
   }, [modelOptions, selection.model]);
 
-  const modeOptions = ["Single run", "Benchmark"];
+  const modeOptions = ["Single run", "Benchmark", "Chat"];
+  const strategyIds = defaultStrategyRegistry.ids();
   const promptOptionsForSingle = [
-    ...PROMPT_PRESETS.map((preset) => preset.title),
+    ...presets.map((preset) => preset.title),
     CUSTOM_PROMPT_LABEL,
   ];
   const promptOptionsForBenchmark = [
     BENCHMARK_ALL_PRESETS_LABEL,
-    ...PROMPT_PRESETS.map((preset) => preset.title),
+    ...presets.map((preset) => preset.title),
   ];
   const promptOptions =
     selection.mode === "single" ? promptOptionsForSingle : promptOptionsForBenchmark;
 
   const effectiveSinglePrompt = useMemo(() => {
-    if (selection.promptIndex === PROMPT_PRESETS.length) {
+    if (selection.promptIndex === presets.length) {
       return selection.customPrompt.trim();
     }
-    return PROMPT_PRESETS[selection.promptIndex]?.prompt ?? "";
-  }, [selection.customPrompt, selection.promptIndex]);
+    return presets[selection.promptIndex]?.prompt ?? "";
+  }, [presets, selection.customPrompt, selection.promptIndex]);
+
+  const sendChatMessage = (prompt: string): void => {
+    const session = chatSessionRef.current;
+    if (!session) {
+      return;
+    }
+    if (prompt === "/reset") {
+      session.reset();
+      setChatEntries([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    runAbortRef.current = controller;
+    setChatBusy(true);
+    setLiveRun(EMPTY_LIVE_RUN);
+    setChatEntries((prev) => [...prev, { prompt, toolCalls: [] }]);
+    const finishTurn = (update: Partial<ChatEntry>): void =>
+      setChatEntries((prev) =>
+        prev.map((entry, index) => (index === prev.length - 1 ? { ...entry, ...update } : entry)),
+      );
+
+    void session
+      .send(prompt, {
+        signal: controller.signal,
+        onEvent: (event) => setLiveRun((prev) => applyRunEvent(prev, event)),
+      })
+      .then((result) =>
+        finishTurn({
+          toolCalls: result.toolCalls.map((call) => describeToolCall(call, 100)),
+          reply: result.finalText,
+        }),
+      )
+      .catch((unknownError: unknown) =>
+        finishTurn({
+          error: controller.signal.aborted
+            ? "Turn cancelled."
+            : unknownError instanceof Error
+              ? unknownError.message
+              : String(unknownError),
+        }),
+      )
+      .finally(() => {
+        setChatBusy(false);
+        runAbortRef.current = null;
+      });
+  };
 
   useInput((input, key) => {
-    if ((input === "c" && key.ctrl) || input === "q") {
+    const typing = screen === "custom-prompt" || screen === "chat";
+    if ((input === "c" && key.ctrl) || (input === "q" && !typing)) {
       exit();
       return;
     }
 
     if (screen === "running") {
-      if (key.escape) {
-        setError("Run cancelled by user.");
-        setScreen("result");
+      // The run effect shows whatever finished once the pipeline has stopped.
+      if (key.escape && runAbortRef.current && !runAbortRef.current.signal.aborted) {
+        runAbortRef.current.abort();
+        setRunLogs((prev) => [...prev.slice(-25), "[cancel] stopping run..."]);
       }
       return;
     }
@@ -170,16 +260,16 @@ function App(): React.JSX.Element {
         return;
       }
       if (key.return) {
-        const mode: AppMode = modeIndex === 0 ? "single" : "benchmark";
+        const mode: AppMode = modeIndex === 0 ? "single" : modeIndex === 1 ? "benchmark" : "chat";
         setSelection((prev) => ({ ...prev, mode }));
-        setScreen(mode === "single" ? "strategy" : "prompt");
+        setScreen(mode === "benchmark" ? "prompt" : "strategy");
       }
       return;
     }
 
     if (screen === "strategy") {
       if (key.downArrow) {
-        setStrategyIndex((value) => Math.min(value + 1, STRATEGIES.length - 1));
+        setStrategyIndex((value) => Math.min(value + 1, strategyIds.length - 1));
         return;
       }
       if (key.upArrow) {
@@ -193,9 +283,10 @@ function App(): React.JSX.Element {
       if (key.return) {
         setSelection((prev) => ({
           ...prev,
-          strategy: STRATEGIES[strategyIndex] ?? prev.strategy,
+          strategy: strategyIds[strategyIndex] ?? prev.strategy,
         }));
-        setScreen("prompt");
+        // Chat prompts are typed turn by turn instead of picked up front.
+        setScreen(selection.mode === "chat" ? "model" : "prompt");
       }
       return;
     }
@@ -215,7 +306,7 @@ function App(): React.JSX.Element {
       }
       if (key.return) {
         setSelection((prev) => ({ ...prev, promptIndex }));
-        if (selection.mode === "single" && promptIndex === PROMPT_PRESETS.length) {
+        if (selection.mode === "single" && promptIndex === presets.length) {
           setScreen("custom-prompt");
           return;
         }
@@ -273,7 +364,11 @@ function App(): React.JSX.Element {
         return;
       }
       if (key.escape) {
-        setScreen(selection.mode === "single" && selection.promptIndex === PROMPT_PRESETS.length
+        if (selection.mode === "chat") {
+          setScreen("strategy");
+          return;
+        }
+        setScreen(selection.mode === "single" && selection.promptIndex === presets.length
           ? "custom-prompt"
           : "prompt");
         return;
@@ -301,7 +396,11 @@ function App(): React.JSX.Element {
     }
 
     if (screen === "settings") {
-      const fields = getSettingsFields(selection.mode, selection.settings);
+      const fields = getSettingsFields(
+        selection.mode,
+        selection.settings,
+        settingsStrategies(selection),
+      );
       if (key.downArrow) {
         setSettingsIndex((value) => Math.min(value + 1, fields.length - 1));
         return;
@@ -322,12 +421,31 @@ function App(): React.JSX.Element {
         adjustSetting(selection.mode, fields[settingsIndex]?.key, 1, setSelection);
         return;
       }
+      if (key.return && selection.mode === "chat") {
+        chatSessionRef.current = new ChatSession({
+          strategy: selection.strategy,
+          model: selection.model,
+          maxRetries: selection.settings.maxRetries,
+          strategyOptions: selection.settings.strategyOptions,
+          generationSettings: {
+            thinking: selection.settings.thinking,
+            includeThoughts: selection.settings.includeThoughts,
+            reasoningEffort: selection.settings.reasoningEffort,
+          },
+        });
+        setChatEntries([]);
+        setChatInput("");
+        setLiveRun(EMPTY_LIVE_RUN);
+        setScreen("chat");
+        return;
+      }
       if (key.return) {
         setSingleResult(null);
         setBenchmarkResult(null);
         setError(null);
         setShowRawJson(false);
         setRunLogs([]);
+        setLiveRun(EMPTY_LIVE_RUN);
         setRunLogFilePath(null);
         setRunningStartedRuns(0);
         setRunningTotalRuns(0);
@@ -336,12 +454,51 @@ function App(): React.JSX.Element {
       return;
     }
 
+    if (screen === "chat") {
+      if (key.escape) {
+        if (chatBusy) {
+          runAbortRef.current?.abort();
+        } else {
+          setScreen("settings");
+        }
+        return;
+      }
+      if (chatBusy) {
+        return;
+      }
+      if (key.return) {
+        const prompt = chatInput.trim();
+        if (prompt.length > 0) {
+          setChatInput("");
+          sendChatMessage(prompt);
+        }
+        return;
+      }
+      if (key.backspace || key.delete) {
+        setChatInput((prev) => prev.slice(0, -1));
+        return;
+      }
+      if (
+        input.length > 0 &&
+        !key.ctrl &&
+        !key.meta &&
+        !key.upArrow &&
+        !key.downArrow &&
+        !key.leftArrow &&
+        !key.rightArrow
+      ) {
+        setChatInput((prev) => prev + input);
+      }
+      return;
+    }
+
     if (screen === "result") {
       if (input === "r") {
         setSingleResult(null);
         setBenchmarkResult(null);
         setError(null);
         setRunLogs([]);
+        setLiveRun(EMPTY_LIVE_RUN);
         setRunLogFilePath(null);
         setRunningStartedRuns(0);
         setRunningTotalRuns(0);
@@ -380,20 +537,22 @@ function App(): React.JSX.Element {
     }
 
     let cancelled = false;
+    const controller = new AbortController();
+    runAbortRef.current = controller;
     void (async () => {
       const selectedPreset =
         selection.promptIndex > 0
-          ? PROMPT_PRESETS[selection.promptIndex - 1]
+          ? presets[selection.promptIndex - 1]
           : undefined;
       const selectedPresets =
         selection.promptIndex === 0
-          ? PROMPT_PRESETS
+          ? presets
           : selectedPreset
             ? [selectedPreset]
-            : PROMPT_PRESETS;
+            : presets;
       const selectedStrategies =
         selection.settings.benchmarkStrategyScope === "all"
-          ? [...STRATEGIES]
+          ? defaultStrategyRegistry.ids()
           : [selection.settings.benchmarkStrategyScope];
       const selectedModels = selection.settings.benchmarkAllModels
         ? modelOptions
@@ -437,14 +596,15 @@ function App(): React.JSX.Element {
             maxRetries: selection.settings.maxRetries,
             logs: selection.settings.logs,
             verbose: selection.settings.verbose,
-            routerMaxTurns: selection.settings.routerMaxTurns,
-            hybridMaxTurns: selection.settings.hybridMaxTurns,
+            strategyOptions: selection.settings.strategyOptions,
             generationSettings: {
               thinking: selection.settings.thinking,
               includeThoughts: selection.settings.includeThoughts,
               reasoningEffort: selection.settings.reasoningEffort,
             },
             logger,
+            signal: controller.signal,
+            onEvent: (event) => setLiveRun((prev) => applyRunEvent(prev, event)),
           });
 
           if (!cancelled) {
@@ -461,17 +621,18 @@ function App(): React.JSX.Element {
           strategies: selectedStrategies,
           presets: selectedPresets,
           iterations: selection.settings.iterations,
+          concurrency: selection.settings.concurrency,
           maxRetries: selection.settings.maxRetries,
           logs: selection.settings.logs,
           verbose: selection.settings.verbose,
-          routerMaxTurns: selection.settings.routerMaxTurns,
-          hybridMaxTurns: selection.settings.hybridMaxTurns,
+          strategyOptions: selection.settings.strategyOptions,
           generationSettings: {
             thinking: selection.settings.thinking,
             includeThoughts: selection.settings.includeThoughts,
             reasoningEffort: selection.settings.reasoningEffort,
           },
           logger,
+          signal: controller.signal,
         });
 
         if (!cancelled) {
@@ -484,7 +645,7 @@ function App(): React.JSX.Element {
         const message =
           unknownError instanceof Error ? unknownError.message : String(unknownError);
         if (!cancelled) {
-          setError(message);
+          setError(controller.signal.aborted ? "Run cancelled by user." : message);
           setSingleResult(null);
           setBenchmarkResult(null);
           setScreen("result");
@@ -494,6 +655,7 @@ function App(): React.JSX.Element {
 
     return () => {
       cancelled = true;
+      controller.abort();
     };
   }, [
     effectiveSinglePrompt,
@@ -532,8 +694,9 @@ function App(): React.JSX.Element {
         {screen === "strategy" && (
           <MenuList
             title="2) Select Strategy"
-            options={STRATEGIES.map((item) => item)}
+            options={strategyIds}
             selectedIndex={strategyIndex}
+            details={defaultStrategyRegistry.get(strategyIds[strategyIndex] ?? selection.strategy).description}
             footer="Enter: next | Esc: back"
           />
         )}
@@ -543,7 +706,7 @@ function App(): React.JSX.Element {
             title={selection.mode === "single" ? "3) Select Prompt" : "2) Select Benchmark Presets"}
             options={promptOptions}
             selectedIndex={promptIndex}
-            details={promptDetails(selection.mode, promptIndex)}
+            details={promptDetails(selection.mode, promptIndex, presets)}
             footer="Enter: next | Esc: back"
           />
         )}
@@ -564,7 +727,13 @@ function App(): React.JSX.Element {
         {screen === "model" && (
           <Box flexDirection="column">
             <MenuList
-              title={selection.mode === "single" ? "4) Select Model" : "3) Select Primary Model"}
+              title={
+                selection.mode === "benchmark"
+                  ? "3) Select Primary Model"
+                  : selection.mode === "chat"
+                    ? "3) Select Model"
+                    : "4) Select Model"
+              }
               options={modelOptions}
               selectedIndex={modelIndex}
               footer={
@@ -587,6 +756,7 @@ function App(): React.JSX.Element {
           <SettingsList
             mode={selection.mode}
             settings={selection.settings}
+            strategies={settingsStrategies(selection)}
             selectedIndex={settingsIndex}
           />
         )}
@@ -595,12 +765,23 @@ function App(): React.JSX.Element {
           <RunningView
             mode={selection.mode}
             logs={runLogs}
+            liveRun={liveRun}
             startedRuns={runningStartedRuns}
             totalRuns={runningTotalRuns}
             logFilePath={runLogFilePath}
           />
         )}
 
+        {screen === "chat" && (
+          <ChatView
+            strategy={selection.strategy}
+            entries={chatEntries}
+            input={chatInput}
+            busy={chatBusy}
+            liveRun={liveRun}
+          />
+        )}
+
         {screen === "result" && (
           <ResultView
             mode={selection.mode}
@@ -666,12 +847,19 @@ function MenuList(props: {
 function SettingsList(props: {
   mode: AppMode;
   settings: RuntimeSettings;
+  strategies: Strategy[];
   selectedIndex: number;
 }): React.JSX.Element {
-  const fields = getSettingsFields(props.mode, props.settings);
+  const fields = getSettingsFields(props.mode, props.settings, props.strategies);
   return (
     <Box flexDirection="column">
-      <Text bold>{props.mode === "single" ? "5) Settings" : "4) Benchmark Settings"}</Text>
+      <Text bold>
+        {props.mode === "benchmark"
+          ? "4) Benchmark Settings"
+          : props.mode === "chat"
+            ? "4) Chat Settings"
+            : "5) Settings"}
+      </Text>
       {fields.map((field, index) => (
         <Text
           key={field.key}
@@ -681,7 +869,9 @@ function SettingsList(props: {
           {field.label}: {field.value}
         </Text>
       ))}
-      <Text dimColor>Left/Right: change | Enter: run | Esc: back</Text>
+      <Text dimColor>
+        Left/Right: change | Enter: {props.mode === "chat" ? "start chat" : "run"} | Esc: back
+      </Text>
     </Box>
   );
 }
@@ -689,6 +879,7 @@ function SettingsList(props: {
 function RunningView(props: {
   mode: AppMode;
   logs: string[];
+  liveRun: LiveRun;
   startedRuns: number;
   totalRuns: number;
   logFilePath: string | null;
@@ -704,10 +895,35 @@ function RunningView(props: {
         Running {props.mode === "single" ? "single strategy" : "benchmark"}...
       </Text>
       {progressLabel ? <Text color="cyan">{progressLabel}</Text> : null}
+      {props.liveRun.maxAttempts > 1 ? (
+        <Text color="cyan">
+          Attempt {props.liveRun.attempt}/{props.liveRun.maxAttempts}
+        </Text>
+      ) : null}
+      {props.liveRun.thought.length > 0 ? (
+        <Box flexDirection="column" marginTop={1}>
+          <Text bold>Thinking</Text>
+          <Text color="gray">{props.liveRun.thought}</Text>
+        </Box>
+      ) : null}
+      {props.liveRun.steps.length > 0 ? (
+        <Box flexDirection="column" marginTop={1}>
+          <Text bold>Tool calls</Text>
+          {props.liveRun.steps.slice(-8).map((line, index) => (
+            <Text key={`${line}-${index}`}>{line}</Text>
+          ))}
+        </Box>
+      ) : null}
+      {props.liveRun.text.length > 0 ? (
+        <Box flexDirection="column" marginTop={1}>
+          <Text bold>Model output</Text>
+          <Text>{props.liveRun.text}</Text>
+        </Box>
+      ) : null}
       {props.logs.length > 0 ? (
         <Box flexDirection="column" marginTop={1}>
           <Text bold>Live logs</Text>
-          {props.logs.slice(-12).map((line, index) => (
+          {props.logs.slice(props.liveRun.attempt > 0 ? -5 : -12).map((line, index) => (
             <Text key={`${line}-${index}`} dimColor>
               {line}
             </Text>
@@ -722,6 +938,60 @@ function RunningView(props: {
   );
 }
 
+function ChatView(props: {
+  strategy: Strategy;
+  entries: ChatEntry[];
+  input: string;
+  busy: boolean;
+  liveRun: LiveRun;
+}): React.JSX.Element {
+  const visible = props.entries.slice(-6);
+  return (
+    <Box flexDirection="column">
+      <Text bold>Chat ({props.strategy})</Text>
+      {props.entries.length > visible.length ? (
+        <Text dimColor>{props.entries.length - visible.length} earlier turn(s)</Text>
+      ) : null}
+      {visible.map((entry, index) => (
+        <Box key={`${entry.prompt}-${index}`} flexDirection="column" marginTop={1}>
+          <Text color="cyan">you› {entry.prompt}</Text>
+          {entry.toolCalls.map((line, callIndex) => (
+            <Text key={`${line}-${callIndex}`} dimColor>
+              {"  "}tool› {line}
+            </Text>
+          ))}
+          {entry.reply !== undefined ? <Text>assistant› {entry.reply}</Text> : null}
+          {entry.error ? <Text color="red">error› {entry.error}</Text> : null}
+        </Box>
+      ))}
+      {props.busy ? (
+        <Box flexDirection="column" marginTop={1}>
+          {props.liveRun.thought.length > 0 ? (
+            <Text color="gray">{props.liveRun.thought}</Text>
+          ) : null}
+          {props.liveRun.steps.slice(-4).map((line, index) => (
+            <Text key={`${line}-${index}`} dimColor>
+              {"  "}
+              {line}
+            </Text>
+          ))}
+          <Text color="yellow">Thinking...</Text>
+        </Box>
+      ) : (
+        <Box marginTop={1}>
+          <Text color="yellow">
+            › {props.input}
+            <Text color="green">█</Text>
+          </Text>
+        </Box>
+      )}
+      <Text dimColor>
+        {props.busy ? "Esc: cancel turn" : "Enter: send | /reset: clear history | Esc: back"}
+      </Text>
+    </Box>
+  );
+}
+
 function ResultView(props: {
   mode: AppMode;
   singleResult: PlaygroundResult | null;
@@ -754,12 +1024,30 @@ function ResultView(props: {
         <Text>Model: {props.singleResult.usedModel}</Text>
         <Text>Attempts: {props.singleResult.attempts}</Text>
         <Text>Duration: {props.singleResult.durationMs}ms</Text>
+        <Text>
+          Tokens: {props.singleResult.usage.totalTokens} (prompt {props.singleResult.usage.promptTokens},
+          output {props.singleResult.usage.outputTokens}, thoughts {props.singleResult.usage.thoughtTokens})
+        </Text>
         <Text>Tool calls: {props.singleResult.toolCalls.length}</Text>
         {props.singleResult.toolCalls.slice(0, 4).map((call, index) => (
-          <Text key={`${call.toolName}-${index}`} dimColor>
-            tool[{index + 1}] {call.toolName} repaired={call.repaired ? "yes" : "no"} args=
-            {truncateForUi(JSON.stringify(call.args), 110)}
-          </Text>
+          <Box key={`${call.toolName}-${index}`} flexDirection="column">
+            <Text dimColor>
+              tool[{index + 1}] {call.toolName} repaired={call.repaired || "no"} args=
+              {truncateForUi(JSON.stringify(call.args), 110)}
+            </Text>
+            {call.repair ? (
+              <Text dimColor>
+                {"  "}via {call.repair.tiers.join(" > ")}
+                {call.repair.repairModel ? ` (${call.repair.repairModel})` : ""}
+              </Text>
+            ) : null}
+            {formatArgsDiff(call.repair?.diff ?? []).slice(0, 6).map((line, lineIndex) => (
+              <Text key={`diff-${lineIndex}`} color={diffLineColor(line)}>
+                {"    "}
+                {truncateForUi(line, 120)}
+              </Text>
+            ))}
+          </Box>
         ))}
         {props.singleResult.toolCalls.length > 4 ? (
           <Text dimColor>... {props.singleResult.toolCalls.length - 4} more tool calls</Text>
@@ -788,9 +1076,15 @@ function ResultView(props: {
     const total = props.benchmarkResult.records.length;
     return (
       <Box flexDirection="column">
-        <Text bold color="green">
-          Benchmark complete
-        </Text>
+        {props.benchmarkResult.aborted ? (
+          <Text bold color="yellow">
+            Benchmark cancelled; showing {total} finished runs
+          </Text>
+        ) : (
+          <Text bold color="green">
+            Benchmark complete
+          </Text>
+        )}
         <Text>Total runs: {total}</Text>
         <Text>
           Success: {success}/{total} ({total > 0 ? ((success / total) * 100).toFixed(1) : "0.0"}
@@ -799,8 +1093,20 @@ function ResultView(props: {
         <Text bold>Aggregate</Text>
         {props.benchmarkResult.aggregates.map((row) => (
           <Text key={row.key}>
-            {row.strategy} | {row.model} | success {(row.successRate * 100).toFixed(1)}% | avg{" "}
-            {row.avgDurationMs}ms
+            {row.strategy} | {row.model} | success {(row.successRate * 100).toFixed(1)}% [
+            {(row.successRateCi.low * 100).toFixed(0)}-{(row.successRateCi.high * 100).toFixed(0)}] | correct{" "}
+            {row.scoredRuns > 0 ? `${(row.correctnessRate * 100).toFixed(1)}%` : "n/a"} | avg{" "}
+            {row.avgDurationMs}ms | tokens {row.avgTotalTokens}
+            {formatFailureCategories(row.failureCategories)
+              ? ` | failures ${formatFailureCategories(row.failureCategories)}`
+              : ""}
+          </Text>
+        ))}
+        {describeSignificantPairs(
+          props.benchmarkResult.pairwise.filter((row) => row.presetId === undefined),
+        ).map((line) => (
+          <Text key={line} color="cyan">
+            {line}
           </Text>
         ))}
         {props.showRawJson ? (
@@ -820,29 +1126,39 @@ function ResultView(props: {
   );
 }
 
-function promptDetails(mode: AppMode, index: number): string {
+function promptDetails(mode: AppMode, index: number, presets: PromptPreset[]): string {
   if (mode === "benchmark") {
     if (index === 0) {
       return "Run against all preset prompts.";
     }
-    const preset = PROMPT_PRESETS[index - 1];
+    const preset = presets[index - 1];
     return preset
       ? `${preset.description} | recommended ${preset.recommendedStrategy}`
       : "Preset unavailable";
   }
 
-  if (index >= PROMPT_PRESETS.length) {
+  if (index >= presets.length) {
     return "Type your own prompt.";
   }
-  const preset = PROMPT_PRESETS[index];
+  const preset = presets[index];
   return preset
     ? `${preset.description} | recommended ${preset.recommendedStrategy}`
     : "Preset unavailable";
 }
 
+function settingsStrategies(selection: SelectionState): Strategy[] {
+  if (selection.mode !== "benchmark") {
+    return [selection.strategy];
+  }
+  return selection.settings.benchmarkStrategyScope === "all"
+    ? defaultStrategyRegistry.ids()
+    : [selection.settings.benchmarkStrategyScope];
+}
+
 function getSettingsFields(
   mode: AppMode,
   settings: RuntimeSettings,
+  strategies: Strategy[],
 ): Array<{ key: string; label: string; value: string }> {
   const base = [
     { key: "thinking", label: "Thinking", value: settings.thinking ? "on" : "off" },
@@ -859,21 +1175,25 @@ function getSettingsFields(
     { key: "maxRetries", label: "Max Retries", value: String(settings.maxRetries) },
     { key: "logs", label: "Logs", value: settings.logs ? "on" : "off" },
     { key: "verbose", label: "Verbose", value: settings.verbose ? "on" : "off" },
-    {
-      key: "routerMaxTurns",
-      label: "Router Max Turns",
-      value: String(settings.routerMaxTurns),
-    },
-    {
-      key: "hybridMaxTurns",
-      label: "Hybrid Max Turns",
-      value: String(settings.hybridMaxTurns),
-    },
   ];
 
+  // Strategy-specific fields come from each strategy's declared option schema.
+  for (const strategy of strategies) {
+    const definition = defaultStrategyRegistry.get(strategy);
+    for (const option of definition.options) {
+      const value = settings.strategyOptions[strategy]?.[option.key] ?? option.default;
+      base.push({
+        key: `strategy:${strategy}:${option.key}`,
+        label: mode === "benchmark" ? `${strategy}: ${option.label}` : option.label,
+        value: formatStrategyOptionValue(value),
+      });
+    }
+  }
+
   if (mode === "benchmark") {
     base.push(
       { key: "iterations", label: "Iterations", value: String(settings.iterations) },
+      { key: "concurrency", label: "Concurrency", value: String(settings.concurrency) },
       {
         key: "benchmarkStrategyScope",
         label: "Benchmark Strategies",
@@ -920,28 +1240,120 @@ function adjustSetting(
       const nextIndex = clamp(currentIndex + direction, 0, order.length - 1);
       next.reasoningEffort = order[nextIndex] ?? current.reasoningEffort;
     } else if (key === "benchmarkStrategyScope") {
-      const order: BenchmarkStrategyScope[] = ["all", ...STRATEGIES];
+      const order: BenchmarkStrategyScope[] = ["all", ...defaultStrategyRegistry.ids()];
       const currentIndex = order.indexOf(current.benchmarkStrategyScope);
       const nextIndex = clamp(currentIndex + direction, 0, order.length - 1);
       next.benchmarkStrategyScope = order[nextIndex] ?? current.benchmarkStrategyScope;
     } else if (key === "maxRetries") {
       next.maxRetries = clamp(current.maxRetries + direction, 0, 8);
-    } else if (key === "routerMaxTurns") {
-      next.routerMaxTurns = clamp(current.routerMaxTurns + direction, 1, 12);
-    } else if (key === "hybridMaxTurns") {
-      next.hybridMaxTurns = clamp(current.hybridMaxTurns + direction, 1, 12);
+    } else if (key.startsWith("strategy:")) {
+      next.strategyOptions = adjustStrategyOption(current.strategyOptions, key, direction);
     } else if (key === "iterations" && mode === "benchmark") {
       next.iterations = clamp(current.iterations + direction, 1, 20);
+    } else if (key === "concurrency" && mode === "benchmark") {
+      next.concurrency = clamp(current.concurrency + direction, 1, 16);
     }
 
     return { ...prev, settings: next };
   });
 }
 
+function formatStrategyOptionValue(value: string | number | boolean | undefined): string {
+  if (typeof value === "boolean") {
+    return value ? "on" : "off";
+  }
+  return value === undefined ? "(default)" : String(value);
+}
+
+// The settings screen has always started these turn caps at 4, above the CLI defaults.
+function tuiStrategyOptions(): StrategyOptionsById {
+  const defaults = defaultStrategyOptions();
+  for (const strategy of ["structured-json", "hybrid-repair"]) {
+    defaults[strategy] = { ...defaults[strategy], maxTurns: 4 };
+  }
+  return defaults;
+}
+
+function adjustStrategyOption(
+  current: StrategyOptionsById,
+  key: string,
+  direction: -1 | 1,
+): StrategyOptionsById {
+  const [, strategy = "", optionKey = ""] = key.split(":");
+  const option = defaultStrategyRegistry
+    .get(strategy)
+    .options.find((item) => item.key === optionKey);
+  if (!option) {
+    return current;
+  }
+
+  const values = { ...current[strategy] };
+  const value = values[option.key] ?? option.default;
+  if (option.type === "integer") {
+    const numeric = typeof value === "number" ? value : option.default;
+    const max = option.max ?? INTEGER_OPTION_STEP_MAX;
+    values[option.key] = clamp(numeric + direction, option.min, max);
+  } else if (option.type === "boolean") {
+    values[option.key] = !(typeof value === "boolean" ? value : option.default);
+  } else {
+    // String options (e.g. model overrides) are CLI-only; nothing to step through.
+    return current;
+  }
+
+  return { ...current, [strategy]: values };
+}
+
 function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(value, max));
 }
 
+/** Folds one run event into the live view; a new attempt starts from a clean slate. */
+function applyRunEvent(live: LiveRun, event: RunEvent): LiveRun {
+  switch (event.type) {
+    case "attempt_started":
+      return { ...EMPTY_LIVE_RUN, attempt: event.attempt, maxAttempts: event.maxAttempts };
+    case "thought_chunk":
+      return { ...live, thought: tailForUi(live.thought + event.text, 400) };
+    case "text_chunk":
+      return { ...live, text: tailForUi(live.text + event.text, 300) };
+    case "function_call":
+      return {
+        ...live,
+        text: "",
+        steps: [
+          ...live.steps,
+          `→ ${event.name ?? "?"} ${truncateForUi(JSON.stringify(event.args ?? {}), 100)}`,
+        ],
+      };
+    case "repair_started":
+      return {
+        ...live,
+        steps: [...live.steps, `⟳ repairing ${event.toolName}${event.round > 1 ? ` (round ${event.round})` : ""}: ${truncateForUi(event.reason, 100)}`],
+      };
+    case "tool_executed":
+      return {
+        ...live,
+        steps: [
+          ...live.steps,
+          event.error
+            ? `✗ ${event.toolName} (${event.durationMs}ms) ${event.error.type}: ${truncateForUi(event.error.message, 100)}`
+            : `✓ ${event.toolName} (${event.durationMs}ms) ${truncateForUi(JSON.stringify(event.result) ?? "", 100)}`,
+        ],
+      };
+  }
+}
+
+function diffLineColor(line: string): string {
+  if (line.startsWith("+")) {
+    return "green";
+  }
+  return line.startsWith("-") ? "red" : "yellow";
+}
+
+function tailForUi(value: string, max: number): string {
+  return value.length <= max ? value : `…${value.slice(-(max - 1))}`;
+}
+
 function truncateForUi(value: string, max: number): string {
   if (value.length <= max) {
     return value;
@@ -949,4 +1361,18 @@ function truncateForUi(value: string, max: number): string {
   return `${value.slice(0, Math.max(0, max - 1))}…`;
 }
 
-render(<App />);
+function argvList(prefix: string): string[] {
+  const raw = Bun.argv.find((arg) => arg.startsWith(prefix))?.slice(prefix.length) ?? "";
+  return raw.split(",").map((item) => item.trim()).filter((item) => item.length > 0);
+}
+
+const strategyModules = argvList("--strategy-modules=");
+if (strategyModules.length > 0) {
+  await loadStrategyModules(strategyModules);
+}
+const presets = loadPromptPresets({
+  files: argvList("--presets-file="),
+  dirs: argvList("--presets-dir="),
+});
+
+render(<App presets={presets} />);